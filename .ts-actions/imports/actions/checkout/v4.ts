@@ -58,6 +58,11 @@ class ActionsCheckout4Impl {
    */
   static readonly reference: string = "actions/checkout@v4";
 
+  /**
+   * The names of the action's outputs, which type the outputs of steps using the action
+   */
+  static readonly outputs: readonly (keyof ActionsCheckout4Outputs)[] = ["ref", "commit"];
+
   /**
    * Private constructor to prevent instantiation
    * Use the class directly as a static reference
@@ -50,6 +50,11 @@ class ActionsSetupNode4Impl {
    */
   static readonly reference: string = "actions/setup-node@v4";
 
+  /**
+   * The names of the action's outputs, which type the outputs of steps using the action
+   */
+  static readonly outputs: readonly (keyof ActionsSetupNode4Outputs)[] = ["cache-hit", "node-version"];
+
   /**
    * Private constructor to prevent instantiation
    * Use the class directly as a static reference
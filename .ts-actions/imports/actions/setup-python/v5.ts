@@ -48,6 +48,11 @@ class ActionsSetupPython5Impl {
    * This is a static property - access it via the class: ActionsSetupPython5.reference
    */
   static readonly reference: string = "actions/setup-python@v5";
+
+  /**
+   * The names of the action's outputs, which type the outputs of steps using the action
+   */
+  static readonly outputs: readonly (keyof ActionsSetupPython5Outputs)[] = ["python-version", "cache-hit", "python-path"];
   
   /**
    * Private constructor to prevent instantiation
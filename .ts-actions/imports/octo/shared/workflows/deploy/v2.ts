@@ -0,0 +1,70 @@
+/**
+ * Type definitions for OctoSharedDeployWorkflow2
+ * 
+ * Generated from the workflow_call trigger of .github/workflows/deploy.yml
+ * DO NOT EDIT THIS FILE MANUALLY
+ * 
+ * @see {@link https://github.com/octo/shared/blob/v2/.github/workflows/deploy.yml Workflow file}
+ */
+
+export interface OctoSharedDeployWorkflow2Inputs {
+  environment: string;
+  "dry-run"?: boolean;
+}
+
+export interface OctoSharedDeployWorkflow2Secrets {
+  token: string;
+}
+
+export interface OctoSharedDeployWorkflow2Outputs {
+  url: string;
+}
+
+/**
+ * Reusable workflow class for octo/shared/.github/workflows/deploy.yml@v2 (Deploy)
+ * 
+ * This is a static class - use the class directly, no instantiation needed.
+ * Example: job.uses(OctoSharedDeployWorkflow2, { with: { ... } })
+ * 
+ * @see {@link https://github.com/octo/shared/blob/v2/.github/workflows/deploy.yml Workflow file}
+ */
+export class OctoSharedDeployWorkflow2 {
+  /**
+   * The workflow reference string used as the caller job's `uses`
+   */
+  static readonly uses = "octo/shared/.github/workflows/deploy.yml@v2";
+
+  /**
+   * The workflow_call definition, which types the caller job's `with`, `secrets` and outputs
+   */
+  static readonly definition = {
+    "inputs": {
+      "environment": {
+        "description": "",
+        "required": true,
+        "type": "string"
+      },
+      "dry-run": {
+        "description": "",
+        "default": "false",
+        "type": "boolean"
+      }
+    },
+    "secrets": {
+      "token": {
+        "required": true
+      }
+    },
+    "outputs": {
+      "url": {
+        "description": "",
+        "value": "${{ jobs.deploy.outputs.url }}"
+      }
+    }
+  } as const;
+
+  /**
+   * Private constructor to prevent instantiation
+   */
+  private constructor() {}
+}
@@ -1,7 +1,53 @@
 export { Workflow } from "./src/core/workflow.js";
 export { Job } from "./src/core/job.js";
 export { Step } from "./src/core/step.js";
+export type { StepOutputsContext } from "./src/core/step.js";
 export * from "./src/core/types.js";
 export * from "./src/core/job-outputs.js";
+export * from "./src/core/concurrency-helpers.js";
+export * from "./src/core/expressions.js";
+export * from "./src/core/contexts.js";
+export * from "./src/core/event-payloads.js";
+export { matchesFilterPattern, matchesTriggerFilters } from "./src/core/trigger-filters.js";
+export type { ITriggerChange } from "./src/core/trigger-filters.js";
+export { describeCron, validateCron } from "./src/core/cron.js";
+export { Matrix, expandMatrix } from "./src/core/matrix.js";
+export type { IMatrixExpansion, MatrixContext, MatrixProperty } from "./src/core/matrix.js";
+export { GITHUB_HOSTED_RUNNERS, describeRunner } from "./src/core/runners.js";
+export { Schedule } from "./src/core/schedule.js";
+export { renderScript } from "./src/core/shells.js";
+export {
+  addMask,
+  addPath,
+  appendStepSummary,
+  setEnv,
+  setJsonOutput,
+  setMultilineOutput,
+} from "./src/core/environment-files.js";
+export type { Weekday } from "./src/core/schedule.js";
+export { ReusableWorkflow } from "./src/core/reusable-workflow.js";
+export type {
+  IReusableWorkflow,
+  WorkflowCallArguments,
+  WorkflowCallInputs,
+  WorkflowCallOutputs,
+  WorkflowCallSecrets,
+  WorkflowCallWith,
+} from "./src/core/reusable-workflow.js";
 export { synthesize, synthesizeMultiple } from "./src/synth/yaml.js";
-export type { IActionClassType } from "./src/actions/types.js";
+export { checkWorkflows } from "./src/synth/check.js";
+export type { DriftResult } from "./src/synth/check.js";
+export type { SynthesisEntry } from "./src/synth/yaml.js";
+export { convertWorkflowYaml } from "./src/convert/converter.js";
+export type { IConvertOptions, IConvertResult } from "./src/convert/converter.js";
+export { compareWorkflowConfigs } from "./src/convert/compare.js";
+export type { WorkflowDifference } from "./src/convert/compare.js";
+export { validateExpressions } from "./src/validate/expressions.js";
+export type { ExpressionIssue } from "./src/validate/expressions.js";
+export { analyzePermissions, inferJobPermissions } from "./src/validate/permissions.js";
+export type { IInferredPermissions } from "./src/validate/permissions.js";
+export { formatDiagnostics, validateWorkflowConfig } from "./src/validate/workflow.js";
+export type { IDiagnostic, IValidationOptions } from "./src/validate/workflow.js";
+export { defineConfig, loadConfig, setConfig } from "./src/config/config.js";
+export type { ITsActionsConfig, IYamlStyleOptions } from "./src/config/config.js";
+export type { ActionOutputs, IActionClassType } from "./src/actions/types.js";
@@ -1,5 +1,10 @@
 import { parse } from "yaml";
-import type { ActionMetadata, ActionReference } from "./types.js";
+import type {
+  ActionMetadata,
+  ActionReference,
+  WorkflowCallMetadata,
+  WorkflowReference,
+} from "./types.js";
 
 const ACTION_YML_REGEX = /action\.yml$/;
 
@@ -54,3 +59,46 @@ export async function fetchActionYml(reference: ActionReference): Promise<Action
     );
   }
 }
+
+/**
+ * Read the `on.workflow_call` block of a workflow file
+ * `on` may be a single event, a list of events or a map of event configurations
+ */
+export function parseWorkflowCall(yamlText: string, workflowRef: string): WorkflowCallMetadata {
+  const workflow = parse(yamlText) as { name?: string; on?: unknown } | null;
+  const on = workflow?.on;
+  const events = typeof on === "string" ? [on] : Array.isArray(on) ? on : Object.keys(on ?? {});
+
+  if (!events.includes("workflow_call")) {
+    throw new Error(`${workflowRef} is not a reusable workflow: it has no 'workflow_call' trigger`);
+  }
+
+  const config =
+    on && typeof on === "object" && !Array.isArray(on)
+      ? ((on as Record<string, unknown>).workflow_call as WorkflowCallMetadata | null)
+      : null;
+  return {
+    name: workflow?.name,
+    inputs: config?.inputs,
+    secrets: config?.secrets,
+    outputs: config?.outputs,
+  };
+}
+
+/**
+ * Fetch a reusable workflow from GitHub and read its `on.workflow_call` block
+ */
+export async function fetchWorkflowCall(
+  reference: WorkflowReference
+): Promise<WorkflowCallMetadata> {
+  const url = `https://raw.githubusercontent.com/${reference.owner}/${reference.repo}/${reference.version}/${reference.path}`;
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${reference.path} for ${reference.owner}/${reference.repo}@${reference.version}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  return parseWorkflowCall(await response.text(), reference.full);
+}
@@ -1,7 +1,16 @@
-import type { ActionInput, ActionMetadata, ActionReference } from "./types.js";
+import type {
+  ActionInput,
+  ActionMetadata,
+  ActionReference,
+  WorkflowCallMetadata,
+  WorkflowReference,
+} from "./types.js";
 
 const SPLIT_REGEX = /[-_]/;
+const WORKFLOW_NAME_SPLIT_REGEX = /[-_.]/;
 const VERSION_PREFIX_REGEX = /^v/;
+const WORKFLOW_EXTENSION_REGEX = /\.ya?ml$/;
+const NEWLINE_REGEX = /\n/g;
 
 /**
  * Generate TypeScript type definition for action inputs
@@ -127,6 +136,15 @@ class ${actionName}Impl {
    * This is a static property - access it via the class: ${actionName}.reference
    */
   static readonly reference: string = "${reference.full}";
+
+  /**
+   * The names of the action's outputs, which type the outputs of steps using the action
+   */
+  static readonly outputs: readonly (keyof ${actionName}Outputs)[] = [${Object.keys(
+    metadata.outputs ?? {}
+  )
+    .map((key) => JSON.stringify(key))
+    .join(", ")}];
   
   /**
    * Private constructor to prevent instantiation
@@ -179,3 +197,134 @@ export function generateActionTypeName(owner: string, repo: string, version: str
 
   return `${ownerParts}${repoParts}${versionParts}`;
 }
+
+/**
+ * Generate a TypeScript property list with one property per key
+ */
+function generateProperties(entries: [key: string, type: string, optional: boolean][]): string {
+  if (entries.length === 0) {
+    return "Record<string, never>";
+  }
+  const properties = entries.map(([key, type, optional]) => {
+    const propertyName = key.includes("-") ? `"${key}"` : key;
+    return `  ${propertyName}${optional ? "?" : ""}: ${type};`;
+  });
+  return `{\n${properties.join("\n")}\n}`;
+}
+
+/**
+ * The entries of a workflow_call map, with a key without a body (`token:`, null in YAML) read
+ * as an empty definition
+ */
+function definitionEntries<T>(
+  definitions: Record<string, T | null> | undefined
+): [key: string, definition: Partial<T>][] {
+  return Object.entries(definitions ?? {}).map(([key, definition]) => [key, definition ?? {}]);
+}
+
+/**
+ * The workflow_call definition as passed to job.uses(), in the shape of IWorkflowCallOptions
+ */
+function generateWorkflowDefinition(metadata: WorkflowCallMetadata): string {
+  const inputs = definitionEntries(metadata.inputs).map(([key, input]) => [
+    key,
+    {
+      description: input.description ?? "",
+      required: input.required,
+      default: input.default === undefined ? undefined : String(input.default),
+      type: input.type,
+    },
+  ]);
+  const outputs = definitionEntries(metadata.outputs).map(([key, output]) => [
+    key,
+    { description: output.description ?? "", value: output.value ?? "" },
+  ]);
+  const definition = {
+    inputs: Object.fromEntries(inputs),
+    secrets: Object.fromEntries(definitionEntries(metadata.secrets)),
+    outputs: Object.fromEntries(outputs),
+  };
+  return JSON.stringify(definition, null, 2).replace(NEWLINE_REGEX, "\n  ");
+}
+
+/**
+ * Generate the TypeScript file for an imported reusable workflow: the types of its inputs,
+ * secrets and outputs and a class to pass to job.uses()
+ */
+export function generateWorkflowTypeDefinition(
+  metadata: WorkflowCallMetadata,
+  workflowName: string,
+  reference: WorkflowReference
+): string {
+  const inputType = generateProperties(
+    definitionEntries(metadata.inputs).map(([key, input]) => [
+      key,
+      input.type ?? "string",
+      !input.required || input.default !== undefined,
+    ])
+  );
+  const secretType = generateProperties(
+    definitionEntries(metadata.secrets).map(([key, secret]) => [key, "string", !secret.required])
+  );
+  const outputType = generateProperties(
+    Object.keys(metadata.outputs ?? {}).map((key) => [key, "string", false])
+  );
+  const githubUrl = `https://github.com/${reference.owner}/${reference.repo}/blob/${reference.version}/${reference.path}`;
+
+  return `/**
+ * Type definitions for ${workflowName}
+ * 
+ * Generated from the workflow_call trigger of ${reference.path}
+ * DO NOT EDIT THIS FILE MANUALLY
+ * 
+ * @see {@link ${githubUrl} Workflow file}
+ */
+
+export interface ${workflowName}Inputs ${inputType}
+
+export interface ${workflowName}Secrets ${secretType}
+
+export interface ${workflowName}Outputs ${outputType}
+
+/**
+ * Reusable workflow class for ${reference.full}${metadata.name ? ` (${metadata.name})` : ""}
+ * 
+ * This is a static class - use the class directly, no instantiation needed.
+ * Example: job.uses(${workflowName}, { with: { ... } })
+ * 
+ * @see {@link ${githubUrl} Workflow file}
+ */
+export class ${workflowName} {
+  /**
+   * The workflow reference string used as the caller job's \`uses\`
+   */
+  static readonly uses = "${reference.full}";
+
+  /**
+   * The workflow_call definition, which types the caller job's \`with\`, \`secrets\` and outputs
+   */
+  static readonly definition = ${generateWorkflowDefinition(metadata)} as const;
+
+  /**
+   * Private constructor to prevent instantiation
+   */
+  private constructor() {}
+}
+`;
+}
+
+/**
+ * Generate a safe TypeScript identifier from a reusable workflow reference
+ * Example: "org/repo/.github/workflows/deploy.yml@v2" -> "OrgRepoDeployWorkflow2"
+ */
+export function generateWorkflowTypeName(reference: WorkflowReference): string {
+  const pascalCase = (str: string): string =>
+    str
+      .split(WORKFLOW_NAME_SPLIT_REGEX)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+      .join("");
+
+  const file = reference.path.split("/").pop()?.replace(WORKFLOW_EXTENSION_REGEX, "") ?? "";
+  const version = reference.version.replace(VERSION_PREFIX_REGEX, "");
+  return `${pascalCase(reference.owner)}${pascalCase(reference.repo)}${pascalCase(file)}Workflow${pascalCase(version)}`;
+}
@@ -1,7 +1,16 @@
 import { existsSync } from "node:fs";
-import { join } from "node:path";
-import { getRegistryEntry, loadImportedActionMetadata } from "./storage.js";
-import type { ActionMetadata, ActionReference } from "./types.js";
+import {
+  getMetadataFilePath,
+  getRegistryEntry,
+  loadImportedActionMetadata,
+  loadImportedWorkflowMetadata,
+} from "./storage.js";
+import type {
+  ActionMetadata,
+  ActionReference,
+  WorkflowCallMetadata,
+  WorkflowReference,
+} from "./types.js";
 
 /**
  * Load type information for an imported action at runtime
@@ -11,6 +20,14 @@ export function loadActionType(reference: ActionReference): ActionMetadata | nul
   return loadImportedActionMetadata(reference);
 }
 
+/**
+ * Load the workflow_call definition of an imported reusable workflow at runtime
+ * This is used to validate the inputs and secrets of jobs calling it
+ */
+export function loadWorkflowType(reference: WorkflowReference): WorkflowCallMetadata | null {
+  return loadImportedWorkflowMetadata(reference);
+}
+
 /**
  * Check if an action has been imported and has type definitions
  */
@@ -20,14 +37,7 @@ export function hasActionType(reference: ActionReference): boolean {
     return false;
   }
 
-  const metadataPath = join(
-    ".ts-actions/imports",
-    reference.owner,
-    reference.repo,
-    `${reference.version}.json`
-  );
-
-  return existsSync(metadataPath);
+  return existsSync(getMetadataFilePath(reference));
 }
 
 /**
@@ -1,6 +1,7 @@
-import type { ActionReference } from "./types.js";
+import type { ActionReference, WorkflowReference } from "./types.js";
 
 const ACTION_REF_REGEX = /^([^/@]+)\/([^/@]+)(?:@(.+))?$/;
+const WORKFLOW_REF_REGEX = /^([^/@]+)\/([^/@]+)\/(\.github\/workflows\/[^/@]+\.ya?ml)@(.+)$/;
 
 /**
  * Parse an action reference string into its components
@@ -39,3 +40,28 @@ export function parseActionReference(actionRef: string): ActionReference {
 export function formatActionReference(ref: ActionReference): string {
   return `${ref.owner}/${ref.repo}@${ref.version}`;
 }
+
+/**
+ * Parse a reusable workflow reference string into its components
+ * Example:
+ * - "org/repo/.github/workflows/deploy.yml@v2" ->
+ *   { owner: "org", repo: "repo", path: ".github/workflows/deploy.yml", version: "v2" }
+ */
+export function parseWorkflowReference(workflowRef: string): WorkflowReference {
+  const match = workflowRef.match(WORKFLOW_REF_REGEX);
+
+  if (!match) {
+    throw new Error(
+      `Invalid workflow reference format: "${workflowRef}". Expected format: "owner/repo/.github/workflows/file.yml@version"`
+    );
+  }
+
+  const [, owner, repo, path, version] = match;
+  return {
+    owner,
+    repo,
+    path,
+    version,
+    full: workflowRef,
+  };
+}
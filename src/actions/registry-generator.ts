@@ -1,9 +1,6 @@
 import { existsSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
-import { loadRegistry } from "./storage.js";
-
-const IMPORTS_DIR = ".ts-actions/imports";
-const REGISTRY_TYPE_FILE = join(IMPORTS_DIR, "registry.d.ts");
+import { getImportsDir, getWorkflowImportPath, loadRegistry } from "./storage.js";
 
 /**
  * Generate TypeScript type registry file that maps action references to their input types
@@ -26,6 +23,16 @@ export function generateTypeRegistry(): void {
     classExports.push(`export { ${entry.typeName} };`);
   }
 
+  const workflowTypeEntries: string[] = [];
+  for (const entry of registry.workflows ?? []) {
+    const relativePath = `./${getWorkflowImportPath(entry)}/${entry.version}.js`;
+
+    typeImports.push(`import type { ${entry.typeName}Inputs } from "${relativePath}";`);
+    classImports.push(`export { ${entry.typeName} } from "${relativePath}";`);
+
+    workflowTypeEntries.push(`  "${entry.full}": ${entry.typeName}Inputs;`);
+  }
+
   const registryContent = `/**
  * Type registry for imported GitHub Actions
  * This file is auto-generated - DO NOT EDIT MANUALLY
@@ -38,27 +45,35 @@ ${typeImports.join("\n")}
 export type ActionInputsRegistry = {
 ${typeEntries.length > 0 ? typeEntries.join("\n") : "  // No actions imported yet"}
 };
-`;
+${
+  workflowTypeEntries.length > 0
+    ? `
+export type WorkflowInputsRegistry = {
+${workflowTypeEntries.join("\n")}
+};
+`
+    : ""
+}`;
 
   const indexContent = `/**
  * Action classes for imported GitHub Actions
  * This file is auto-generated - DO NOT EDIT MANUALLY
  * 
- * Re-export all action classes for convenient importing.
+ * Re-export all action and reusable workflow classes for convenient importing.
  */
 
 ${classImports.length > 0 ? classImports.join("\n") : "// No actions imported yet"}
 `;
 
   // Ensure directory exists
-  const dir = join(IMPORTS_DIR);
+  const dir = getImportsDir();
   if (!existsSync(dir)) {
     return; // Nothing to generate if imports dir doesn't exist
   }
 
-  writeFileSync(REGISTRY_TYPE_FILE, registryContent, "utf-8");
+  writeFileSync(join(dir, "registry.d.ts"), registryContent, "utf-8");
 
   // Also generate an index file that exports all action classes
-  const indexFile = join(IMPORTS_DIR, "index.ts");
+  const indexFile = join(dir, "index.ts");
   writeFileSync(indexFile, indexContent, "utf-8");
 }
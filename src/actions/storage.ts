@@ -1,11 +1,21 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { dirname, join } from "node:path";
-import { generateActionTypeName, generateTypeDefinition } from "./generator.js";
+import { getConfig } from "../config/config.js";
+import {
+  generateActionTypeName,
+  generateTypeDefinition,
+  generateWorkflowTypeDefinition,
+  generateWorkflowTypeName,
+} from "./generator.js";
 import { generateTypeRegistry } from "./registry-generator.js";
-import type { ActionMetadata, ActionReference } from "./types.js";
+import type {
+  ActionMetadata,
+  ActionReference,
+  WorkflowCallMetadata,
+  WorkflowReference,
+} from "./types.js";
 
-const IMPORTS_DIR = ".ts-actions/imports";
-const REGISTRY_FILE = join(IMPORTS_DIR, "registry.json");
+const WORKFLOW_EXTENSION_REGEX = /\.ya?ml$/;
 
 export interface RegistryEntry {
   owner: string;
@@ -16,22 +26,48 @@ export interface RegistryEntry {
   importedAt: string;
 }
 
+export interface WorkflowRegistryEntry {
+  owner: string;
+  repo: string;
+  path: string;
+  version: string;
+  full: string;
+  typeName: string;
+  importedAt: string;
+}
+
 export interface Registry {
   actions: RegistryEntry[];
+  /** Imported reusable workflows (missing in registries written before workflows were supported) */
+  workflows?: WorkflowRegistryEntry[];
+}
+
+/**
+ * Get the imports directory from the active configuration
+ */
+export function getImportsDir(): string {
+  return getConfig().importsDir;
+}
+
+/**
+ * Get the path to the registry file
+ */
+export function getRegistryFilePath(): string {
+  return join(getImportsDir(), "registry.json");
 }
 
 /**
  * Get the path to the type definition file for an action
  */
 export function getTypeFilePath(reference: ActionReference): string {
-  return join(IMPORTS_DIR, reference.owner, reference.repo, `${reference.version}.ts`);
+  return join(getImportsDir(), reference.owner, reference.repo, `${reference.version}.ts`);
 }
 
 /**
  * Get the path to the metadata cache file for an action
  */
 export function getMetadataFilePath(reference: ActionReference): string {
-  return join(IMPORTS_DIR, reference.owner, reference.repo, `${reference.version}.json`);
+  return join(getImportsDir(), reference.owner, reference.repo, `${reference.version}.json`);
 }
 
 /**
@@ -49,12 +85,13 @@ export function ensureImportsDirectory(reference: ActionReference): void {
  * Load the registry
  */
 export function loadRegistry(): Registry {
-  if (!existsSync(REGISTRY_FILE)) {
+  const registryFile = getRegistryFilePath();
+  if (!existsSync(registryFile)) {
     return { actions: [] };
   }
 
   try {
-    const content = readFileSync(REGISTRY_FILE, "utf-8");
+    const content = readFileSync(registryFile, "utf-8");
     return JSON.parse(content) as Registry;
   } catch (error) {
     console.warn("Failed to load registry, starting with empty registry:", error);
@@ -66,11 +103,12 @@ export function loadRegistry(): Registry {
  * Save the registry
  */
 export function saveRegistry(registry: Registry): void {
-  const dir = dirname(REGISTRY_FILE);
+  const registryFile = getRegistryFilePath();
+  const dir = dirname(registryFile);
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
   }
-  writeFileSync(REGISTRY_FILE, JSON.stringify(registry, null, 2), "utf-8");
+  writeFileSync(registryFile, JSON.stringify(registry, null, 2), "utf-8");
 }
 
 /**
@@ -165,3 +203,110 @@ export function getRegistryEntry(reference: ActionReference): RegistryEntry | nu
     ) || null
   );
 }
+
+/**
+ * Get the directory of an imported reusable workflow, relative to the imports directory
+ * Example: org/repo/.github/workflows/deploy.yml@v2 -> org/repo/workflows/deploy
+ */
+export function getWorkflowImportPath(reference: WorkflowReference): string {
+  const file = reference.path.split("/").pop()?.replace(WORKFLOW_EXTENSION_REGEX, "") ?? "";
+  return [reference.owner, reference.repo, "workflows", file].join("/");
+}
+
+/**
+ * Get the path to the type definition file for a reusable workflow
+ */
+export function getWorkflowTypeFilePath(reference: WorkflowReference): string {
+  return join(getImportsDir(), getWorkflowImportPath(reference), `${reference.version}.ts`);
+}
+
+/**
+ * Get the path to the metadata cache file for a reusable workflow
+ */
+export function getWorkflowMetadataFilePath(reference: WorkflowReference): string {
+  return join(getImportsDir(), getWorkflowImportPath(reference), `${reference.version}.json`);
+}
+
+function isSameWorkflow(entry: WorkflowRegistryEntry, reference: WorkflowReference): boolean {
+  return (
+    entry.owner === reference.owner &&
+    entry.repo === reference.repo &&
+    entry.path === reference.path &&
+    entry.version === reference.version
+  );
+}
+
+/**
+ * Get registry entry for a reusable workflow
+ */
+export function getWorkflowRegistryEntry(
+  reference: WorkflowReference
+): WorkflowRegistryEntry | null {
+  const workflows = loadRegistry().workflows ?? [];
+  return workflows.find((entry) => isSameWorkflow(entry, reference)) || null;
+}
+
+/**
+ * Check if a reusable workflow is already imported
+ */
+export function isWorkflowImported(reference: WorkflowReference): boolean {
+  return getWorkflowRegistryEntry(reference) !== null;
+}
+
+/**
+ * Save an imported reusable workflow to disk
+ */
+export function saveImportedWorkflow(
+  reference: WorkflowReference,
+  metadata: WorkflowCallMetadata
+): WorkflowRegistryEntry {
+  const typeFilePath = getWorkflowTypeFilePath(reference);
+  mkdirSync(dirname(typeFilePath), { recursive: true });
+
+  const typeName = generateWorkflowTypeName(reference);
+  writeFileSync(
+    typeFilePath,
+    generateWorkflowTypeDefinition(metadata, typeName, reference),
+    "utf-8"
+  );
+  writeFileSync(getWorkflowMetadataFilePath(reference), JSON.stringify(metadata, null, 2), "utf-8");
+
+  const entry: WorkflowRegistryEntry = {
+    owner: reference.owner,
+    repo: reference.repo,
+    path: reference.path,
+    version: reference.version,
+    full: reference.full,
+    typeName,
+    importedAt: new Date().toISOString(),
+  };
+  const registry = loadRegistry();
+  const workflows = (registry.workflows ?? []).filter(
+    (existing) => !isSameWorkflow(existing, reference)
+  );
+  registry.workflows = [...workflows, entry];
+  saveRegistry(registry);
+
+  // Generate type registry for static type checking
+  generateTypeRegistry();
+  return entry;
+}
+
+/**
+ * Load an imported reusable workflow's metadata
+ */
+export function loadImportedWorkflowMetadata(
+  reference: WorkflowReference
+): WorkflowCallMetadata | null {
+  const metadataFilePath = getWorkflowMetadataFilePath(reference);
+  if (!existsSync(metadataFilePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(metadataFilePath, "utf-8")) as WorkflowCallMetadata;
+  } catch (error) {
+    console.warn(`Failed to load metadata for ${reference.full}:`, error);
+    return null;
+  }
+}
@@ -35,6 +35,42 @@ export interface ActionMetadata {
   };
 }
 
+export interface WorkflowReference {
+  owner: string;
+  repo: string;
+  /** Path of the workflow file in the repository, e.g. ".github/workflows/deploy.yml" */
+  path: string;
+  version: string;
+  full: string; // Original string like "org/repo/.github/workflows/deploy.yml@v2"
+}
+
+export interface WorkflowCallInput {
+  description?: string;
+  required?: boolean;
+  default?: string | number | boolean;
+  type: "string" | "number" | "boolean";
+}
+
+export interface WorkflowCallSecret {
+  description?: string;
+  required?: boolean;
+}
+
+export interface WorkflowCallOutput {
+  description?: string;
+  value: string;
+}
+
+/**
+ * The `on.workflow_call` block of a reusable workflow, with the workflow's name
+ */
+export interface WorkflowCallMetadata {
+  name?: string;
+  inputs?: Record<string, WorkflowCallInput>;
+  secrets?: Record<string, WorkflowCallSecret>;
+  outputs?: Record<string, WorkflowCallOutput>;
+}
+
 export interface ImportedAction {
   reference: ActionReference;
   metadata: ActionMetadata;
@@ -56,7 +92,24 @@ export interface ActionClass {
  */
 export interface IActionClassType {
   readonly reference: string;
+  /**
+   * Names of the action's outputs, typed by the action's generated `<Name>Outputs` interface
+   * (missing in action classes generated before outputs were typed)
+   */
+  readonly outputs?: readonly string[];
+}
+
+/**
+ * The outputs of an action step, by name: the outputs an imported action class declares, or
+ * any output for other actions.
+ */
+export type ActionOutputs<TAction extends IActionClassType> = TAction extends {
+  readonly outputs: readonly (infer TName extends string)[];
 }
+  ? string extends TName
+    ? Record<string, string>
+    : { [K in TName]: string }
+  : Record<string, string>;
 
 // Type alias for backward compatibility
 export type ActionClassType = IActionClassType;
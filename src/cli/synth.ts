@@ -1,16 +1,33 @@
-import { resolve } from "node:path";
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
 import { Command } from "commander";
-import { fetchActionYml } from "../actions/fetcher.js";
+import { parse } from "yaml";
+import { fetchActionYml, fetchWorkflowCall } from "../actions/fetcher.js";
 import { generateActionTypeName } from "../actions/generator.js";
-import { parseActionReference } from "../actions/parser.js";
+import { parseActionReference, parseWorkflowReference } from "../actions/parser.js";
 import {
   getRegistryEntry,
+  getTypeFilePath,
+  getWorkflowRegistryEntry,
+  getWorkflowTypeFilePath,
   isActionImported,
+  isWorkflowImported,
   loadImportedActionMetadata,
+  loadImportedWorkflowMetadata,
   loadRegistry,
   saveImportedAction,
+  saveImportedWorkflow,
 } from "../actions/storage.js";
-import type { RegistryEntry } from "../actions/storage.js";
+import type { Registry, RegistryEntry, WorkflowRegistryEntry } from "../actions/storage.js";
+import { getConfig, loadConfig } from "../config/config.js";
+import { compareWorkflowConfigs } from "../convert/compare.js";
+import { convertWorkflowYaml } from "../convert/converter.js";
+import { checkWorkflows, hasDrift } from "../synth/check.js";
+import { WorkflowWatcher } from "../synth/watch.js";
+import type { WatchSummary } from "../synth/watch.js";
+import { loadWorkflowsFromFile } from "../synth/workflow-loader.js";
+import type { LoadedWorkflow } from "../synth/workflow-loader.js";
+import { synthesizeMultiple } from "../synth/yaml.js";
 
 const program = new Command();
 
@@ -66,13 +83,57 @@ function formatActionForDisplay(entry: RegistryEntry) {
   return lines;
 }
 
+/**
+ * Format an imported reusable workflow entry for JSON output
+ */
+function formatWorkflowForJson(entry: WorkflowRegistryEntry) {
+  const metadata = loadImportedWorkflowMetadata(entry);
+
+  return {
+    reference: entry.full,
+    class: entry.typeName,
+    owner: entry.owner,
+    repo: entry.repo,
+    path: entry.path,
+    version: entry.version,
+    importedAt: entry.importedAt,
+    inputs: metadata?.inputs ? Object.keys(metadata.inputs).length : 0,
+    secrets: metadata?.secrets ? Object.keys(metadata.secrets).length : 0,
+    outputs: metadata?.outputs ? Object.keys(metadata.outputs).length : 0,
+  };
+}
+
+/**
+ * Format an imported reusable workflow entry for human-readable output
+ */
+function formatWorkflowForDisplay(entry: WorkflowRegistryEntry) {
+  const metadata = loadImportedWorkflowMetadata(entry);
+
+  const lines = [
+    `  Workflow: ${entry.full}`,
+    `  Class: ${entry.typeName}`,
+    `  Imported: ${new Date(entry.importedAt).toLocaleString()}`,
+  ];
+
+  if (metadata) {
+    lines.push(
+      `  Inputs: ${metadata.inputs ? Object.keys(metadata.inputs).length : 0}`,
+      `  Secrets: ${metadata.secrets ? Object.keys(metadata.secrets).length : 0}`,
+      `  Outputs: ${metadata.outputs ? Object.keys(metadata.outputs).length : 0}`
+    );
+  }
+
+  return lines;
+}
+
 /**
  * Output list in JSON format
  */
-function outputJsonFormat(registry: { actions: RegistryEntry[] }) {
+function outputJsonFormat(registry: Registry) {
   const coreClasses = ["Workflow", "Job", "Step"];
   const output = {
     imports: registry.actions.map(formatActionForJson),
+    workflows: (registry.workflows ?? []).map(formatWorkflowForJson),
     coreClasses: coreClasses.map((className) => ({
       name: className,
       source: "ts-actions",
@@ -85,7 +146,7 @@ function outputJsonFormat(registry: { actions: RegistryEntry[] }) {
 /**
  * Output list in human-readable format
  */
-function outputHumanReadableFormat(registry: { actions: RegistryEntry[] }) {
+function outputHumanReadableFormat(registry: Registry) {
   const coreClasses = ["Workflow", "Job", "Step"];
 
   console.log("📦 Imported Actions");
@@ -101,6 +162,15 @@ function outputHumanReadableFormat(registry: { actions: RegistryEntry[] }) {
     }
   }
 
+  const workflows = registry.workflows ?? [];
+  if (workflows.length > 0) {
+    console.log("\n\n🔁 Imported Reusable Workflows");
+    console.log("=".repeat(60));
+    for (const entry of workflows) {
+      console.log(`\n${formatWorkflowForDisplay(entry).join("\n")}`);
+    }
+  }
+
   console.log("\n\n🏗️  Core Classes");
   console.log("=".repeat(60));
   for (const className of coreClasses) {
@@ -111,39 +181,237 @@ function outputHumanReadableFormat(registry: { actions: RegistryEntry[] }) {
   console.log("\n");
 }
 
+/**
+ * Load the exported workflows from the given file, or from the configured entries
+ */
+function loadEntryWorkflows(file: string | undefined): LoadedWorkflow[] {
+  const entries = file ? [resolve(file)] : getConfig().entries;
+  if (entries.length === 0) {
+    throw new Error(
+      "No workflow file given and no entries configured. Pass a file or set 'entries' in ts-actions.config.ts."
+    );
+  }
+
+  const loaded: LoadedWorkflow[] = [];
+  for (const entry of entries) {
+    console.log(`Reading workflow definitions from: ${entry}`);
+    const workflows = loadWorkflowsFromFile(entry);
+    if (workflows.length === 0) {
+      throw new Error(
+        `No exported workflows found in ${entry}. Example: export const myWorkflow = new Workflow('My Workflow')...`
+      );
+    }
+    loaded.push(...workflows);
+  }
+  return loaded;
+}
+
+/**
+ * Print a short summary of a watch mode synthesis pass
+ */
+function printWatchSummary(summary: WatchSummary) {
+  const time = new Date().toLocaleTimeString();
+  const trigger =
+    summary.changedFiles.length > 0
+      ? summary.changedFiles.map((changed) => relative(process.cwd(), changed)).join(", ")
+      : "initial build";
+
+  console.log(`[${time}] ${trigger}`);
+  for (const filename of summary.written) {
+    console.log(`  ✓ wrote ${filename}`);
+  }
+  if (summary.unchanged.length > 0) {
+    console.log(`  ${summary.unchanged.length} workflow(s) unchanged`);
+  }
+  for (const { entry, error } of summary.errors) {
+    console.error(
+      `  ✗ ${relative(process.cwd(), entry)}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Synthesize workflows and keep re-synthesizing them as their sources change
+ */
+async function startWatchMode(file: string | undefined, outputDir: string) {
+  const entries = file ? [resolve(file)] : getConfig().entries;
+  if (entries.length === 0) {
+    throw new Error(
+      "No workflow file given and no entries configured. Pass a file or set 'entries' in ts-actions.config.ts."
+    );
+  }
+
+  const watcher = new WorkflowWatcher(entries, outputDir, { onSynthesize: printWatchSummary });
+  await watcher.start();
+  console.log(`Watching ${entries.length} entry file(s) for changes. Press Ctrl+C to stop.`);
+
+  process.on("SIGINT", () => {
+    watcher.close();
+    process.exit(0);
+  });
+}
+
+/**
+ * Module specifier for the imported action classes, relative to the directory of the generated file
+ */
+function importsModuleFor(fromDir: string): string {
+  const specifier = relative(fromDir, join(getConfig().importsDir, "index.js"))
+    .split(sep)
+    .join("/");
+  return specifier.startsWith(".") ? specifier : `./${specifier}`;
+}
+
+/**
+ * Synthesize a converted workflow file and compare it with the YAML it came from
+ */
+function verifyConversion(yamlFile: string, outputFile: string, exportName: string): boolean {
+  const loaded = loadWorkflowsFromFile(outputFile).find((entry) => entry.exportName === exportName);
+  if (!loaded) {
+    throw new Error(`Converted file ${outputFile} does not export ${exportName}`);
+  }
+
+  const differences = compareWorkflowConfigs(
+    parse(readFileSync(yamlFile, "utf-8")),
+    loaded.workflow.toJSON()
+  );
+  for (const { path, expected, actual } of differences) {
+    console.error(
+      `  ✗ ${path}: expected ${JSON.stringify(expected)}, synthesized ${JSON.stringify(actual)}`
+    );
+  }
+  return differences.length === 0;
+}
+
 program
   .name("ts-actions")
   .description("Synthesize GitHub Actions workflows from TypeScript")
-  .version("1.0.0");
+  .version("1.0.0")
+  .option("-c, --config <path>", "Path to ts-actions config file (default: ./ts-actions.config.ts)")
+  .hook("preAction", (command) => {
+    loadConfig(command.opts<{ config?: string }>().config);
+  });
 
 program
   .command("synth")
   .description("Synthesize workflows from a TypeScript file")
-  .argument("<file>", "Path to TypeScript file containing workflow definitions")
-  .option("-o, --output <dir>", "Output directory for YAML files", "dist")
-  .action((file: string, options: { output: string }) => {
+  .argument(
+    "[file]",
+    "Path to TypeScript file containing workflow definitions (default: configured entries)"
+  )
+  .option("-o, --output <dir>", "Output directory for YAML files (default: configured outputDir)")
+  .option("-w, --watch", "Re-synthesize workflows when their TypeScript sources change", false)
+  .action(async (file: string | undefined, options: { output?: string; watch: boolean }) => {
     try {
-      const filePath = resolve(file);
+      const outputDir = options.output ? resolve(options.output) : getConfig().outputDir;
+      if (options.watch) {
+        await startWatchMode(file, outputDir);
+        return;
+      }
 
-      // Create a temporary module context to evaluate the file
-      // In a real implementation, we might use a more sophisticated approach
-      // For now, we'll require the user to export workflows
-      console.log(`Reading workflow definitions from: ${filePath}`);
-      console.log(`Output directory: ${options.output}`);
+      const loaded = loadEntryWorkflows(file);
+      const removed = await synthesizeMultiple(
+        loaded.map(({ workflow, sourceFile }) => ({ workflow, source: sourceFile })),
+        outputDir
+      );
 
-      // Note: This is a simplified version. In production, you'd want to:
-      // 1. Use a proper TypeScript compiler API or ts-node/tsx to execute the file
-      // 2. Extract exported workflows
-      // 3. Synthesize them
-      // For now, we'll provide a basic structure that users can extend
+      for (const { exportName } of loaded) {
+        console.log(`  ✓ ${exportName}`);
+      }
+      for (const filename of removed) {
+        console.log(`  - ${filename} (stale, removed)`);
+      }
+      console.log(`✓ Synthesized ${loaded.length} workflow(s) to ${outputDir}`);
+    } catch (error) {
+      console.error("Error synthesizing workflows:", error);
+      process.exit(1);
+    }
+  });
 
-      console.log(
-        "Note: The synth command requires workflows to be exported from the TypeScript file."
+program
+  .command("check")
+  .description("Check that committed workflow YAML matches the TypeScript sources")
+  .argument(
+    "[file]",
+    "Path to TypeScript file containing workflow definitions (default: configured entries)"
+  )
+  .option(
+    "-o, --output <dir>",
+    "Directory holding the workflow YAML (default: configured outputDir)"
+  )
+  .action(async (file: string | undefined, options: { output?: string }) => {
+    try {
+      const loaded = loadEntryWorkflows(file);
+      const outputDir = options.output ? resolve(options.output) : getConfig().outputDir;
+      const results = await checkWorkflows(
+        loaded.map(({ workflow, sourceFile }) => ({ workflow, source: sourceFile })),
+        outputDir
       );
-      console.log("Example: export const myWorkflow = new Workflow('My Workflow')...");
-      console.log("For now, please use the library API directly or extend this CLI.");
+
+      for (const result of results) {
+        if (result.status === "up-to-date") {
+          console.log(`  ✓ ${result.filename}`);
+        } else {
+          console.log(`  ✗ ${result.filename} (${result.status})`);
+          console.log(result.diff);
+        }
+      }
+
+      if (hasDrift(results)) {
+        console.error(
+          "Workflow YAML is out of date with its TypeScript sources. Run 'ts-actions synth' to update it."
+        );
+        process.exit(1);
+      }
+      console.log(`✓ ${results.length} workflow(s) up to date in ${outputDir}`);
     } catch (error) {
-      console.error("Error synthesizing workflows:", error);
+      console.error("Error checking workflows:", error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("convert")
+  .description("Convert an existing workflow YAML file into ts-actions TypeScript code")
+  .argument("<yaml>", "Path to the workflow YAML file (e.g. .github/workflows/ci.yml)")
+  .option("-o, --output <file>", "Write the TypeScript to a file instead of stdout")
+  .option("-n, --name <export>", "Name of the exported workflow constant")
+  .option(
+    "--verify",
+    "Synthesize the generated file and check it matches the original YAML (requires --output)",
+    false
+  )
+  .action((yamlFile: string, options: { output?: string; name?: string; verify: boolean }) => {
+    try {
+      if (options.verify && !options.output) {
+        throw new Error("--verify requires --output");
+      }
+
+      const outputFile = options.output ? resolve(options.output) : undefined;
+      const result = convertWorkflowYaml(readFileSync(resolve(yamlFile), "utf-8"), {
+        exportName: options.name,
+        importsModule: importsModuleFor(outputFile ? dirname(outputFile) : process.cwd()),
+      });
+
+      for (const warning of result.warnings) {
+        console.error(`  ⚠ ${warning}`);
+      }
+      if (!outputFile) {
+        process.stdout.write(result.code);
+        return;
+      }
+
+      writeFileSync(outputFile, result.code, "utf-8");
+      console.log(`✓ Converted ${yamlFile} to ${relative(process.cwd(), outputFile)}`);
+
+      if (options.verify) {
+        if (!verifyConversion(resolve(yamlFile), outputFile, result.exportName)) {
+          console.error("Synthesized workflow differs from the original YAML.");
+          process.exit(1);
+        }
+        console.log("✓ Synthesized workflow matches the original YAML");
+      }
+    } catch (error) {
+      console.error("Error converting workflow:", error);
       process.exit(1);
     }
   });
@@ -163,9 +431,7 @@ program
         if (entry) {
           console.log(`Action ${action} is already imported (imported at ${entry.importedAt})`);
           console.log(`Type name: ${entry.typeName}`);
-          console.log(
-            `Type file: .ts-actions/imports/${reference.owner}/${reference.repo}/${reference.version}.ts`
-          );
+          console.log(`Type file: ${relative(process.cwd(), getTypeFilePath(reference))}`);
           return;
         }
       }
@@ -180,13 +446,54 @@ program
 
       console.log(`✓ Successfully imported ${action}`);
       console.log(`  Type name: ${typeName}`);
+      console.log(`  Type file: ${relative(process.cwd(), getTypeFilePath(reference))}`);
+      console.log(`  Inputs: ${metadata.inputs ? Object.keys(metadata.inputs).length : 0}`);
+      console.log(`  Outputs: ${metadata.outputs ? Object.keys(metadata.outputs).length : 0}`);
+    } catch (error) {
+      console.error("Error importing action:", error);
+      if (error instanceof Error) {
+        console.error(error.message);
+      }
+      process.exit(1);
+    }
+  });
+
+program
+  .command("import-workflow")
+  .description("Import a reusable workflow and generate a typed class for calling it")
+  .argument("<workflow>", "Workflow reference (e.g., org/repo/.github/workflows/deploy.yml@v2)")
+  .option("--force", "Force re-import even if already imported", false)
+  .action(async (workflow: string, options: { force: boolean }) => {
+    try {
+      const reference = parseWorkflowReference(workflow);
+
+      // Check if already imported
+      if (!options.force && isWorkflowImported(reference)) {
+        const entry = getWorkflowRegistryEntry(reference);
+        if (entry) {
+          console.log(`Workflow ${workflow} is already imported (imported at ${entry.importedAt})`);
+          console.log(`Class: ${entry.typeName}`);
+          console.log(`Type file: ${relative(process.cwd(), getWorkflowTypeFilePath(reference))}`);
+          return;
+        }
+      }
+
       console.log(
-        `  Type file: .ts-actions/imports/${reference.owner}/${reference.repo}/${reference.version}.ts`
+        `Fetching ${reference.path} for ${reference.owner}/${reference.repo}@${reference.version}...`
       );
+      const metadata = await fetchWorkflowCall(reference);
+
+      console.log("Generating type definitions...");
+      const entry = saveImportedWorkflow(reference, metadata);
+
+      console.log(`✓ Successfully imported ${workflow}`);
+      console.log(`  Class: ${entry.typeName}`);
+      console.log(`  Type file: ${relative(process.cwd(), getWorkflowTypeFilePath(reference))}`);
       console.log(`  Inputs: ${metadata.inputs ? Object.keys(metadata.inputs).length : 0}`);
+      console.log(`  Secrets: ${metadata.secrets ? Object.keys(metadata.secrets).length : 0}`);
       console.log(`  Outputs: ${metadata.outputs ? Object.keys(metadata.outputs).length : 0}`);
     } catch (error) {
-      console.error("Error importing action:", error);
+      console.error("Error importing workflow:", error);
       if (error instanceof Error) {
         console.error(error.message);
       }
@@ -0,0 +1,246 @@
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, isAbsolute, resolve } from "node:path";
+import type {
+  GitHubHostedRunner,
+  IRunnerDefinition,
+  IWorkflowPermissions,
+  Runner,
+} from "../core/types.js";
+
+/**
+ * Config file names looked up (in order) when no explicit path is given
+ */
+export const CONFIG_FILE_NAMES = [
+  "ts-actions.config.ts",
+  "ts-actions.config.js",
+  "ts-actions.config.json",
+];
+
+/**
+ * YAML formatting options applied to every synthesized workflow.
+ *
+ * @stability stable
+ */
+export interface IYamlStyleOptions {
+  /** Number of spaces per indentation level (default: 2) */
+  indent?: number;
+  /** Maximum line width before long strings are folded, 0 disables folding (default: 80) */
+  lineWidth?: number;
+  /** Whether sequence items are indented below their parent key (default: true) */
+  indentSequences?: boolean;
+  /** Prefer single quotes over double quotes for quoted strings (default: false) */
+  singleQuote?: boolean;
+}
+
+/**
+ * Project-level configuration, usually declared in `ts-actions.config.ts`.
+ *
+ * @example
+ * ```typescript
+ * import { defineConfig } from "ts-actions";
+ *
+ * export default defineConfig({
+ *   entries: [".github/workflows-src/index.ts"],
+ *   outputDir: ".github/workflows",
+ *   importsDir: "tools/ts-actions/imports",
+ *   defaultRunner: "ubuntu-22.04",
+ *   defaultNodeVersion: "22",
+ * });
+ * ```
+ * @stability stable
+ */
+export interface ITsActionsConfig {
+  /** TypeScript files whose exported workflows are synthesized when no file is given to the CLI */
+  entries?: string[];
+  /** Output directory for synthesized YAML files (default: "dist") */
+  outputDir?: string;
+  /** Directory holding imported action type definitions (default: ".ts-actions/imports") */
+  importsDir?: string;
+  /** Runner used for jobs created through `workflow.addJob(id, (job) => ...)` (default: "ubuntu-latest") */
+  defaultRunner?: Runner;
+  /** Node.js version used for TypeScript function steps (default: "24") */
+  defaultNodeVersion?: string;
+  /** YAML formatting options */
+  yaml?: IYamlStyleOptions;
+  /**
+   * Comment written at the top of every synthesized file. `{source}` is replaced with the
+   * TypeScript file that defined the workflow. Set to false to omit the header.
+   * (default: "Generated by ts-actions from {source}. Do not edit this file by hand.")
+   */
+  header?: boolean | string;
+  /**
+   * Token permissions of actions that the permission analysis does not know, by action
+   * (e.g. "octo/deploy-action" or "octo/tools/deploy"), see `workflow.inferPermissions()`.
+   */
+  actionPermissions?: { [action: string]: IWorkflowPermissions };
+  /**
+   * The project's self-hosted and larger GitHub-hosted runners. Jobs selecting runners by
+   * labels or group are checked against them, see `IRunnerCatalog` for type checking.
+   */
+  runners?: readonly IRunnerDefinition[];
+}
+
+/**
+ * Configuration with every option filled in and paths made absolute.
+ * @internal
+ */
+export interface ResolvedConfig {
+  entries: string[];
+  outputDir: string;
+  importsDir: string;
+  defaultRunner: Runner;
+  defaultNodeVersion: string;
+  yaml: Required<IYamlStyleOptions>;
+  /** Header template, or false when headers are disabled */
+  header: string | false;
+  actionPermissions: { [action: string]: IWorkflowPermissions };
+  runners: readonly IRunnerDefinition[];
+  /** Absolute path of the config file, if one was loaded */
+  configFile?: string;
+}
+
+const DEFAULT_CONFIG = {
+  entries: [] as string[],
+  outputDir: "dist",
+  importsDir: ".ts-actions/imports",
+  defaultRunner: "ubuntu-latest" as GitHubHostedRunner,
+  defaultNodeVersion: "24",
+  yaml: {
+    indent: 2,
+    lineWidth: 80,
+    indentSequences: true,
+    singleQuote: false,
+  },
+  header: "Generated by ts-actions from {source}. Do not edit this file by hand.",
+};
+
+let activeConfig: ResolvedConfig | null = null;
+
+/**
+ * Identity helper that gives config files full type checking and autocomplete.
+ * The literal types are kept, so `RunnerCatalogOf<typeof config>` knows the runner labels.
+ *
+ * @param config - The project configuration
+ * @returns The same configuration
+ * @stability stable
+ */
+export function defineConfig<const TConfig extends ITsActionsConfig>(config: TConfig): TConfig {
+  return config;
+}
+
+/**
+ * Turn the header option into a template string, or false when disabled.
+ */
+function resolveHeader(header: boolean | string | undefined): string | false {
+  if (header === false) {
+    return false;
+  }
+  return typeof header === "string" ? header : DEFAULT_CONFIG.header;
+}
+
+/**
+ * Merge a user config with the defaults and resolve relative paths against baseDir.
+ */
+function resolveConfig(
+  config: ITsActionsConfig,
+  baseDir: string,
+  configFile?: string
+): ResolvedConfig {
+  const toAbsolute = (path: string): string => (isAbsolute(path) ? path : resolve(baseDir, path));
+
+  return {
+    entries: (config.entries ?? DEFAULT_CONFIG.entries).map(toAbsolute),
+    outputDir: toAbsolute(config.outputDir ?? DEFAULT_CONFIG.outputDir),
+    importsDir: toAbsolute(config.importsDir ?? DEFAULT_CONFIG.importsDir),
+    defaultRunner: config.defaultRunner ?? DEFAULT_CONFIG.defaultRunner,
+    defaultNodeVersion: config.defaultNodeVersion ?? DEFAULT_CONFIG.defaultNodeVersion,
+    yaml: { ...DEFAULT_CONFIG.yaml, ...config.yaml },
+    header: resolveHeader(config.header),
+    actionPermissions: config.actionPermissions ?? {},
+    runners: config.runners ?? [],
+    configFile,
+  };
+}
+
+/**
+ * Find the config file in a directory.
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const candidate = resolve(cwd, fileName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a config file from disk.
+ * TypeScript config files require the tsx loader, which the CLI registers.
+ */
+function readConfigFile(configFile: string): ITsActionsConfig {
+  if (configFile.endsWith(".json")) {
+    return JSON.parse(readFileSync(configFile, "utf-8")) as ITsActionsConfig;
+  }
+
+  const moduleExports = require(configFile) as {
+    default?: ITsActionsConfig;
+    config?: ITsActionsConfig;
+  };
+  const config = moduleExports.default ?? moduleExports.config;
+  if (!config || typeof config !== "object") {
+    throw new Error(
+      `Invalid config file ${configFile}: expected a default export created with defineConfig()`
+    );
+  }
+  return config;
+}
+
+/**
+ * Load the project configuration and make it the active configuration.
+ *
+ * @param configPath - Explicit config file path (otherwise looked up in cwd)
+ * @param cwd - Directory to search for a config file
+ * @returns The resolved configuration
+ */
+export function loadConfig(configPath?: string, cwd: string = process.cwd()): ResolvedConfig {
+  const configFile = configPath ? resolve(cwd, configPath) : findConfigFile(cwd);
+
+  if (configPath && !(configFile && existsSync(configFile))) {
+    throw new Error(`Config file not found: ${configFile}`);
+  }
+
+  activeConfig = configFile
+    ? resolveConfig(readConfigFile(configFile), dirname(configFile), configFile)
+    : resolveConfig({}, cwd);
+  return activeConfig;
+}
+
+/**
+ * Get the active configuration, loading it from the current directory on first use.
+ *
+ * @returns The resolved configuration
+ */
+export function getConfig(): ResolvedConfig {
+  return activeConfig ?? loadConfig();
+}
+
+/**
+ * Set the active configuration programmatically, bypassing config file lookup.
+ * Relative paths are resolved against the current directory.
+ *
+ * @param config - The configuration to use
+ * @returns The resolved configuration
+ */
+export function setConfig(config: ITsActionsConfig): ResolvedConfig {
+  activeConfig = resolveConfig(config, process.cwd());
+  return activeConfig;
+}
+
+/**
+ * Forget the active configuration so the next getConfig() call reloads it.
+ */
+export function resetConfig(): void {
+  activeConfig = null;
+}
@@ -0,0 +1,140 @@
+/**
+ * Helpers for printing TypeScript source from plain values.
+ * Output follows the repo's formatting closely enough that a formatter pass is optional.
+ */
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/;
+const TEMPLATE_ESCAPE_REGEX = /[`\\]|\$\{/g;
+const WORD_SEPARATOR_REGEX = /[^A-Za-z0-9]+/;
+const LEADING_DIGIT_REGEX = /^[0-9]/;
+const NEEDS_OUTPUT_EXPRESSION_REGEX = /\$\{\{\s*needs\.([\w-]+)\.outputs\.([\w-]+)\s*\}\}/g;
+
+/**
+ * Maximum line length before calls and literals are broken over several lines
+ */
+export const MAX_LINE_LENGTH = 100;
+
+/**
+ * Maps a job id to the variable holding its `needs()` reference
+ */
+export type NeedsReferences = Map<string, string>;
+
+/**
+ * Format a property access on a reference, e.g. `ref.outputs.version` or `ref.outputs["app-url"]`.
+ */
+function propertyAccess(target: string, property: string): string {
+  return IDENTIFIER_REGEX.test(property)
+    ? `${target}.${property}`
+    : `${target}[${JSON.stringify(property)}]`;
+}
+
+/**
+ * Format an object key, quoting it only when it is not a valid identifier.
+ */
+export function propertyKey(key: string): string {
+  return IDENTIFIER_REGEX.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Format a string as a TypeScript literal.
+ * Multi-line strings and strings referencing job outputs become template literals;
+ * `${{ needs.<job>.outputs.<name> }}` expressions are replaced with typed output references.
+ */
+export function stringLiteral(value: string, references?: NeedsReferences): string {
+  let interpolated = false;
+  const parts: string[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(NEEDS_OUTPUT_EXPRESSION_REGEX)) {
+    const reference = references?.get(match[1]);
+    if (!reference) {
+      continue;
+    }
+    parts.push(escapeTemplate(value.slice(lastIndex, match.index)));
+    parts.push(`\${${propertyAccess(`${reference}.outputs`, match[2])}}`);
+    lastIndex = (match.index ?? 0) + match[0].length;
+    interpolated = true;
+  }
+
+  if (!(interpolated || value.includes("\n"))) {
+    return JSON.stringify(value);
+  }
+  parts.push(escapeTemplate(value.slice(lastIndex)));
+  return `\`${parts.join("")}\``;
+}
+
+function escapeTemplate(text: string): string {
+  return text.replace(TEMPLATE_ESCAPE_REGEX, (match) => `\\${match}`);
+}
+
+/**
+ * Format a value (string, number, boolean, array or object) as a TypeScript literal.
+ * Short literals stay on one line; longer ones are broken over several lines using
+ * the indentation of the line the literal starts on. `reserved` is the width of the
+ * code around the literal on that line.
+ */
+export function valueLiteral(
+  value: unknown,
+  indent: string,
+  references?: NeedsReferences,
+  reserved = 0
+): string {
+  if (typeof value === "string") {
+    return stringLiteral(value, references);
+  }
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (typeof value !== "object") {
+    return String(value);
+  }
+
+  const inner = `${indent}  `;
+  const items = Array.isArray(value)
+    ? value.map((item) => valueLiteral(item, inner, references))
+    : Object.entries(value).map(
+        ([key, item]) => `${propertyKey(key)}: ${valueLiteral(item, inner, references)}`
+      );
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{ ", " }"];
+
+  if (items.length === 0) {
+    return Array.isArray(value) ? "[]" : "{}";
+  }
+
+  const inline = `${open}${items.join(", ")}${close}`;
+  if (!inline.includes("\n") && indent.length + reserved + inline.length <= MAX_LINE_LENGTH) {
+    return inline;
+  }
+  return `${open.trim()}\n${items.map((item) => `${inner}${item},`).join("\n")}\n${indent}${close.trim()}`;
+}
+
+/**
+ * Format a method chain, e.g. `step.name("Test").run("npm test")`.
+ * The chain stays on one line when it fits and has no multi-line arguments or comments,
+ * otherwise every call goes on its own line.
+ *
+ * @param head - The expression the chain starts from
+ * @param calls - The calls, each starting with "."
+ * @param indent - Indentation of the line the chain starts on
+ */
+export function formatChain(head: string, calls: string[], indent: string): string {
+  const inline = `${head}${calls.join("")}`;
+  const hasComments = calls.some((call) => call.startsWith("//"));
+  if (!(hasComments || inline.includes("\n")) && indent.length + inline.length <= MAX_LINE_LENGTH) {
+    return inline;
+  }
+  return [head, ...calls.map((call) => `${indent}  ${call}`)].join("\n");
+}
+
+/**
+ * Turn a name like "Build and Test" or "build-test" into camelCase.
+ */
+export function toCamelCase(name: string): string {
+  const words = name.split(WORD_SEPARATOR_REGEX).filter(Boolean);
+  const camel = words
+    .map((word, index) =>
+      index === 0 ? word.toLowerCase() : `${word[0].toUpperCase()}${word.slice(1).toLowerCase()}`
+    )
+    .join("");
+  return LEADING_DIGIT_REGEX.test(camel) ? `_${camel}` : camel;
+}
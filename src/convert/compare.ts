@@ -0,0 +1,142 @@
+/**
+ * Semantic comparison of workflow configurations, used to verify that converted
+ * TypeScript synthesizes the same workflow as the YAML it was converted from.
+ */
+
+type YamlMap = Record<string, unknown>;
+
+/**
+ * A single difference between two workflow configurations.
+ */
+export interface WorkflowDifference {
+  /** Path of the differing value, e.g. "jobs.build.steps[0].with.fetch-depth" */
+  path: string;
+  /** The value in the original workflow (undefined when missing) */
+  expected: unknown;
+  /** The value in the synthesized workflow (undefined when missing) */
+  actual: unknown;
+}
+
+function isMap(value: unknown): value is YamlMap {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Expand the `on: push` and `on: [push, pull_request]` shorthands into a map of triggers.
+ * Triggers without configuration map to null.
+ */
+export function normalizeTriggers(on: unknown): YamlMap {
+  if (typeof on === "string") {
+    return { [on]: null };
+  }
+  if (Array.isArray(on)) {
+    return Object.fromEntries(on.map((event) => [String(event), null]));
+  }
+  return isMap(on) ? on : {};
+}
+
+/**
+ * Environment variables are always strings at run time.
+ */
+function normalizeEnv(env: unknown): unknown {
+  if (!isMap(env)) {
+    return env;
+  }
+  return Object.fromEntries(Object.entries(env).map(([key, value]) => [key, String(value)]));
+}
+
+function normalizeStep(step: unknown): unknown {
+  return isMap(step) && step.env !== undefined ? { ...step, env: normalizeEnv(step.env) } : step;
+}
+
+function normalizeJob(job: unknown): unknown {
+  if (!isMap(job)) {
+    return job;
+  }
+  const normalized: YamlMap = { ...job };
+  if (job.env !== undefined) {
+    normalized.env = normalizeEnv(job.env);
+  }
+  if (typeof job.concurrency === "string") {
+    normalized.concurrency = { group: job.concurrency };
+  }
+  if (Array.isArray(job.steps)) {
+    normalized.steps = job.steps.map(normalizeStep);
+  }
+  return normalized;
+}
+
+/**
+ * Bring a workflow configuration into a canonical form: shorthands expanded, empty trigger
+ * configurations as {}, env values as strings and undefined values removed.
+ *
+ * @param config - A parsed workflow YAML document or the result of `workflow.toJSON()`
+ * @returns The normalized configuration
+ */
+export function normalizeWorkflowConfig(config: unknown): YamlMap {
+  const workflow: YamlMap = isMap(config) ? JSON.parse(JSON.stringify(config)) : {};
+  const triggers = normalizeTriggers(workflow.on);
+  workflow.on = Object.fromEntries(
+    Object.entries(triggers).map(([event, value]) => [event, value ?? {}])
+  );
+  if (workflow.env !== undefined) {
+    workflow.env = normalizeEnv(workflow.env);
+  }
+  if (typeof workflow.concurrency === "string") {
+    workflow.concurrency = { group: workflow.concurrency };
+  }
+  if (isMap(workflow.jobs)) {
+    workflow.jobs = Object.fromEntries(
+      Object.entries(workflow.jobs).map(([jobId, job]) => [jobId, normalizeJob(job)])
+    );
+  }
+  return workflow;
+}
+
+function collectDifferences(
+  expected: unknown,
+  actual: unknown,
+  path: string,
+  differences: WorkflowDifference[]
+): void {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    for (let index = 0; index < length; index++) {
+      collectDifferences(expected[index], actual[index], `${path}[${index}]`, differences);
+    }
+    return;
+  }
+
+  if (isMap(expected) && isMap(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      collectDifferences(expected[key], actual[key], path ? `${path}.${key}` : key, differences);
+    }
+    return;
+  }
+
+  if (expected !== actual) {
+    differences.push({ path: path || "(root)", expected, actual });
+  }
+}
+
+/**
+ * Compare two workflow configurations semantically.
+ * A `run-name` is only compared when the original workflow sets one, because
+ * synthesized workflows always carry a default run name.
+ *
+ * @param expected - The original workflow (e.g. parsed from YAML)
+ * @param actual - The synthesized workflow (e.g. from `workflow.toJSON()`)
+ * @returns The differences, empty when the workflows are equivalent
+ */
+export function compareWorkflowConfigs(expected: unknown, actual: unknown): WorkflowDifference[] {
+  const original = normalizeWorkflowConfig(expected);
+  const { "run-name": runName, ...synthesized } = normalizeWorkflowConfig(actual);
+  if (original["run-name"] !== undefined) {
+    synthesized["run-name"] = runName;
+  }
+
+  const differences: WorkflowDifference[] = [];
+  collectDifferences(original, synthesized, "", differences);
+  return differences;
+}
@@ -0,0 +1,967 @@
+import { parse } from "yaml";
+import { loadRegistry } from "../actions/storage.js";
+import { isShell } from "../core/shells.js";
+import { ACTIVITY_TYPES, EVENTS_WITHOUT_CONFIG } from "../core/triggers.js";
+import {
+  MAX_LINE_LENGTH,
+  type NeedsReferences,
+  formatChain,
+  propertyKey,
+  stringLiteral,
+  toCamelCase,
+  valueLiteral,
+} from "./code-writer.js";
+import { normalizeTriggers } from "./compare.js";
+
+type YamlMap = Record<string, unknown>;
+
+/**
+ * Options for converting workflow YAML to TypeScript.
+ *
+ * @stability stable
+ */
+export interface IConvertOptions {
+  /** Name of the exported workflow constant (default: derived from the workflow name) */
+  exportName?: string;
+  /** Module the core classes are imported from (default: "ts-actions") */
+  libraryModule?: string;
+  /** Module the imported action classes are imported from (default: "./.ts-actions/imports/index.js") */
+  importsModule?: string;
+}
+
+/**
+ * Result of converting workflow YAML to TypeScript.
+ *
+ * @stability stable
+ */
+export interface IConvertResult {
+  /** The generated TypeScript module */
+  code: string;
+  /** Name of the exported workflow constant */
+  exportName: string;
+  /** Parts of the workflow that could not be expressed with the typed builder API */
+  warnings: string[];
+}
+
+/**
+ * State shared while converting one workflow
+ */
+interface ConversionContext {
+  warnings: string[];
+  /** Action reference (e.g. "actions/checkout@v4") to imported action class name */
+  actionClasses: Map<string, string>;
+  /** Reusable workflow reference to imported workflow class name */
+  workflowClasses: Map<string, string>;
+  usedActions: Set<string>;
+  usedLibrary: Set<string>;
+}
+
+const PUSH_FILTERS: Record<string, string> = {
+  branches: "branches",
+  "branches-ignore": "branchesIgnore",
+  tags: "tags",
+  "tags-ignore": "tagsIgnore",
+  paths: "paths",
+  "paths-ignore": "pathsIgnore",
+};
+
+const PULL_REQUEST_FILTERS: Record<string, string> = { ...PUSH_FILTERS, types: "types" };
+
+const PULL_REQUEST_TYPES = new Set<string>(ACTIVITY_TYPES.pull_request);
+
+const WORKFLOW_RUN_FILTERS: Record<string, string> = {
+  workflows: "workflows",
+  types: "types",
+  branches: "branches",
+  "branches-ignore": "branchesIgnore",
+};
+
+const PERMISSION_SCOPES = new Set([
+  "actions",
+  "attestations",
+  "checks",
+  "contents",
+  "deployments",
+  "id-token",
+  "issues",
+  "discussions",
+  "packages",
+  "pages",
+  "pull-requests",
+  "repository-projects",
+  "security-events",
+  "statuses",
+]);
+
+const PERMISSION_LEVELS = new Set(["read", "write", "none"]);
+
+const STRATEGY_KEYS = new Set(["matrix", "fail-fast", "max-parallel"]);
+
+const WORKFLOW_KEYS = new Set([
+  "name",
+  "run-name",
+  "on",
+  "env",
+  "defaults",
+  "permissions",
+  "concurrency",
+  "jobs",
+]);
+
+const JOB_KEYS = new Set([
+  "name",
+  "runs-on",
+  "needs",
+  "if",
+  "outputs",
+  "env",
+  "defaults",
+  "timeout-minutes",
+  "strategy",
+  "continue-on-error",
+  "concurrency",
+  "environment",
+  "steps",
+  "uses",
+  "with",
+  "secrets",
+  "container",
+  "services",
+]);
+
+const CONTAINER_KEYS = new Set(["image", "credentials", "env", "ports", "volumes", "options"]);
+
+const STEP_KEYS = new Set([
+  "id",
+  "name",
+  "uses",
+  "run",
+  "with",
+  "env",
+  "if",
+  "working-directory",
+  "continue-on-error",
+  "timeout-minutes",
+  "shell",
+]);
+
+function isMap(value: unknown): value is YamlMap {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (isMap(value) && Object.keys(value).length === 0);
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function stringMap(value: unknown): YamlMap {
+  return isMap(value)
+    ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, String(item)]))
+    : {};
+}
+
+/**
+ * Emit a value through an untyped escape hatch such as `on()` or `strategy()`.
+ */
+function castLiteral(value: unknown, indent: string, type: string, ctx: ConversionContext): string {
+  ctx.usedLibrary.add(`type ${type}`);
+  const cast = ` as unknown as ${type}`;
+  return `${valueLiteral(value, indent, undefined, cast.length + ".strategy()".length)}${cast}`;
+}
+
+/**
+ * Convert push/pull_request filters to the builder's option names.
+ * Returns null when a filter has no typed equivalent.
+ */
+function convertFilters(
+  config: YamlMap,
+  filters: Record<string, string>
+): Record<string, unknown[]> | null {
+  const options: Record<string, unknown[]> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (!filters[key]) {
+      return null;
+    }
+    options[filters[key]] = toArray(value);
+  }
+  return options;
+}
+
+function convertFilterTrigger(
+  method: string,
+  config: unknown,
+  filters: Record<string, string>,
+  indent: string
+): string | null {
+  if (isEmpty(config)) {
+    return `.${method}()`;
+  }
+  const options = isMap(config) ? convertFilters(config, filters) : null;
+  if (!options) {
+    return null;
+  }
+  if (options.types?.some((type) => !PULL_REQUEST_TYPES.has(String(type)))) {
+    return null;
+  }
+  return `.${method}(${valueLiteral(options, indent)})`;
+}
+
+/**
+ * Inputs can use the typed API only when they match IWorkflowDispatchInput / IWorkflowCallInput.
+ */
+function hasTypedInputs(inputs: unknown): boolean {
+  if (inputs === undefined) {
+    return true;
+  }
+  return (
+    isMap(inputs) &&
+    Object.values(inputs).every(
+      (input) =>
+        isMap(input) &&
+        typeof input.description === "string" &&
+        (input.default === undefined || typeof input.default === "string") &&
+        (input.required === undefined || typeof input.required === "boolean")
+    )
+  );
+}
+
+function convertDispatchTrigger(config: unknown, indent: string): string | null {
+  if (isEmpty(config) || (isMap(config) && isEmpty(config.inputs))) {
+    return ".onWorkflowDispatch()";
+  }
+  if (!(isMap(config) && Object.keys(config).length === 1 && hasTypedInputs(config.inputs))) {
+    return null;
+  }
+  return `.onWorkflowDispatch(${valueLiteral(config.inputs, indent)})`;
+}
+
+/**
+ * Secrets can use the typed API only when they match IWorkflowCallSecret.
+ */
+function hasTypedSecrets(secrets: unknown): boolean {
+  if (secrets === undefined) {
+    return true;
+  }
+  return (
+    isMap(secrets) &&
+    Object.values(secrets).every(
+      (secret) =>
+        secret === null ||
+        (isMap(secret) &&
+          (secret.description === undefined || typeof secret.description === "string") &&
+          (secret.required === undefined || typeof secret.required === "boolean"))
+    )
+  );
+}
+
+function convertWorkflowCallTrigger(config: unknown, indent: string): string | null {
+  if (isEmpty(config)) {
+    return ".onWorkflowCall({})";
+  }
+  if (!(isMap(config) && hasTypedInputs(config.inputs) && hasTypedSecrets(config.secrets))) {
+    return null;
+  }
+  if (isMap(config.secrets)) {
+    // Secrets declared without settings (`NAME:`) are an empty definition
+    const secrets = Object.entries(config.secrets).map(([name, secret]) => [name, secret ?? {}]);
+    return `.onWorkflowCall(${valueLiteral({ ...config, secrets: Object.fromEntries(secrets) }, indent)})`;
+  }
+  return `.onWorkflowCall(${valueLiteral(config, indent)})`;
+}
+
+function convertScheduleTrigger(config: unknown): string | null {
+  const entries = toArray(config);
+  if (!entries.every((entry) => isMap(entry) && Object.keys(entry).join() === "cron")) {
+    return null;
+  }
+  return entries
+    .map((entry) => `.onSchedule(${stringLiteral(String((entry as YamlMap).cron))})`)
+    .join("");
+}
+
+function convertRepositoryDispatchTrigger(config: unknown, indent: string): string | null {
+  if (isEmpty(config)) {
+    return ".onRepositoryDispatch()";
+  }
+  if (!isMap(config) || Object.keys(config).join() !== "types") {
+    return null;
+  }
+  return `.onRepositoryDispatch(${valueLiteral(toArray(config.types), indent)})`;
+}
+
+function convertWorkflowRunTrigger(config: unknown, indent: string): string | null {
+  const options = isMap(config) ? convertFilters(config, WORKFLOW_RUN_FILTERS) : null;
+  const validTypes = new Set<string>(ACTIVITY_TYPES.workflow_run);
+  if (!options?.workflows || options.types?.some((type) => !validTypes.has(String(type)))) {
+    return null;
+  }
+  return `.onWorkflowRun(${valueLiteral(options, indent)})`;
+}
+
+/**
+ * Events configured only by activity types, or not configured at all, map to
+ * `on<EventName>(types?)` builder methods.
+ */
+function convertSimpleTrigger(event: string, config: unknown, indent: string): string | null {
+  // e.g. issue_comment → onIssueComment
+  const name = toCamelCase(event);
+  const method = `on${name[0].toUpperCase()}${name.slice(1)}`;
+  if (isEmpty(config)) {
+    return `.${method}()`;
+  }
+  const activityTypes: readonly string[] | undefined =
+    ACTIVITY_TYPES[event as keyof typeof ACTIVITY_TYPES];
+  if (!(activityTypes && isMap(config)) || Object.keys(config).join() !== "types") {
+    return null;
+  }
+  const types = toArray(config.types);
+  if (!types.every((type) => activityTypes.includes(String(type)))) {
+    return null;
+  }
+  return `.${method}(${valueLiteral(types, indent)})`;
+}
+
+function isSimpleTrigger(event: string): boolean {
+  return event in ACTIVITY_TYPES || (EVENTS_WITHOUT_CONFIG as readonly string[]).includes(event);
+}
+
+function convertTrigger(event: string, config: unknown, indent: string): string | null {
+  switch (event) {
+    case "push":
+      return convertFilterTrigger("onPush", config, PUSH_FILTERS, indent);
+    case "pull_request":
+      return convertFilterTrigger("onPullRequest", config, PULL_REQUEST_FILTERS, indent);
+    case "pull_request_target":
+      return convertFilterTrigger("onPullRequestTarget", config, PULL_REQUEST_FILTERS, indent);
+    case "workflow_run":
+      return convertWorkflowRunTrigger(config, indent);
+    case "workflow_dispatch":
+      return convertDispatchTrigger(config, indent);
+    case "workflow_call":
+      return convertWorkflowCallTrigger(config, indent);
+    case "schedule":
+      return convertScheduleTrigger(config);
+    case "repository_dispatch":
+      return convertRepositoryDispatchTrigger(config, indent);
+    default:
+      return isSimpleTrigger(event) ? convertSimpleTrigger(event, config, indent) : null;
+  }
+}
+
+/**
+ * Convert the `on:` block. Triggers without a typed builder method are passed to `on()`.
+ */
+function convertTriggers(on: unknown, indent: string, ctx: ConversionContext): string[] {
+  const calls: string[] = [];
+  const untyped: YamlMap = {};
+
+  for (const [event, config] of Object.entries(normalizeTriggers(on))) {
+    const call = convertTrigger(event, config, indent);
+    if (call) {
+      calls.push(call);
+    } else {
+      untyped[event] = config;
+    }
+  }
+
+  if (Object.keys(untyped).length > 0) {
+    ctx.warnings.push(
+      `Trigger(s) ${Object.keys(untyped).join(", ")} cannot be expressed with typed builder methods and were passed to on()`
+    );
+    calls.push(`.on(${castLiteral(untyped, indent, "IWorkflowTrigger", ctx)})`);
+  }
+  return calls;
+}
+
+function convertPermissions(
+  permissions: unknown,
+  indent: string,
+  location: string,
+  ctx: ConversionContext
+): string {
+  const typed =
+    permissions === "read-all" ||
+    permissions === "write-all" ||
+    (isMap(permissions) &&
+      Object.entries(permissions).every(
+        ([scope, access]) => PERMISSION_SCOPES.has(scope) && PERMISSION_LEVELS.has(String(access))
+      ));
+  if (typed) {
+    return `.permissions(${valueLiteral(permissions, indent)})`;
+  }
+  ctx.warnings.push(
+    `${location}: permissions ${JSON.stringify(permissions)} could not be converted`
+  );
+  return `// TODO(ts-actions convert): permissions ${JSON.stringify(permissions)} not converted`;
+}
+
+/**
+ * Step calls in builder order: name, id, uses/run, with, env, then the remaining options.
+ */
+function convertStep(
+  step: YamlMap,
+  location: string,
+  indent: string,
+  references: NeedsReferences,
+  ctx: ConversionContext
+): string[] {
+  const calls: string[] = [];
+  const literal = (value: unknown) => valueLiteral(value, indent, references);
+
+  for (const key of Object.keys(step).filter((key) => !STEP_KEYS.has(key))) {
+    ctx.warnings.push(`${location}: '${key}' is not supported and was not converted`);
+    calls.push(`// TODO(ts-actions convert): ${key}: ${JSON.stringify(step[key])}`);
+  }
+  if (step.name !== undefined) {
+    calls.push(`.name(${literal(String(step.name))})`);
+  }
+  if (step.id !== undefined) {
+    calls.push(`.id(${literal(String(step.id))})`);
+  }
+  if (typeof step.uses === "string") {
+    calls.push(`.uses(${actionReference(step.uses, ctx)})`);
+  }
+  if (step.run !== undefined) {
+    calls.push(`.run(${literal(String(step.run))})`);
+  }
+  if (isMap(step.with)) {
+    calls.push(`.with(${literal(step.with)})`);
+  }
+  if (isMap(step.env)) {
+    calls.push(`.env(${literal(stringMap(step.env))})`);
+  }
+  calls.push(...convertCommonOptions(step, literal));
+  if (step["working-directory"] !== undefined) {
+    calls.push(`.workingDirectory(${literal(String(step["working-directory"]))})`);
+  }
+  if (typeof step.shell === "string" && isShell(step.shell)) {
+    calls.push(`.shell(${stringLiteral(step.shell)})`);
+  } else if (step.shell !== undefined) {
+    ctx.warnings.push(`${location}: shell ${JSON.stringify(step.shell)} could not be converted`);
+    calls.push(`// TODO(ts-actions convert): shell: ${JSON.stringify(step.shell)}`);
+  }
+  return calls;
+}
+
+/**
+ * Options shared by jobs and steps: if, continue-on-error and timeout-minutes.
+ */
+function convertCommonOptions(config: YamlMap, literal: (value: unknown) => string): string[] {
+  const calls: string[] = [];
+  if (config.if !== undefined) {
+    calls.push(`.if(${literal(String(config.if))})`);
+  }
+  if (config["continue-on-error"] === true) {
+    calls.push(".continueOnError()");
+  } else if (config["continue-on-error"] === false) {
+    calls.push(".continueOnError(false)");
+  }
+  if (typeof config["timeout-minutes"] === "number") {
+    calls.push(`.timeoutMinutes(${config["timeout-minutes"]})`);
+  }
+  return calls;
+}
+
+/**
+ * Use the imported action class when the action has been imported, otherwise a plain reference.
+ */
+function actionReference(uses: string, ctx: ConversionContext): string {
+  const className = ctx.actionClasses.get(uses);
+  if (className) {
+    ctx.usedActions.add(className);
+    return className;
+  }
+  return `{ reference: ${JSON.stringify(uses)} }`;
+}
+
+/**
+ * Format `.addStep((step) => ...)`, keeping short steps on one line.
+ */
+function formatStep(calls: string[], indent: string): string {
+  const hasComments = calls.some((call) => call.startsWith("//"));
+  const inline = `step${calls.join("")}`;
+  const singleLine = `.addStep((step) => ${inline})`;
+  if (
+    !(hasComments || inline.includes("\n")) &&
+    indent.length + singleLine.length <= MAX_LINE_LENGTH
+  ) {
+    return singleLine;
+  }
+
+  const bodyIndent = `${indent}  `;
+  return `.addStep((step) =>\n${bodyIndent}${formatChain("step", calls, bodyIndent)}\n${indent})`;
+}
+
+function convertSteps(
+  steps: unknown,
+  jobId: string,
+  indent: string,
+  references: NeedsReferences,
+  ctx: ConversionContext
+): string[] {
+  if (!Array.isArray(steps)) {
+    return [];
+  }
+  return steps.map((step, index) => {
+    const calls = isMap(step)
+      ? convertStep(step, `jobs.${jobId}.steps[${index}]`, `${indent}    `, references, ctx)
+      : [];
+    return formatStep(calls, indent);
+  });
+}
+
+function convertRunsOn(
+  runsOn: unknown,
+  indent: string,
+  jobId: string,
+  ctx: ConversionContext
+): string {
+  const isLabels = (value: unknown): boolean =>
+    typeof value === "string" ||
+    (Array.isArray(value) && value.every((label) => typeof label === "string"));
+  const isGroup =
+    isMap(runsOn) &&
+    Object.keys(runsOn).every((key) => key === "group" || key === "labels") &&
+    (runsOn.group === undefined || typeof runsOn.group === "string") &&
+    (runsOn.labels === undefined || isLabels(runsOn.labels));
+  if (isLabels(runsOn) || isGroup) {
+    return valueLiteral(runsOn, indent);
+  }
+  ctx.warnings.push(`jobs.${jobId}: runs-on ${JSON.stringify(runsOn)} has no typed equivalent`);
+  return `${valueLiteral(runsOn, indent)} as unknown as string`;
+}
+
+function convertStrategy(
+  strategy: unknown,
+  indent: string,
+  jobId: string,
+  ctx: ConversionContext
+): string {
+  const matrix = isMap(strategy) ? strategy.matrix : undefined;
+  const typed =
+    isMap(strategy) &&
+    Object.keys(strategy).every((key) => STRATEGY_KEYS.has(key)) &&
+    (matrix === undefined || typeof matrix === "string" || isMap(matrix));
+  if (typed) {
+    return `.strategy(${valueLiteral(strategy, indent)})`;
+  }
+  ctx.warnings.push(`jobs.${jobId}: strategy uses a matrix form without a typed equivalent`);
+  return `.strategy(${castLiteral(strategy, indent, "IJobStrategy", ctx)})`;
+}
+
+function convertConcurrency(
+  concurrency: unknown,
+  location: string,
+  ctx: ConversionContext
+): string {
+  if (typeof concurrency === "string") {
+    return `.concurrency(${stringLiteral(concurrency)})`;
+  }
+  if (isMap(concurrency) && typeof concurrency.group === "string") {
+    const cancel = concurrency["cancel-in-progress"];
+    if (typeof cancel === "boolean") {
+      return `.concurrency(${stringLiteral(concurrency.group)}, ${cancel})`;
+    }
+    if (typeof cancel === "string") {
+      return `.concurrency(${stringLiteral(concurrency.group)}, ${stringLiteral(cancel)})`;
+    }
+    if (cancel === undefined) {
+      return `.concurrency(${stringLiteral(concurrency.group)})`;
+    }
+  }
+  ctx.warnings.push(
+    `${location}: concurrency ${JSON.stringify(concurrency)} could not be converted`
+  );
+  return `// TODO(ts-actions convert): concurrency ${JSON.stringify(concurrency)} not converted`;
+}
+
+function convertEnvironment(
+  environment: unknown,
+  jobId: string,
+  literal: (value: unknown) => string,
+  ctx: ConversionContext
+): string {
+  if (typeof environment === "string") {
+    return `.environment(${literal(environment)})`;
+  }
+  if (isMap(environment) && typeof environment.name === "string") {
+    return typeof environment.url === "string"
+      ? `.environment(${literal(environment.name)}, { url: ${literal(environment.url)} })`
+      : `.environment(${literal(environment.name)})`;
+  }
+  ctx.warnings.push(
+    `jobs.${jobId}: environment ${JSON.stringify(environment)} could not be converted`
+  );
+  return `// TODO(ts-actions convert): environment ${JSON.stringify(environment)} not converted`;
+}
+
+/**
+ * Format the `needs` argument, using `needs()` references for jobs declared as constants.
+ */
+function convertNeeds(needs: unknown, references: NeedsReferences): string {
+  const dependencies = toArray(needs).map(String);
+  const refs = dependencies.map((dependency) => references.get(dependency));
+  if (refs.every((ref) => ref !== undefined)) {
+    return Array.isArray(needs) ? `[${refs.join(", ")}]` : (refs[0] as string);
+  }
+  return valueLiteral(Array.isArray(needs) ? dependencies : dependencies[0], "");
+}
+
+/**
+ * Convert the reusable workflow call of a job (`uses`, `with` and `secrets`).
+ */
+function convertWorkflowCall(
+  job: YamlMap,
+  literal: (value: unknown) => string,
+  ctx: ConversionContext
+): string {
+  const args: YamlMap = {};
+  if (isMap(job.with)) {
+    args.with = job.with;
+  }
+  if (job.secrets === "inherit" || isMap(job.secrets)) {
+    args.secrets = isMap(job.secrets) ? stringMap(job.secrets) : job.secrets;
+  }
+  const className = ctx.workflowClasses.get(String(job.uses));
+  if (className) {
+    ctx.usedActions.add(className);
+  } else {
+    ctx.usedLibrary.add("ReusableWorkflow");
+  }
+  const workflow = className ?? `ReusableWorkflow.at(${stringLiteral(String(job.uses))})`;
+  return Object.keys(args).length > 0
+    ? `.uses(${workflow}, ${literal(args)})`
+    : `.uses(${workflow})`;
+}
+
+/**
+ * Convert a job or service container into the arguments of `container()` / `service()`.
+ * Returns null when the container has settings without a typed equivalent.
+ */
+function convertContainerArgs(
+  container: unknown,
+  literal: (value: unknown) => string
+): string | null {
+  if (typeof container === "string") {
+    return literal(container);
+  }
+  if (
+    !(isMap(container) && typeof container.image === "string") ||
+    Object.keys(container).some((key) => !CONTAINER_KEYS.has(key))
+  ) {
+    return null;
+  }
+  const { image, ...options } = container;
+  if (isMap(options.env)) {
+    options.env = stringMap(options.env);
+  }
+  return Object.keys(options).length > 0
+    ? `${literal(image)}, ${literal(options)}`
+    : literal(image);
+}
+
+function convertContainers(
+  job: YamlMap,
+  jobId: string,
+  literal: (value: unknown) => string,
+  ctx: ConversionContext
+): string[] {
+  const calls: string[] = [];
+  const unsupported = (key: string, value: unknown) => {
+    ctx.warnings.push(`jobs.${jobId}: ${key} has settings without a typed equivalent`);
+    calls.push(`// TODO(ts-actions convert): ${key}: ${JSON.stringify(value)}`);
+  };
+  if (job.container !== undefined) {
+    const args = convertContainerArgs(job.container, literal);
+    if (args === null) {
+      unsupported("container", job.container);
+    } else {
+      calls.push(`.container(${args})`);
+    }
+  }
+  for (const [serviceId, service] of Object.entries(isMap(job.services) ? job.services : {})) {
+    const args = convertContainerArgs(service, literal);
+    if (args === null) {
+      unsupported(`services.${serviceId}`, service);
+    } else {
+      calls.push(`.service(${literal(serviceId)}, ${args})`);
+    }
+  }
+  return calls;
+}
+
+/**
+ * Convert every job setting except `runs-on` into builder calls.
+ */
+function convertJob(
+  job: YamlMap,
+  jobId: string,
+  indent: string,
+  references: NeedsReferences,
+  ctx: ConversionContext
+): string[] {
+  const calls: string[] = [];
+  const literal = (value: unknown) => valueLiteral(value, indent, references);
+
+  for (const key of Object.keys(job).filter((key) => !JOB_KEYS.has(key))) {
+    if (key === "permissions") {
+      calls.push(convertPermissions(job[key], indent, `jobs.${jobId}`, ctx));
+      continue;
+    }
+    ctx.warnings.push(`jobs.${jobId}: '${key}' is not supported and was not converted`);
+    calls.push(`// TODO(ts-actions convert): ${key}: ${JSON.stringify(job[key])}`);
+  }
+  if (job.name !== undefined) {
+    calls.push(`.name(${literal(String(job.name))})`);
+  }
+  if (job.needs !== undefined) {
+    calls.push(`.needs(${convertNeeds(job.needs, references)})`);
+  }
+  calls.push(...convertCommonOptions(job, literal));
+  if (isMap(job.env)) {
+    calls.push(`.env(${literal(stringMap(job.env))})`);
+  }
+  if (isMap(job.defaults)) {
+    calls.push(`.defaults(${literal(job.defaults)})`);
+  }
+  if (job.strategy !== undefined) {
+    calls.push(convertStrategy(job.strategy, indent, jobId, ctx));
+  }
+  if (job.concurrency !== undefined) {
+    calls.push(convertConcurrency(job.concurrency, `jobs.${jobId}`, ctx));
+  }
+  if (job.environment !== undefined) {
+    calls.push(convertEnvironment(job.environment, jobId, literal, ctx));
+  }
+  calls.push(...convertContainers(job, jobId, literal, ctx));
+  if (job.uses !== undefined) {
+    calls.push(convertWorkflowCall(job, literal, ctx));
+  }
+  calls.push(...convertSteps(job.steps, jobId, indent, references, ctx));
+  if (isMap(job.outputs)) {
+    calls.push(`.outputs(${literal(job.outputs)})`);
+  }
+  return calls;
+}
+
+/**
+ * Jobs whose outputs other jobs read are declared as constants, so dependents can use `needs()`.
+ */
+function findReferencedJobs(jobs: YamlMap): Set<string> {
+  const referenced = new Set<string>();
+  for (const [jobId, job] of Object.entries(jobs)) {
+    const content = JSON.stringify(job);
+    for (const otherId of Object.keys(jobs)) {
+      if (otherId !== jobId && content.includes(`needs.${otherId}.outputs.`)) {
+        referenced.add(otherId);
+      }
+    }
+  }
+  return referenced;
+}
+
+/**
+ * Order jobs so every job comes after the jobs it needs, keeping the YAML order otherwise.
+ * `needs()` can only reference jobs that were already added to the workflow.
+ */
+function orderJobs(jobs: YamlMap): string[] {
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (jobId: string) => {
+    if (ordered.includes(jobId) || visiting.has(jobId) || !(jobId in jobs)) {
+      return;
+    }
+    visiting.add(jobId);
+    const job = jobs[jobId];
+    for (const dependency of isMap(job) && job.needs ? toArray(job.needs) : []) {
+      visit(String(dependency));
+    }
+    ordered.push(jobId);
+  };
+
+  for (const jobId of Object.keys(jobs)) {
+    visit(jobId);
+  }
+  return ordered;
+}
+
+function jobVariableName(jobId: string): string {
+  return `${toCamelCase(jobId)}Job`;
+}
+
+/**
+ * Declare a job whose outputs are referenced by other jobs as a constant.
+ */
+function convertJobConstant(jobId: string, job: YamlMap, ctx: ConversionContext): string {
+  ctx.usedLibrary.add("Job");
+  // Jobs calling a reusable workflow have no runner
+  const runsOn = job.uses === undefined ? convertRunsOn(job["runs-on"], "", jobId, ctx) : "";
+  const calls = convertJob(job, jobId, "  ", new Map(), ctx);
+  const chain = [`new Job(${runsOn})`, ...calls.map((call) => `  ${call}`)].join("\n");
+  return `const ${jobVariableName(jobId)} = ${chain};`;
+}
+
+/**
+ * Convert a job added through `workflow.addJob(id, (job) => ...)`.
+ */
+function convertJobCallback(
+  jobId: string,
+  job: YamlMap,
+  constants: Set<string>,
+  ctx: ConversionContext
+): string {
+  const references: NeedsReferences = new Map();
+  for (const dependency of job.needs ? toArray(job.needs).map(String) : []) {
+    if (constants.has(dependency)) {
+      references.set(dependency, `${jobVariableName(dependency)}Ref`);
+    }
+  }
+
+  const calls = convertJob(job, jobId, "      ", references, ctx);
+  if (job.uses === undefined) {
+    calls.unshift(`.runsOn(${convertRunsOn(job["runs-on"], "      ", jobId, ctx)})`);
+  }
+  const chain = formatChain("job", calls, "    ");
+  const id = JSON.stringify(jobId);
+
+  if (references.size === 0) {
+    return `.addJob(${id}, (job) =>\n    ${chain}\n  )`;
+  }
+
+  ctx.usedLibrary.add("needs");
+  const declarations = [...references.entries()].map(
+    ([dependency, variable]) => `    const ${variable} = needs(${jobVariableName(dependency)});`
+  );
+  return `.addJob(${id}, (job) => {\n${declarations.join("\n")}\n    return ${chain};\n  })`;
+}
+
+function convertWorkflowSettings(workflow: YamlMap, ctx: ConversionContext): string[] {
+  const calls: string[] = [];
+  if (workflow["run-name"] !== undefined) {
+    calls.push(`.runName(${stringLiteral(String(workflow["run-name"]))})`);
+  }
+  calls.push(...convertTriggers(workflow.on, "  ", ctx));
+  if (isMap(workflow.env)) {
+    calls.push(`.env(${valueLiteral(stringMap(workflow.env), "  ")})`);
+  }
+  if (isMap(workflow.defaults)) {
+    calls.push(`.defaults(${valueLiteral(workflow.defaults, "  ")})`);
+  }
+  if (workflow.permissions !== undefined) {
+    calls.push(convertPermissions(workflow.permissions, "  ", "workflow", ctx));
+  }
+  if (workflow.concurrency !== undefined) {
+    calls.push(convertConcurrency(workflow.concurrency, "workflow", ctx));
+  }
+  for (const key of Object.keys(workflow)) {
+    if (!WORKFLOW_KEYS.has(key)) {
+      ctx.warnings.push(`workflow: '${key}' is not supported and was not converted`);
+      calls.push(`// TODO(ts-actions convert): ${key}: ${JSON.stringify(workflow[key])}`);
+    }
+  }
+  return calls;
+}
+
+function formatImports(ctx: ConversionContext, options: IConvertOptions): string[] {
+  const byName = (a: string, b: string) =>
+    a.replace("type ", "") < b.replace("type ", "") ? -1 : 1;
+  const lines: string[] = [];
+  if (ctx.usedActions.size > 0) {
+    const importsModule = options.importsModule ?? "./.ts-actions/imports/index.js";
+    lines.push(
+      `import { ${[...ctx.usedActions].sort(byName).join(", ")} } from ${JSON.stringify(importsModule)};`
+    );
+  }
+  const library = [...ctx.usedLibrary].sort(byName).join(", ");
+  lines.push(
+    `import { ${library} } from ${JSON.stringify(options.libraryModule ?? "ts-actions")};`
+  );
+  return lines;
+}
+
+/**
+ * Load the classes of imported reusable workflows so converted caller jobs can use them.
+ */
+function loadWorkflowClasses(): Map<string, string> {
+  return new Map((loadRegistry().workflows ?? []).map((entry) => [entry.full, entry.typeName]));
+}
+
+/**
+ * Load the classes of imported actions so converted steps can use them.
+ */
+function loadActionClasses(): Map<string, string> {
+  return new Map(loadRegistry().actions.map((entry) => [entry.full, entry.typeName]));
+}
+
+/**
+ * Convert GitHub Actions workflow YAML into TypeScript builder code.
+ *
+ * Triggers, jobs and steps are expressed with `Workflow`, `Job` and `Step` builder calls.
+ * Imported actions and reusable workflows are referenced through their generated classes, and jobs whose outputs
+ * are read by other jobs are referenced through `needs()`. Settings without a typed builder
+ * method are passed through an untyped escape hatch or left as TODO comments, and reported
+ * in `warnings`.
+ *
+ * @param yamlText - The workflow YAML
+ * @param options - Conversion options
+ * @returns The generated TypeScript and conversion warnings
+ * @stability stable
+ */
+export function convertWorkflowYaml(
+  yamlText: string,
+  options: IConvertOptions = {}
+): IConvertResult {
+  const workflow = parse(yamlText) as unknown;
+  if (!(isMap(workflow) && isMap(workflow.jobs))) {
+    throw new Error("Invalid workflow YAML: expected a mapping with 'on' and 'jobs'");
+  }
+
+  const ctx: ConversionContext = {
+    warnings: [],
+    actionClasses: loadActionClasses(),
+    workflowClasses: loadWorkflowClasses(),
+    usedActions: new Set(),
+    usedLibrary: new Set(["Workflow"]),
+  };
+  const jobs = workflow.jobs;
+  const constants = findReferencedJobs(jobs);
+  const declarations: string[] = [];
+  const calls = convertWorkflowSettings(workflow, ctx);
+
+  for (const jobId of orderJobs(jobs)) {
+    const job = jobs[jobId];
+    if (!isMap(job)) {
+      ctx.warnings.push(`jobs.${jobId}: job is not a mapping and was skipped`);
+      calls.push(`// TODO(ts-actions convert): job ${propertyKey(jobId)} is not a mapping`);
+      continue;
+    }
+    if (constants.has(jobId)) {
+      declarations.push(convertJobConstant(jobId, job, ctx));
+      calls.push(`.addJob(${JSON.stringify(jobId)}, ${jobVariableName(jobId)})`);
+    } else {
+      calls.push(convertJobCallback(jobId, job, constants, ctx));
+    }
+  }
+
+  // Comments go first so a trailing comment never swallows the closing semicolon
+  const chain = [
+    ...calls.filter((call) => call.startsWith("//")),
+    ...calls.filter((call) => !call.startsWith("//")),
+  ];
+  const name = typeof workflow.name === "string" ? workflow.name : undefined;
+  const exportName = options.exportName ?? `${toCamelCase(name ?? "converted")}Workflow`;
+  const head = `new Workflow(${name === undefined ? "" : stringLiteral(name)})`;
+  const code = [
+    ...formatImports(ctx, options),
+    "",
+    ...declarations.flatMap((declaration) => [declaration, ""]),
+    `export const ${exportName} = ${[head, ...chain.map((call) => `  ${call}`)].join("\n")};`,
+    "",
+  ].join("\n");
+
+  return { code, exportName, warnings: ctx.warnings };
+}
@@ -0,0 +1,84 @@
+import { type ExpressionLike, resolveExpression } from "./expressions.js";
+import { type GitHubExpression, expr } from "./types.js";
+
+/**
+ * Helper functions for concurrency groups and `cancel-in-progress` conditions.
+ * See https://docs.github.com/en/actions/using-jobs/using-concurrency
+ *
+ * @stability stable
+ */
+
+const DEFAULT_PREFIX = "${{ github.workflow }}";
+
+/**
+ * Creates a concurrency group per workflow and branch (or tag): a new push to a branch queues
+ * behind, or cancels, the run for the previous push. Pull requests get a group per pull
+ * request, as their ref is `refs/pull/<number>/merge`.
+ *
+ * @param prefix - The start of the group name (default: the workflow name)
+ * @example
+ * ```typescript
+ * workflow.concurrency(concurrencyPerBranch(), true);
+ * // Generates: "${{ github.workflow }}-${{ github.ref }}"
+ * ```
+ *
+ * @stability stable
+ */
+export function concurrencyPerBranch(prefix: string = DEFAULT_PREFIX): GitHubExpression {
+  return expr(`${prefix}-\${{ github.ref }}`);
+}
+
+/**
+ * Creates a concurrency group per workflow and pull request, falling back to the ref for
+ * events without a pull request, e.g. pushes.
+ *
+ * @param prefix - The start of the group name (default: the workflow name)
+ * @example
+ * ```typescript
+ * workflow.concurrency(concurrencyPerPullRequest(), true);
+ * // Generates: "${{ github.workflow }}-${{ github.event.pull_request.number || github.ref }}"
+ * ```
+ *
+ * @stability stable
+ */
+export function concurrencyPerPullRequest(prefix: string = DEFAULT_PREFIX): GitHubExpression {
+  return expr(`${prefix}-\${{ github.event.pull_request.number || github.ref }}`);
+}
+
+/**
+ * Creates a concurrency group per deployment environment, shared by every workflow of the
+ * repository, so that only one deployment to an environment runs at a time.
+ *
+ * @param environment - The environment name, or an expression evaluating to it
+ * @example
+ * ```typescript
+ * job.environment("production").concurrency(concurrencyPerEnvironment("production"));
+ * // Generates: "deploy-production"
+ * ```
+ *
+ * @stability stable
+ */
+export function concurrencyPerEnvironment(environment: ExpressionLike): GitHubExpression {
+  return expr(`deploy-${resolveExpression(environment)}`);
+}
+
+/**
+ * Creates a `cancel-in-progress` condition that cancels in-progress runs on every ref except
+ * the given branches, so that runs on e.g. `main` always complete.
+ *
+ * @param branches - The branches whose runs are never cancelled (default: ["main"])
+ * @example
+ * ```typescript
+ * workflow.concurrency(concurrencyPerBranch(), cancelInProgressExcept(["main"]));
+ * // Generates: "${{ github.ref != 'refs/heads/main' }}"
+ * ```
+ *
+ * @stability stable
+ */
+export function cancelInProgressExcept(branches: string[] = ["main"]): GitHubExpression {
+  if (branches.length === 0) {
+    throw new Error("cancelInProgressExcept() needs at least one branch");
+  }
+  const conditions = branches.map((branch) => `github.ref != 'refs/heads/${branch}'`);
+  return expr(`\${{ ${conditions.join(" && ")} }}`);
+}
@@ -0,0 +1,244 @@
+import type { DynamicPayload, EventPayload } from "./event-payloads.js";
+import { Expression, type TypedExpression } from "./expressions.js";
+
+/**
+ * Typed accessors for the GitHub Actions contexts.
+ *
+ * Every property access yields an `Expression`, so contexts can be used anywhere an
+ * expression is accepted: `github.ref.eq("refs/heads/main")` or `` `echo ${runner.os}` ``.
+ * Paths are checked by the compiler against the context's shape.
+ */
+
+const INDEX_REGEX = /^\d+$/;
+
+/**
+ * A context (or part of one) whose shape is not known statically; any property may be accessed.
+ * @stability stable
+ */
+export type DynamicContext = Expression & { readonly [key: string]: DynamicContext };
+
+/**
+ * An array in a context. Elements are accessed by index or with the `*` object filter,
+ * e.g. `github.event.pull_request.labels["*"].name`.
+ * @stability stable
+ */
+export type ArrayContext<T> = Expression & {
+  readonly [index: number]: ContextProperty<T>;
+  readonly "*": ContextProperty<T>;
+};
+
+/**
+ * The expression type for a context property of type `T`.
+ * @stability stable
+ */
+export type ContextProperty<T> = unknown extends T
+  ? DynamicContext
+  : T extends readonly (infer E)[]
+    ? ArrayContext<E>
+    : T extends object
+      ? TypedContext<T>
+      : Expression;
+
+/**
+ * A context with the shape `T`: an expression whose properties are expressions.
+ * @stability stable
+ */
+export type TypedContext<T> = Expression & { readonly [K in keyof T]-?: ContextProperty<T[K]> };
+
+/**
+ * The `github` context. `TEvent` is the shape of `github.event`.
+ * See https://docs.github.com/en/actions/learn-github-actions/contexts#github-context
+ * @stability stable
+ */
+export interface IGitHubContext<TEvent = DynamicPayload> {
+  action: string;
+  action_path: string;
+  action_ref: string;
+  action_repository: string;
+  action_status: string;
+  actor: string;
+  actor_id: string;
+  api_url: string;
+  base_ref: string;
+  env: string;
+  event: TEvent;
+  event_name: string;
+  event_path: string;
+  graphql_url: string;
+  head_ref: string;
+  job: string;
+  path: string;
+  ref: string;
+  ref_name: string;
+  ref_protected: boolean;
+  ref_type: string;
+  repository: string;
+  repository_id: string;
+  repository_owner: string;
+  repository_owner_id: string;
+  repositoryUrl: string;
+  retention_days: string;
+  run_id: string;
+  run_number: string;
+  run_attempt: string;
+  secret_source: string;
+  server_url: string;
+  sha: string;
+  token: string;
+  triggering_actor: string;
+  workflow: string;
+  workflow_ref: string;
+  workflow_sha: string;
+  workspace: string;
+}
+
+/**
+ * The `runner` context.
+ * See https://docs.github.com/en/actions/learn-github-actions/contexts#runner-context
+ * @stability stable
+ */
+export interface IRunnerContext {
+  name: string;
+  os: string;
+  arch: string;
+  temp: string;
+  tool_cache: string;
+  debug: string;
+  environment: string;
+}
+
+/**
+ * A service container in the `job` context. `TPorts` are the container ports the service
+ * exposes; `ports[5432]` is the host port it was mapped to.
+ * See https://docs.github.com/en/actions/learn-github-actions/contexts#job-context
+ * @stability stable
+ */
+export type ServiceContext<TPorts extends number = number> = Expression & {
+  readonly id: Expression;
+  readonly network: Expression;
+  readonly ports: Expression & { readonly [P in TPorts]: Expression };
+};
+
+/**
+ * `job.services` of a job whose services expose the ports `TServices` (service id to ports).
+ * When the services are not known, any service may be accessed.
+ * @stability stable
+ */
+export type JobServices<TServices> = string extends keyof TServices
+  ? DynamicContext
+  : { readonly [K in keyof TServices]: ServiceContext<TServices[K] & number> };
+
+/**
+ * The expression of a workflow input, typed by the input's `type`:
+ * `boolean` and `number` inputs compare with booleans and numbers, `choice` inputs
+ * with one of their options.
+ * @stability stable
+ */
+export type InputExpression<TInput> = TInput extends { type: "boolean" }
+  ? TypedExpression<boolean>
+  : TInput extends { type: "number" }
+    ? TypedExpression<number>
+    : TInput extends { type: "choice"; options: readonly (infer TOption extends string)[] }
+      ? TypedExpression<TOption>
+      : TypedExpression<string>;
+
+/**
+ * The `inputs` context of a workflow that declares `TInputs`.
+ * When the inputs are not known, any input may be accessed.
+ * @stability stable
+ */
+export type WorkflowInputs<TInputs> = string extends keyof TInputs
+  ? DynamicContext
+  : { readonly [K in keyof TInputs]: InputExpression<TInputs[K]> };
+
+/**
+ * The contexts of a workflow. `TEvent` is the shape of `github.event`,
+ * `TInputs` the type of the `inputs` context.
+ * @stability stable
+ */
+export interface IWorkflowContexts<TEvent = DynamicPayload, TInputs = DynamicContext> {
+  readonly github: TypedContext<IGitHubContext<TEvent>>;
+  readonly env: DynamicContext;
+  readonly vars: DynamicContext;
+  readonly secrets: DynamicContext;
+  readonly runner: TypedContext<IRunnerContext>;
+  readonly inputs: TInputs;
+  readonly matrix: DynamicContext;
+}
+
+/**
+ * The property of a context expression, e.g. `github` + `event` → `github.event`.
+ */
+function childExpression(parent: Expression, property: string): Expression {
+  if (property === "*") {
+    return new Expression(`${parent.body}.*`);
+  }
+  return INDEX_REGEX.test(property) ? parent.at(Number(property)) : parent.get(property);
+}
+
+/**
+ * Wrap an expression so that property access yields nested context expressions.
+ * Expression methods stay available and run against the unwrapped expression, so
+ * context properties named like expression fields (e.g. `issue.body`) are still paths.
+ */
+function contextProxy(expression: Expression): Expression {
+  return new Proxy(expression, {
+    get(target, property) {
+      if (typeof property === "symbol" || property in Expression.prototype) {
+        const value = Reflect.get(target, property);
+        return typeof value === "function" ? value.bind(target) : value;
+      }
+      return contextProxy(childExpression(target, property));
+    },
+  });
+}
+
+/**
+ * Creates a context accessor rooted at a context name.
+ * @internal
+ */
+export function createContext<T>(name: string): T {
+  return contextProxy(new Expression(name)) as unknown as T;
+}
+
+/**
+ * The `github` context, with a dynamic `github.event`.
+ * Use the contexts passed to `workflow.addJob()` for an event payload typed by the workflow's triggers.
+ * @stability stable
+ */
+export const github = createContext<TypedContext<IGitHubContext>>("github");
+
+/** The `env` context @stability stable */
+export const env = createContext<DynamicContext>("env");
+
+/** The `vars` context: configuration variables @stability stable */
+export const vars = createContext<DynamicContext>("vars");
+
+/** The `secrets` context @stability stable */
+export const secrets = createContext<DynamicContext>("secrets");
+
+/** The `runner` context @stability stable */
+export const runner = createContext<TypedContext<IRunnerContext>>("runner");
+
+/** The `inputs` context: workflow_dispatch and workflow_call inputs @stability stable */
+export const inputs = createContext<DynamicContext>("inputs");
+
+/** The `matrix` context @stability stable */
+export const matrix = createContext<DynamicContext>("matrix");
+
+const WORKFLOW_CONTEXTS: IWorkflowContexts = { github, env, vars, secrets, runner, inputs, matrix };
+
+/**
+ * The contexts of a workflow with the given triggers and inputs.
+ * The accessors are the same at run time; only their types differ.
+ * @internal
+ */
+export function workflowContexts<TEvents extends string, TInputs>(): IWorkflowContexts<
+  EventPayload<TEvents>,
+  WorkflowInputs<TInputs>
+> {
+  return WORKFLOW_CONTEXTS as unknown as IWorkflowContexts<
+    EventPayload<TEvents>,
+    WorkflowInputs<TInputs>
+  >;
+}
@@ -0,0 +1,308 @@
+/**
+ * Parsing, validation and description of the POSIX cron expressions used by `schedule` triggers.
+ * See https://docs.github.com/en/actions/using-workflows/events-that-trigger-workflows#schedule
+ */
+
+const NUMBER_REGEX = /^\d+$/;
+const FIELD_SEPARATOR_REGEX = /\s+/;
+
+/**
+ * GitHub Actions runs scheduled workflows at most every 5 minutes
+ * @internal
+ */
+export const MINIMUM_INTERVAL_MINUTES = 5;
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names accepted instead of numbers, e.g. "jan" for 1 */
+  aliases?: readonly string[];
+}
+
+const FIELDS: readonly FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    aliases: MONTH_NAMES.map((month) => month.slice(0, 3).toLowerCase()),
+  },
+  {
+    name: "day of week",
+    min: 0,
+    max: 6,
+    aliases: DAY_NAMES.map((day) => day.slice(0, 3).toLowerCase()),
+  },
+];
+
+/**
+ * The values of one cron field.
+ */
+interface CronField {
+  /** Matching values in ascending order */
+  values: number[];
+  /** Whether the field is `*`, i.e. not restricted */
+  wildcard: boolean;
+}
+
+/**
+ * A parsed cron expression.
+ * @internal
+ */
+export interface ParsedCron {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const aliasIndex = spec.aliases?.indexOf(text.toLowerCase()) ?? -1;
+  if (aliasIndex !== -1) {
+    return aliasIndex + spec.min;
+  }
+  if (!NUMBER_REGEX.test(text)) {
+    throw new Error(`Invalid ${spec.name} "${text}"`);
+  }
+  const value = Number(text);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseStep(stepText: string | undefined, spec: FieldSpec): number {
+  if (stepText === undefined) {
+    return 1;
+  }
+  const step = NUMBER_REGEX.test(stepText) ? Number(stepText) : 0;
+  if (step === 0) {
+    throw new Error(`Invalid step "${stepText}" in ${spec.name}`);
+  }
+  return step;
+}
+
+/**
+ * Parse the range of a field part: `*`, `a` or `a-b`. A single value with a step
+ * ("a/step") runs up to the maximum.
+ */
+function parseRange(range: string, hasStep: boolean, spec: FieldSpec): [number, number] {
+  if (range === "*") {
+    return [spec.min, spec.max];
+  }
+  const [first, last, ...rest] = range.split("-");
+  if (rest.length > 0) {
+    throw new Error(`Invalid ${spec.name} "${range}"`);
+  }
+  const start = parseValue(first, spec);
+  const end = last !== undefined ? parseValue(last, spec) : hasStep ? spec.max : start;
+  if (start > end) {
+    throw new Error(`Invalid ${spec.name} range "${range}"`);
+  }
+  return [start, end];
+}
+
+/**
+ * Parse one comma-separated part of a field: `*`, `a`, `a-b`, optionally followed by `/step`.
+ */
+function parsePart(part: string, spec: FieldSpec): number[] {
+  const [range, stepText, ...extra] = part.split("/");
+  if (extra.length > 0 || range === "") {
+    throw new Error(`Invalid ${spec.name} "${part}"`);
+  }
+  const step = parseStep(stepText, spec);
+  const [start, end] = parseRange(range, stepText !== undefined, spec);
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) {
+    values.push(value);
+  }
+  return values;
+}
+
+function parseField(text: string, spec: FieldSpec): CronField {
+  const values = new Set(text.split(",").flatMap((part) => parsePart(part, spec)));
+  return { values: [...values].sort((a, b) => a - b), wildcard: text === "*" };
+}
+
+/**
+ * Parse a five-field cron expression (minute, hour, day of month, month, day of week).
+ *
+ * @param cron - The cron expression, e.g. "30 6 * * 1-5"
+ * @throws Error describing the first problem
+ * @internal
+ */
+export function parseCron(cron: string): ParsedCron {
+  const fields = cron.trim().split(FIELD_SEPARATOR_REGEX);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`
+    );
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index])
+  );
+  return { minute, hour, dayOfMonth, month, dayOfWeek };
+}
+
+/**
+ * The shortest time between two runs within a day, in minutes.
+ */
+function shortestInterval({ minute, hour }: ParsedCron): number {
+  const minutes = minute.values;
+  let shortest = Number.POSITIVE_INFINITY;
+  for (let index = 1; index < minutes.length; index++) {
+    shortest = Math.min(shortest, minutes[index] - minutes[index - 1]);
+  }
+  // The last run of an hour and the first run of the next one
+  const hours = new Set(hour.values);
+  if (hour.values.some((value) => hours.has((value + 1) % 24))) {
+    shortest = Math.min(shortest, 60 - minutes[minutes.length - 1] + minutes[0]);
+  }
+  return shortest;
+}
+
+/**
+ * Check a cron expression of a `schedule` trigger.
+ *
+ * @param cron - The cron expression
+ * @returns The problem with the expression, or undefined when it is valid
+ * @stability stable
+ */
+export function validateCron(cron: string): string | undefined {
+  let parsed: ParsedCron;
+  try {
+    parsed = parseCron(cron);
+  } catch (error) {
+    return `Invalid cron expression "${cron}": ${(error as Error).message}`;
+  }
+  const interval = shortestInterval(parsed);
+  if (interval < MINIMUM_INTERVAL_MINUTES) {
+    return `Cron expression "${cron}" runs ${interval} minute(s) apart; scheduled workflows run at most every ${MINIMUM_INTERVAL_MINUTES} minutes`;
+  }
+  return undefined;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * Join words as "a, b and c".
+ */
+function joinWords(words: string[]): string {
+  return words.length <= 1
+    ? words.join("")
+    : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+/**
+ * Format values, naming runs of three or more as "a through b".
+ */
+function formatValues(values: number[], label: (value: number) => string = String): string {
+  const parts: string[] = [];
+  let start = 0;
+  while (start < values.length) {
+    let end = start;
+    while (end + 1 < values.length && values[end + 1] === values[end] + 1) {
+      end++;
+    }
+    if (end - start >= 2) {
+      parts.push(`${label(values[start])} through ${label(values[end])}`);
+    } else {
+      parts.push(...values.slice(start, end + 1).map(label));
+    }
+    start = end + 1;
+  }
+  return joinWords(parts);
+}
+
+/**
+ * The step of values that are evenly spaced from the field's minimum over the whole range.
+ */
+function evenStep(field: CronField, min: number, max: number): number | undefined {
+  const [first, second] = field.values;
+  const step = second - first;
+  const isEven =
+    field.values.length > 1 &&
+    first === min &&
+    field.values.every((value, index) => value === first + index * step) &&
+    field.values[field.values.length - 1] + step > max;
+  return isEven ? step : undefined;
+}
+
+function describeTime({ minute, hour }: ParsedCron): string {
+  if (minute.values.length * hour.values.length <= 4) {
+    const times = hour.values.flatMap((h) => minute.values.map((m) => `${pad(h)}:${pad(m)}`));
+    return `At ${joinWords(times)} UTC`;
+  }
+  const minuteStep = evenStep(minute, 0, 59);
+  if (minuteStep !== undefined && hour.wildcard) {
+    return `Every ${minuteStep} minutes`;
+  }
+  const minutes =
+    minute.values.length === 1
+      ? `minute ${minute.values[0]}`
+      : `minutes ${formatValues(minute.values)}`;
+  if (hour.wildcard) {
+    return `At ${minutes} past every hour`;
+  }
+  const hourStep = evenStep(hour, 0, 23);
+  const hours =
+    hourStep === undefined ? `hours ${formatValues(hour.values)} UTC` : `every ${hourStep} hours`;
+  return `At ${minutes} past ${hours}`;
+}
+
+function describeDays({ dayOfMonth, dayOfWeek }: ParsedCron): string | undefined {
+  const parts: string[] = [];
+  if (!dayOfMonth.wildcard) {
+    const days = dayOfMonth.values.length === 1 ? "day" : "days";
+    parts.push(`on ${days} ${formatValues(dayOfMonth.values)} of the month`);
+  }
+  if (!dayOfWeek.wildcard) {
+    parts.push(`on ${formatValues(dayOfWeek.values, (day) => DAY_NAMES[day])}`);
+  }
+  // Cron runs when either the day of month or the day of week matches
+  return parts.length > 0 ? parts.join(" or ") : undefined;
+}
+
+/**
+ * Describe a cron expression in words, e.g. "At 06:30 UTC, on Monday through Friday".
+ *
+ * @param cron - A valid cron expression
+ * @returns The description
+ * @throws Error when the expression is invalid
+ * @stability stable
+ */
+export function describeCron(cron: string): string {
+  const parsed = parseCron(cron);
+  const parts = [describeTime(parsed)];
+  const days = describeDays(parsed);
+  if (days) {
+    parts.push(days);
+  }
+  if (!parsed.month.wildcard) {
+    parts.push(`in ${formatValues(parsed.month.values, (month) => MONTH_NAMES[month - 1])}`);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,265 @@
+import type { KnownShell, Shell } from "./types.js";
+
+/**
+ * Commands writing to the environment files of a step (`GITHUB_OUTPUT`, `GITHUB_ENV`,
+ * `GITHUB_PATH`, `GITHUB_STEP_SUMMARY`) and workflow commands such as `::add-mask::`, in the
+ * syntax of the shell running the step.
+ * See https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions#environment-files
+ *
+ * Values are written in one of two ways: expanded, where the shell expands variables such as
+ * `$VERSION` (bash), `$env:VERSION` (PowerShell) or `%VERSION%` (cmd), or literally, for data
+ * known when the workflow is synthesized (JSON, Markdown). Multi-line values are written with
+ * the `name<<delimiter` syntax and a delimiter generated when the step runs, so that the value
+ * cannot end the block early.
+ */
+
+/** An environment file of a step */
+type EnvironmentFile = "GITHUB_OUTPUT" | "GITHUB_ENV" | "GITHUB_PATH" | "GITHUB_STEP_SUMMARY";
+
+const LINE_BREAK_REGEX = /\r?\n/;
+const SINGLE_QUOTE_REGEX = /'/g;
+const DOUBLE_QUOTE_REGEX = /"/g;
+const CMD_SPECIAL_CHARACTER_REGEX = /[\^&|<>]/g;
+const PERCENT_REGEX = /%/g;
+
+/** How a shell quotes values, appends lines to a file and sets up a block delimiter */
+interface IShellSyntax {
+  /** The value as a string the shell expands variables in, or takes literally */
+  quote(value: string, literal: boolean): string;
+  /** A command appending the quoted parts to an environment file, one per line */
+  append(file: EnvironmentFile, parts: readonly string[]): string;
+  /** A command printing `::add-mask::` for every line the value has when the step runs */
+  mask(value: string): string;
+  /** A command storing a random delimiter in a variable */
+  readonly delimiterSetup: string;
+  /** The quoted `name<<delimiter` line */
+  delimiterHeader(name: string): string;
+  /** The quoted delimiter line */
+  readonly delimiterReference: string;
+}
+
+const POSIX_SYNTAX: IShellSyntax = {
+  quote: (value, literal) =>
+    literal
+      ? `'${value.replace(SINGLE_QUOTE_REGEX, "'\\''")}'`
+      : `"${value.replace(DOUBLE_QUOTE_REGEX, '\\"')}"`,
+  // dash, the sh of Ubuntu, expands backslash escapes in echo
+  append: (file, parts) => `printf '%s\\n' ${parts.join(" ")} >> "$${file}"`,
+  mask: (value) => `printf '%s\\n' ${POSIX_SYNTAX.quote(value, false)} | sed 's/^/::add-mask::/'`,
+  delimiterSetup: `ts_actions_delimiter="ghadelimiter_$(od -An -N16 -tx1 /dev/urandom | tr -d ' \\n')"`,
+  delimiterHeader: (name) => `"${name}<<$ts_actions_delimiter"`,
+  delimiterReference: `"$ts_actions_delimiter"`,
+};
+
+const PWSH_SYNTAX: IShellSyntax = {
+  quote: (value, literal) =>
+    literal
+      ? `'${value.replace(SINGLE_QUOTE_REGEX, "''")}'`
+      : `"${value.replace(DOUBLE_QUOTE_REGEX, '`"')}"`,
+  append: (file, parts) =>
+    parts.length === 1
+      ? `${parts[0]} >> $env:${file}`
+      : `@(${parts.join(", ")}) | Out-File -FilePath $env:${file} -Encoding utf8 -Append`,
+  mask: (value) =>
+    `${PWSH_SYNTAX.quote(value, false)} -split "\\r?\\n" | ForEach-Object { "::add-mask::$_" }`,
+  delimiterSetup: `$tsActionsDelimiter = "ghadelimiter_$([guid]::NewGuid())"`,
+  delimiterHeader: (name) => `"${name}<<$tsActionsDelimiter"`,
+  delimiterReference: "$tsActionsDelimiter",
+};
+
+const SHELL_SYNTAX: Readonly<Record<KnownShell, IShellSyntax>> = {
+  bash: POSIX_SYNTAX,
+  sh: POSIX_SYNTAX,
+  pwsh: PWSH_SYNTAX,
+  // Windows PowerShell's >> writes UTF-16
+  powershell: {
+    ...PWSH_SYNTAX,
+    append: (file, parts) =>
+      `${parts.length === 1 ? parts[0] : `@(${parts.join(", ")})`} | Out-File -FilePath $env:${file} -Encoding utf8 -Append`,
+  },
+  cmd: {
+    quote: (value, literal) =>
+      (literal ? value.replace(PERCENT_REGEX, "%%") : value).replace(
+        CMD_SPECIAL_CHARACTER_REGEX,
+        "^$&"
+      ),
+    // The redirection comes first, so that a value ending in a digit is not taken as a stream;
+    // echo( also writes empty lines
+    append: (file, parts) => parts.map((part) => `>> "%${file}%" echo(${part}`).join("\n"),
+    // A variable holding several lines cannot be split in cmd; only its first line is masked
+    mask: (value) =>
+      value
+        .split(LINE_BREAK_REGEX)
+        .map((line) => `echo(${SHELL_SYNTAX.cmd.quote(`::add-mask::${line}`, false)}`)
+        .join("\n"),
+    delimiterSetup: `set "ts_actions_delimiter=ghadelimiter_%RANDOM%%RANDOM%%RANDOM%%RANDOM%"`,
+    delimiterHeader: (name) => `${name}^<^<%ts_actions_delimiter%`,
+    delimiterReference: "%ts_actions_delimiter%",
+  },
+  python: {
+    quote: (value) => JSON.stringify(value),
+    append: (file, parts) =>
+      `import os; open(os.environ["${file}"], "a", encoding="utf-8").write("\\n".join([${parts.join(", ")}]) + "\\n")`,
+    mask: (value) =>
+      `print("\\n".join("::add-mask::" + line for line in ${JSON.stringify(value)}.splitlines()))`,
+    delimiterSetup: `import uuid; ts_actions_delimiter = "ghadelimiter_" + uuid.uuid4().hex`,
+    delimiterHeader: (name) => `"${name}<<" + ts_actions_delimiter`,
+    delimiterReference: "ts_actions_delimiter",
+  },
+};
+
+function shellSyntax(shell: Shell, helper: string): IShellSyntax {
+  const syntax = SHELL_SYNTAX[shell as KnownShell];
+  if (!syntax) {
+    throw new Error(
+      `${helper}() does not know the syntax of the custom shell "${shell}"; write to the environment file in the script`
+    );
+  }
+  return syntax;
+}
+
+function quoteLines(syntax: IShellSyntax, value: string, literal: boolean): string[] {
+  return value.split(LINE_BREAK_REGEX).map((line) => syntax.quote(line, literal));
+}
+
+/**
+ * A command appending text to an environment file, each line of the text as a line.
+ * @internal
+ */
+export function appendToFile(
+  file: EnvironmentFile,
+  text: string,
+  shell: Shell,
+  options: { helper: string; literal?: boolean }
+): string {
+  const syntax = shellSyntax(shell, options.helper);
+  return syntax.append(file, quoteLines(syntax, text, options.literal ?? false));
+}
+
+/**
+ * Commands appending `name<<delimiter`, the value and the delimiter to an environment file,
+ * with a delimiter generated when the step runs.
+ * @internal
+ */
+export function appendDelimited(
+  file: EnvironmentFile,
+  name: string,
+  value: string,
+  shell: Shell,
+  options: { helper: string; literal?: boolean }
+): string {
+  const syntax = shellSyntax(shell, options.helper);
+  return [
+    syntax.delimiterSetup,
+    syntax.append(file, [
+      syntax.delimiterHeader(name),
+      ...quoteLines(syntax, value, options.literal ?? false),
+      syntax.delimiterReference,
+    ]),
+  ].join("\n");
+}
+
+/**
+ * Generates the commands to set a multi-line step output, e.g. a changelog. The value is
+ * written between `name<<delimiter` and a delimiter generated when the step runs, so it may
+ * hold any text, including values only known then, such as `$(cat CHANGELOG.md)` in bash.
+ *
+ * @param name - The output name
+ * @param value - The output value; variables in it are expanded by the shell
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The commands, one per line
+ *
+ * @example
+ * ```typescript
+ * step.id("notes").runScript([setMultilineOutput("notes", "$(git log --oneline -5)")]);
+ * ```
+ * @stability stable
+ */
+export function setMultilineOutput(name: string, value: string, shell: Shell = "bash"): string {
+  return appendDelimited("GITHUB_OUTPUT", name, value, shell, { helper: "setMultilineOutput" });
+}
+
+/**
+ * Generates the command to set a step output to a value as JSON. Read it in later steps and
+ * jobs with `jsonOutput<T>()`, which types its properties.
+ *
+ * @param name - The output name
+ * @param value - The value, written literally as JSON
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The command string
+ *
+ * @example
+ * ```typescript
+ * step.id("config").run(setJsonOutput("config", { targets: ["linux", "windows"] }));
+ * const config = jsonOutput<{ targets: string[] }>(steps("config").outputs.config);
+ * ```
+ * @stability stable
+ */
+export function setJsonOutput(name: string, value: unknown, shell: Shell = "bash"): string {
+  return appendToFile("GITHUB_OUTPUT", `${name}=${JSON.stringify(value)}`, shell, {
+    helper: "setJsonOutput",
+    literal: true,
+  });
+}
+
+/**
+ * Generates the command to set an environment variable for the following steps of the job.
+ * Multi-line values are written with a generated delimiter.
+ *
+ * @param name - The variable name
+ * @param value - The value; variables in it are expanded by the shell
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The command string
+ * @stability stable
+ */
+export function setEnv(name: string, value: string, shell: Shell = "bash"): string {
+  return LINE_BREAK_REGEX.test(value)
+    ? appendDelimited("GITHUB_ENV", name, value, shell, { helper: "setEnv" })
+    : appendToFile("GITHUB_ENV", `${name}=${value}`, shell, { helper: "setEnv" });
+}
+
+/**
+ * Generates the command to prepend a directory to the `PATH` of the following steps of the job.
+ *
+ * @param directory - The directory; variables in it are expanded by the shell
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The command string
+ * @stability stable
+ */
+export function addPath(directory: string, shell: Shell = "bash"): string {
+  return appendToFile("GITHUB_PATH", directory, shell, { helper: "addPath" });
+}
+
+/**
+ * Generates the command to append Markdown to the job summary.
+ *
+ * @param markdown - The Markdown, written literally (backticks and `$` are not expanded)
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The command string
+ * @stability stable
+ */
+export function appendStepSummary(markdown: string, shell: Shell = "bash"): string {
+  return appendToFile("GITHUB_STEP_SUMMARY", markdown, shell, {
+    helper: "appendStepSummary",
+    literal: true,
+  });
+}
+
+/**
+ * Generates the command to mask a value in the logs, e.g. a token obtained in the step.
+ * Each line of a multi-line value is masked, including the lines of a variable holding several
+ * lines when the step runs (except in cmd, which masks its first line).
+ *
+ * @param value - The value to mask; variables in it are expanded by the shell
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The command string
+ *
+ * @example
+ * ```typescript
+ * step.runScript(['TOKEN="$(./get-token.sh)"', addMask("$TOKEN"), setEnv("TOKEN", "$TOKEN")]);
+ * ```
+ * @stability stable
+ */
+export function addMask(value: string, shell: Shell = "bash"): string {
+  return shellSyntax(shell, "addMask").mask(value);
+}
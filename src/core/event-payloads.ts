@@ -0,0 +1,401 @@
+/**
+ * Webhook payload shapes available as `github.event`, per triggering event.
+ * Only commonly used properties are listed; see
+ * https://docs.github.com/en/webhooks/webhook-events-and-payloads for the full payloads.
+ */
+
+/**
+ * A payload whose shape is not known statically; any property may be accessed.
+ * @stability stable
+ */
+export type DynamicPayload = Record<string, unknown>;
+
+/** A GitHub user or organization in an event payload @stability stable */
+export interface IEventUser {
+  login: string;
+  id: number;
+  type: string;
+  html_url: string;
+}
+
+/** The repository an event occurred in @stability stable */
+export interface IEventRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  owner: IEventUser;
+  private: boolean;
+  html_url: string;
+  default_branch: string;
+  fork: boolean;
+  topics: string[];
+}
+
+/** Properties present in every event payload @stability stable */
+export interface IEventPayloadBase {
+  repository: IEventRepository;
+  sender: IEventUser;
+}
+
+/** A commit in a push payload @stability stable */
+export interface IEventCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  url: string;
+  author: { name: string; email: string; username: string };
+  committer: { name: string; email: string; username: string };
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+/** A label on an issue or pull request @stability stable */
+export interface IEventLabel {
+  id: number;
+  name: string;
+  color: string;
+  description: string;
+}
+
+/** A branch reference of a pull request @stability stable */
+export interface IEventPullRequestRef {
+  label: string;
+  ref: string;
+  sha: string;
+  user: IEventUser;
+  repo: IEventRepository;
+}
+
+/** A pull request in a pull_request payload @stability stable */
+export interface IEventPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  draft: boolean;
+  merged: boolean;
+  html_url: string;
+  user: IEventUser;
+  head: IEventPullRequestRef;
+  base: IEventPullRequestRef;
+  labels: IEventLabel[];
+  requested_reviewers: IEventUser[];
+  additions: number;
+  deletions: number;
+  changed_files: number;
+}
+
+/** `github.event` for `push` @stability stable */
+export interface IPushEventPayload extends IEventPayloadBase {
+  ref: string;
+  before: string;
+  after: string;
+  base_ref: string;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  compare: string;
+  commits: IEventCommit[];
+  head_commit: IEventCommit;
+  pusher: { name: string; email: string };
+}
+
+/** `github.event` for `pull_request` @stability stable */
+export interface IPullRequestEventPayload extends IEventPayloadBase {
+  action: string;
+  number: number;
+  pull_request: IEventPullRequest;
+  label: IEventLabel;
+}
+
+/** `github.event` for `workflow_dispatch` @stability stable */
+export interface IWorkflowDispatchEventPayload extends IEventPayloadBase {
+  ref: string;
+  workflow: string;
+  inputs: DynamicPayload;
+}
+
+/** `github.event` for `schedule` @stability stable */
+export interface IScheduleEventPayload {
+  schedule: string;
+}
+
+/** `github.event` for `repository_dispatch` @stability stable */
+export interface IRepositoryDispatchEventPayload extends IEventPayloadBase {
+  action: string;
+  branch: string;
+  client_payload: DynamicPayload;
+}
+
+/** An issue in an issues or issue_comment payload @stability stable */
+export interface IEventIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  html_url: string;
+  user: IEventUser;
+  labels: IEventLabel[];
+  assignees: IEventUser[];
+  /** Set when the issue is a pull request */
+  pull_request: { url: string; html_url: string };
+}
+
+/** A comment on an issue, pull request or discussion @stability stable */
+export interface IEventComment {
+  id: number;
+  body: string;
+  html_url: string;
+  user: IEventUser;
+  author_association: string;
+}
+
+/** A release in a release payload @stability stable */
+export interface IEventRelease {
+  id: number;
+  tag_name: string;
+  target_commitish: string;
+  name: string;
+  body: string;
+  draft: boolean;
+  prerelease: boolean;
+  html_url: string;
+  upload_url: string;
+  author: IEventUser;
+}
+
+/** A workflow run in a workflow_run payload @stability stable */
+export interface IEventWorkflowRun {
+  id: number;
+  name: string;
+  event: string;
+  status: string;
+  conclusion: string;
+  head_branch: string;
+  head_sha: string;
+  run_number: number;
+  run_attempt: number;
+  html_url: string;
+  pull_requests: { number: number; head: { ref: string; sha: string } }[];
+}
+
+/** A deployment in a deployment or deployment_status payload @stability stable */
+export interface IEventDeployment {
+  id: number;
+  sha: string;
+  ref: string;
+  task: string;
+  environment: string;
+  description: string;
+  payload: DynamicPayload;
+  creator: IEventUser;
+}
+
+/** Properties of events filtered by activity type @stability stable */
+export interface IActivityEventPayload extends IEventPayloadBase {
+  action: string;
+}
+
+/** `github.event` for `issues` @stability stable */
+export interface IIssuesEventPayload extends IActivityEventPayload {
+  issue: IEventIssue;
+  label: IEventLabel;
+  assignee: IEventUser;
+}
+
+/** `github.event` for `issue_comment` @stability stable */
+export interface IIssueCommentEventPayload extends IActivityEventPayload {
+  issue: IEventIssue;
+  comment: IEventComment;
+}
+
+/** `github.event` for `pull_request_review` @stability stable */
+export interface IPullRequestReviewEventPayload extends IActivityEventPayload {
+  pull_request: IEventPullRequest;
+  review: { id: number; body: string; state: string; html_url: string; user: IEventUser };
+}
+
+/** `github.event` for `pull_request_review_comment` @stability stable */
+export interface IPullRequestReviewCommentEventPayload extends IActivityEventPayload {
+  pull_request: IEventPullRequest;
+  comment: IEventComment & { path: string; diff_hunk: string; commit_id: string };
+}
+
+/** `github.event` for `release` @stability stable */
+export interface IReleaseEventPayload extends IActivityEventPayload {
+  release: IEventRelease;
+}
+
+/** `github.event` for `workflow_run` @stability stable */
+export interface IWorkflowRunEventPayload extends IActivityEventPayload {
+  workflow_run: IEventWorkflowRun;
+  workflow: { id: number; name: string; path: string };
+}
+
+/** `github.event` for `merge_group` @stability stable */
+export interface IMergeGroupEventPayload extends IActivityEventPayload {
+  merge_group: {
+    head_sha: string;
+    head_ref: string;
+    base_sha: string;
+    base_ref: string;
+    head_commit: IEventCommit;
+  };
+}
+
+/** `github.event` for `deployment` @stability stable */
+export interface IDeploymentEventPayload extends IEventPayloadBase {
+  deployment: IEventDeployment;
+}
+
+/** `github.event` for `deployment_status` @stability stable */
+export interface IDeploymentStatusEventPayload extends IDeploymentEventPayload {
+  deployment_status: {
+    id: number;
+    state: string;
+    description: string;
+    environment: string;
+    environment_url: string;
+    log_url: string;
+    target_url: string;
+  };
+}
+
+/** `github.event` for `check_run` @stability stable */
+export interface ICheckRunEventPayload extends IActivityEventPayload {
+  check_run: {
+    id: number;
+    name: string;
+    head_sha: string;
+    status: string;
+    conclusion: string;
+    html_url: string;
+  };
+}
+
+/** `github.event` for `check_suite` @stability stable */
+export interface ICheckSuiteEventPayload extends IActivityEventPayload {
+  check_suite: {
+    id: number;
+    head_branch: string;
+    head_sha: string;
+    status: string;
+    conclusion: string;
+  };
+}
+
+/** `github.event` for `registry_package` @stability stable */
+export interface IRegistryPackageEventPayload extends IActivityEventPayload {
+  registry_package: {
+    id: number;
+    name: string;
+    ecosystem: string;
+    package_type: string;
+    html_url: string;
+    package_version: { version: string; name: string; html_url: string };
+  };
+}
+
+/** `github.event` for `label` @stability stable */
+export interface ILabelEventPayload extends IActivityEventPayload {
+  label: IEventLabel;
+}
+
+/** `github.event` for `discussion` @stability stable */
+export interface IDiscussionEventPayload extends IActivityEventPayload {
+  discussion: {
+    id: number;
+    number: number;
+    title: string;
+    body: string;
+    html_url: string;
+    user: IEventUser;
+    category: { name: string; slug: string };
+  };
+}
+
+/** `github.event` for `discussion_comment` @stability stable */
+export interface IDiscussionCommentEventPayload extends IDiscussionEventPayload {
+  comment: IEventComment;
+}
+
+/** `github.event` for `milestone` @stability stable */
+export interface IMilestoneEventPayload extends IActivityEventPayload {
+  milestone: { id: number; number: number; title: string; state: string; due_on: string };
+}
+
+/** `github.event` for `create` and `delete` @stability stable */
+export interface IRefEventPayload extends IEventPayloadBase {
+  ref: string;
+  ref_type: string;
+}
+
+/** `github.event` for `status` @stability stable */
+export interface IStatusEventPayload extends IEventPayloadBase {
+  sha: string;
+  state: string;
+  context: string;
+  description: string;
+  target_url: string;
+}
+
+/**
+ * Payload types by event name. Events missing here have a dynamic payload.
+ * `workflow_call` runs with the payload of the calling workflow, which is not known here.
+ * @stability stable
+ */
+export interface IEventPayloads {
+  push: IPushEventPayload;
+  pull_request: IPullRequestEventPayload;
+  pull_request_target: IPullRequestEventPayload;
+  workflow_dispatch: IWorkflowDispatchEventPayload;
+  schedule: IScheduleEventPayload;
+  repository_dispatch: IRepositoryDispatchEventPayload;
+  workflow_call: DynamicPayload;
+  workflow_run: IWorkflowRunEventPayload;
+  branch_protection_rule: IActivityEventPayload & { rule: DynamicPayload };
+  check_run: ICheckRunEventPayload;
+  check_suite: ICheckSuiteEventPayload;
+  discussion: IDiscussionEventPayload;
+  discussion_comment: IDiscussionCommentEventPayload;
+  issue_comment: IIssueCommentEventPayload;
+  issues: IIssuesEventPayload;
+  label: ILabelEventPayload;
+  merge_group: IMergeGroupEventPayload;
+  milestone: IMilestoneEventPayload;
+  pull_request_review: IPullRequestReviewEventPayload;
+  pull_request_review_comment: IPullRequestReviewCommentEventPayload;
+  registry_package: IRegistryPackageEventPayload;
+  release: IReleaseEventPayload;
+  watch: IActivityEventPayload;
+  create: IRefEventPayload;
+  delete: IRefEventPayload;
+  deployment: IDeploymentEventPayload;
+  deployment_status: IDeploymentStatusEventPayload;
+  fork: IEventPayloadBase & { forkee: IEventRepository };
+  gollum: IEventPayloadBase & { pages: { page_name: string; action: string; html_url: string }[] };
+  page_build: IEventPayloadBase & { build: { status: string; url: string } };
+  public: IEventPayloadBase;
+  status: IStatusEventPayload;
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (value: U) => void : never) extends (
+  value: infer I
+) => void
+  ? I
+  : never;
+
+/**
+ * The `github.event` payload of a workflow triggered by any of `TEvents`.
+ * Properties of every trigger's payload are available, since the workflow may run for any of them.
+ * When the triggers are not known (`string`), the payload is dynamic.
+ * @stability stable
+ */
+export type EventPayload<TEvents extends string> = string extends TEvents
+  ? DynamicPayload
+  : UnionToIntersection<
+      TEvents extends keyof IEventPayloads ? IEventPayloads[TEvents] : DynamicPayload
+    >;
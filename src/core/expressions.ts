@@ -0,0 +1,355 @@
+import type { GitHubExpression } from "./types.js";
+
+/**
+ * Typed builder for GitHub Actions expressions.
+ *
+ * Expressions are composed with methods and functions instead of hand-written `${{ }}` strings,
+ * so literals are quoted correctly and parentheses are added where operator precedence needs them.
+ */
+
+const SINGLE_QUOTE_REGEX = /'/g;
+const CONTEXT_PATH_REGEX = /^[A-Za-z_][\w-]*(?:\.(?:[A-Za-z_*][\w-]*))*$/;
+const PROPERTY_NAME_REGEX = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Operator precedence levels, from loosest to tightest binding.
+ * See https://docs.github.com/en/actions/learn-github-actions/expressions#operators
+ */
+enum Precedence {
+  Or = 1,
+  And = 2,
+  Equality = 3,
+  Comparison = 4,
+  Not = 5,
+  Atom = 6,
+}
+
+/**
+ * A value usable as an expression operand: an expression or a literal.
+ * @stability stable
+ */
+export type ExpressionValue = Expression | string | number | boolean | null;
+
+/**
+ * A string (used as-is) or an expression (rendered as `${{ ... }}`).
+ * Accepted by every builder method that takes a string value.
+ * @stability stable
+ */
+export type ExpressionLike = string | Expression;
+
+/**
+ * A GitHub Actions expression.
+ *
+ * Converting an expression to a string (e.g. in a template literal) yields `${{ ... }}`.
+ *
+ * @example
+ * ```typescript
+ * job.if(context("github.ref").eq("refs/heads/main").and(success()));
+ * // if: github.ref == 'refs/heads/main' && success()
+ *
+ * step.run(`echo ${context("github.sha")}`);
+ * // run: echo ${{ github.sha }}
+ * ```
+ * @stability stable
+ */
+export class Expression {
+  /** The expression source without the `${{ }}` delimiters */
+  readonly body: string;
+  private readonly precedence: Precedence;
+
+  /**
+   * Creates an expression from its source. Prefer `context()` and the function helpers.
+   *
+   * @param body - The expression source without `${{ }}`
+   * @param precedence - Binding strength of the outermost operator (internal)
+   * @stability stable
+   */
+  constructor(body: string, precedence: number = Precedence.Atom) {
+    this.body = body;
+    this.precedence = precedence;
+  }
+
+  /**
+   * Accesses a property, e.g. `fromJSON(x).get("version")` → `fromJSON(x).version`.
+   *
+   * @param property - The property name
+   * @stability stable
+   */
+  get(property: string): Expression {
+    const target = this.operand(Precedence.Atom);
+    return PROPERTY_NAME_REGEX.test(property)
+      ? new Expression(`${target}.${property}`)
+      : new Expression(`${target}[${quote(property)}]`);
+  }
+
+  /**
+   * Accesses an array element or an object property by index, e.g. `matrix.include[0]`.
+   *
+   * @param index - The index or key
+   * @stability stable
+   */
+  at(index: ExpressionValue): Expression {
+    return new Expression(`${this.operand(Precedence.Atom)}[${operand(index, Precedence.Or)}]`);
+  }
+
+  /** `this == other` @stability stable */
+  eq(other: ExpressionValue): Expression {
+    return this.binary("==", other, Precedence.Equality);
+  }
+
+  /** `this != other` @stability stable */
+  ne(other: ExpressionValue): Expression {
+    return this.binary("!=", other, Precedence.Equality);
+  }
+
+  /** `this < other` @stability stable */
+  lt(other: ExpressionValue): Expression {
+    return this.binary("<", other, Precedence.Comparison);
+  }
+
+  /** `this <= other` @stability stable */
+  le(other: ExpressionValue): Expression {
+    return this.binary("<=", other, Precedence.Comparison);
+  }
+
+  /** `this > other` @stability stable */
+  gt(other: ExpressionValue): Expression {
+    return this.binary(">", other, Precedence.Comparison);
+  }
+
+  /** `this >= other` @stability stable */
+  ge(other: ExpressionValue): Expression {
+    return this.binary(">=", other, Precedence.Comparison);
+  }
+
+  /** `this && other` @stability stable */
+  and(other: ExpressionValue): Expression {
+    return this.binary("&&", other, Precedence.And);
+  }
+
+  /** `this || other` @stability stable */
+  or(other: ExpressionValue): Expression {
+    return this.binary("||", other, Precedence.Or);
+  }
+
+  /** `!this` @stability stable */
+  not(): Expression {
+    return new Expression(`!${this.operand(Precedence.Not)}`, Precedence.Not);
+  }
+
+  /**
+   * The expression wrapped in `${{ }}`, for use in any string value.
+   * @stability stable
+   */
+  toString(): GitHubExpression {
+    return `\${{ ${this.body} }}` as GitHubExpression;
+  }
+
+  /**
+   * The expression as a condition for `if:`. GitHub evaluates `if` values as expressions,
+   * so the delimiters are only kept when the expression starts with `!` (which YAML would
+   * otherwise read as a tag).
+   * @stability stable
+   */
+  toCondition(): string {
+    return this.body.startsWith("!") ? this.toString() : this.body;
+  }
+
+  /**
+   * Expressions serialize to their `${{ }}` form.
+   * @stability stable
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  /**
+   * The source of this expression as an operand of an operator with the given precedence.
+   * @internal
+   */
+  operand(precedence: number): string {
+    return this.precedence < precedence ? `(${this.body})` : this.body;
+  }
+
+  private binary(operator: string, other: ExpressionValue, precedence: Precedence): Expression {
+    // Operators are left-associative, so the right operand needs parentheses at equal precedence
+    const left = this.operand(precedence);
+    const right = operand(other, precedence + 1);
+    return new Expression(`${left} ${operator} ${right}`, precedence);
+  }
+}
+
+/**
+ * An expression whose value is known to be of type `T`, e.g. a `choice` or `boolean` input.
+ * Comparisons only accept literals of that type (or other expressions).
+ * @stability stable
+ */
+export interface TypedExpression<T extends string | number | boolean> extends Expression {
+  /** `this == other` @stability stable */
+  eq(other: T | Expression): Expression;
+  /** `this != other` @stability stable */
+  ne(other: T | Expression): Expression;
+  /** `this < other` @stability stable */
+  lt(other: T | Expression): Expression;
+  /** `this <= other` @stability stable */
+  le(other: T | Expression): Expression;
+  /** `this > other` @stability stable */
+  gt(other: T | Expression): Expression;
+  /** `this >= other` @stability stable */
+  ge(other: T | Expression): Expression;
+}
+
+/**
+ * Quote a string literal, doubling embedded single quotes.
+ */
+function quote(value: string): string {
+  return `'${value.replace(SINGLE_QUOTE_REGEX, "''")}'`;
+}
+
+/**
+ * Render a value as an operand, quoting literals and parenthesizing looser expressions.
+ */
+function operand(value: ExpressionValue, precedence: number): string {
+  if (value instanceof Expression) {
+    return value.operand(precedence);
+  }
+  if (typeof value === "string") {
+    return quote(value);
+  }
+  return String(value);
+}
+
+function call(name: string, args: ExpressionValue[]): Expression {
+  return new Expression(`${name}(${args.map((arg) => operand(arg, Precedence.Or)).join(", ")})`);
+}
+
+/**
+ * References a context property, e.g. `context("github.ref")` or `context("steps.build.outputs.path")`.
+ *
+ * @param path - Dot-separated property path starting with a context name
+ * @stability stable
+ */
+export function context(path: string): Expression {
+  if (!CONTEXT_PATH_REGEX.test(path)) {
+    throw new Error(
+      `Invalid context path "${path}". Expected e.g. "github.ref" or "env.NODE_ENV".`
+    );
+  }
+  return new Expression(path);
+}
+
+/**
+ * A literal value as an expression, e.g. `literal("main")` → `'main'`.
+ *
+ * @param value - The literal value
+ * @stability stable
+ */
+export function literal(value: string | number | boolean | null): Expression {
+  return new Expression(operand(value, Precedence.Atom));
+}
+
+/**
+ * Converts a string or expression to the string stored in the workflow configuration.
+ * @internal
+ */
+export function resolveExpression(value: ExpressionLike): string {
+  return value instanceof Expression ? value.toString() : value;
+}
+
+/**
+ * Converts a condition to the string stored in `if:`.
+ * @internal
+ */
+export function resolveCondition(condition: ExpressionLike): string {
+  return condition instanceof Expression ? condition.toCondition() : condition;
+}
+
+/**
+ * Converts every expression in a record to its `${{ }}` string.
+ * @internal
+ */
+export function resolveExpressions<T extends string | number | boolean>(values: {
+  [key: string]: T | Expression;
+}): { [key: string]: T | string } {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      value instanceof Expression ? value.toString() : value,
+    ])
+  );
+}
+
+/** `success()`: true when no previous step failed or was cancelled @stability stable */
+export function success(): Expression {
+  return call("success", []);
+}
+
+/** `always()`: true even when the workflow was cancelled @stability stable */
+export function always(): Expression {
+  return call("always", []);
+}
+
+/** `failure()`: true when a previous step (or needed job) failed @stability stable */
+export function failure(): Expression {
+  return call("failure", []);
+}
+
+/** `cancelled()`: true when the workflow was cancelled @stability stable */
+export function cancelled(): Expression {
+  return call("cancelled", []);
+}
+
+/**
+ * `contains(search, item)`: true when an array contains item or a string contains a substring.
+ * @stability stable
+ */
+export function contains(search: ExpressionValue, item: ExpressionValue): Expression {
+  return call("contains", [search, item]);
+}
+
+/** `startsWith(searchString, searchValue)` @stability stable */
+export function startsWith(
+  searchString: ExpressionValue,
+  searchValue: ExpressionValue
+): Expression {
+  return call("startsWith", [searchString, searchValue]);
+}
+
+/** `endsWith(searchString, searchValue)` @stability stable */
+export function endsWith(searchString: ExpressionValue, searchValue: ExpressionValue): Expression {
+  return call("endsWith", [searchString, searchValue]);
+}
+
+/**
+ * `format(template, ...values)`: replaces `{0}`, `{1}`, ... in template.
+ * @stability stable
+ */
+export function format(template: string, ...values: ExpressionValue[]): Expression {
+  return call("format", [template, ...values]);
+}
+
+/** `join(array, separator?)` @stability stable */
+export function join(array: ExpressionValue, separator?: string): Expression {
+  return call("join", separator === undefined ? [array] : [array, separator]);
+}
+
+/** `toJSON(value)`: pretty-printed JSON of a value @stability stable */
+export function toJSON(value: ExpressionValue): Expression {
+  return call("toJSON", [value]);
+}
+
+/** `fromJSON(value)`: parses JSON into an object or value @stability stable */
+export function fromJSON(value: ExpressionValue): Expression {
+  return call("fromJSON", [value]);
+}
+
+/**
+ * `hashFiles(...patterns)`: SHA-256 hash of the files matching the patterns.
+ * @stability stable
+ */
+export function hashFiles(...patterns: string[]): Expression {
+  if (patterns.length === 0) {
+    throw new Error("hashFiles() requires at least one path pattern");
+  }
+  return call("hashFiles", patterns);
+}
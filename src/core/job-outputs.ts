@@ -1,5 +1,11 @@
+import { type ContextProperty, createContext } from "./contexts.js";
+import { appendDelimited, appendToFile } from "./environment-files.js";
+import type { ExpressionLike } from "./expressions.js";
 import type { Job } from "./job.js";
-import type { JobId } from "./types.js";
+import type { JobId, Shell } from "./types.js";
+
+const LINE_BREAK_REGEX = /\r?\n/;
+const EXPRESSION_REGEX = /^\$\{\{\s*([\s\S]+?)\s*\}\}$/;
 
 /**
  * Type-safe job output references
@@ -118,21 +124,59 @@ export function steps<TOutputs extends Record<string, unknown>>(
 }
 
 /**
- * Generates the echo command to set a step output in GitHub Actions.
+ * Generates the command to set a step output in GitHub Actions, in the syntax of the shell
+ * running the step. Variables in the value (e.g. `$VERSION` in bash, `$env:VERSION` in
+ * PowerShell, `%VERSION%` in cmd) are expanded by the shell. Multi-line values are written
+ * like `setMultilineOutput()` does; use it for variables that may hold several lines when the
+ * step runs. Custom shell templates have no known syntax and throw.
  *
  * @param name - The output name
  * @param value - The output value (string, number, or boolean)
- * @returns The echo command string
+ * @param shell - The shell of the step (default: "bash")
+ * @returns The command string
  *
  * @example
  * ```typescript
  * .run(setOutput("version", "1.0.0"))
- * // Generates: echo "version=1.0.0" >> $GITHUB_OUTPUT
+ * // Generates: printf '%s\n' "version=1.0.0" >> "$GITHUB_OUTPUT"
+ * .shell("pwsh").run(setOutput("version", "1.0.0", "pwsh"))
+ * // Generates: "version=1.0.0" >> $env:GITHUB_OUTPUT
  * ```
  */
-export function setOutput(name: string, value: string | number | boolean): string {
-  // Escapes the value properly for shell output
-  // Handles special characters and generates: echo "name=value" >> $GITHUB_OUTPUT
-  const escapedValue = String(value).replace(/"/g, '\\"').replace(/\n/g, "\\n");
-  return `echo "${name}=${escapedValue}" >> $GITHUB_OUTPUT`;
+export function setOutput(
+  name: string,
+  value: string | number | boolean,
+  shell: Shell = "bash"
+): string {
+  const text = String(value);
+  return LINE_BREAK_REGEX.test(text)
+    ? appendDelimited("GITHUB_OUTPUT", name, text, shell, { helper: "setOutput" })
+    : appendToFile("GITHUB_OUTPUT", `${name}=${text}`, shell, { helper: "setOutput" });
+}
+
+/**
+ * Reads an output holding JSON, e.g. one set with `setJsonOutput()`, as a typed context: its
+ * properties are `fromJSON()` expressions checked by the compiler against `T`.
+ *
+ * @param output - An expression evaluating to the JSON, e.g. `steps("config").outputs.config`
+ * @returns The parsed value as a context
+ *
+ * @example
+ * ```typescript
+ * const config = jsonOutput<{ node: string }>(steps("config").outputs.config);
+ * step.with({ "node-version": config.node });
+ * // Generates: ${{ fromJSON(steps.config.outputs.config).node }}
+ * ```
+ * @stability stable
+ */
+export function jsonOutput<T>(output: ExpressionLike): ContextProperty<T> {
+  // Context expressions are proxies turning every property into a path, so read the body
+  // from the rendered expression
+  const body = String(output).match(EXPRESSION_REGEX)?.[1];
+  if (body === undefined) {
+    throw new Error(
+      `jsonOutput() expects an expression such as "\${{ steps.config.outputs.config }}", got "${output}"`
+    );
+  }
+  return createContext<ContextProperty<T>>(`fromJSON(${body})`);
 }
@@ -1,13 +1,115 @@
+import { loadWorkflowType } from "../actions/loader.js";
+import { parseWorkflowReference } from "../actions/parser.js";
+import { type JobServices, createContext } from "./contexts.js";
+import {
+  Expression,
+  type ExpressionLike,
+  resolveCondition,
+  resolveExpression,
+  resolveExpressions,
+} from "./expressions.js";
 import type { JobOutputsRef } from "./job-outputs.js";
+import { toMatrixConfig } from "./matrix.js";
+import type {
+  IReusableWorkflow,
+  WorkflowCallArguments,
+  WorkflowCallOutputs,
+} from "./reusable-workflow.js";
 import { Step } from "./step.js";
-import type { IJob, IJobConcurrency, IJobDefaults, IJobStrategy, JobId, Runner } from "./types.js";
+import type {
+  IContainer,
+  IContainerOptions,
+  IJob,
+  IJobDefaults,
+  IJobEnvironmentOptions,
+  IJobStrategyOptions,
+  IRunnerGroupOptions,
+  IWorkflowCallOptions,
+  JobId,
+  PermissionsLike,
+  Runner,
+  Shell,
+} from "./types.js";
+
+/**
+ * The inputs and secrets a reusable workflow declares
+ */
+interface WorkflowCallDefinition {
+  inputs?: { [key: string]: { required?: boolean; default?: unknown } };
+  secrets?: string[] | { [key: string]: { required?: boolean } | null };
+}
+
+/**
+ * The workflow_call definition of a reusable workflow: its own, or that of an imported workflow.
+ */
+function workflowCallDefinition(workflow: IReusableWorkflow): WorkflowCallDefinition | null {
+  if (workflow.definition) {
+    return workflow.definition;
+  }
+  try {
+    return loadWorkflowType(parseWorkflowReference(workflow.uses));
+  } catch {
+    // Local or malformed references are not imported; validation reports the latter
+    return null;
+  }
+}
+
+/**
+ * The services of a job after adding service `TName` with `TPorts`.
+ * Untracked services (`Record<string, number>`) start an empty set.
+ */
+type WithService<
+  TServices,
+  TName extends string,
+  TPorts extends number,
+> = (string extends keyof TServices ? Record<never, never> : TServices) & { [K in TName]: TPorts };
+
+/**
+ * The container port of a port mapping: 5432, "5432" or "8080:80" (host:container).
+ */
+type ContainerPort<TPort> = TPort extends number
+  ? TPort
+  : TPort extends `${string}:${infer TContainerPort extends number}`
+    ? TContainerPort
+    : TPort extends `${infer TContainerPort extends number}`
+      ? TContainerPort
+      : never;
+
+/**
+ * The `job.services` context of a job. `services` takes it through `this`, so that a job with
+ * typed services is still a `Job`.
+ */
+type JobServicesOf<TJob> = TJob extends Job<infer _TOutputs, infer TServices>
+  ? JobServices<TServices>
+  : never;
+
+type PortsOf<TOptions> = TOptions extends { ports: readonly (infer TPort)[] } ? TPort : never;
+
+function toContainer(image: ExpressionLike, options: IContainerOptions = {}): IContainer {
+  const { credentials, env, ...rest } = options;
+  return {
+    image: resolveExpression(image),
+    credentials: credentials && {
+      username: resolveExpression(credentials.username),
+      password: resolveExpression(credentials.password),
+    },
+    env: env && resolveExpressions(env),
+    ...rest,
+  };
+}
 
 /**
  * A GitHub Actions job definition.
  *
+ * `TOutputs` are the job's outputs, read by other jobs with `needs()`, and `TServices`
+ * the ports of its service containers by service id, which type `services`.
+ *
  * @stability stable
  */
-export class Job<TOutputs extends Record<string, string> = Record<string, never>> {
+export class Job<
+  TOutputs extends Record<string, string> = Record<string, never>,
+  TServices extends Record<string, number> = Record<string, number>,
+> {
   private job: IJob;
   private stepInstances: Step[] = []; // Store Step instances for processing
   public id?: JobId;
@@ -15,10 +117,10 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
   /**
    * Creates a new job.
    *
-   * @param runsOn - The runner(s) to use for this job
+   * @param runsOn - The runner(s) to use for this job; omitted for jobs that call a reusable workflow
    * @stability stable
    */
-  constructor(runsOn: Runner | Runner[]) {
+  constructor(runsOn?: Runner | Runner[] | IRunnerGroupOptions) {
     this.job = {
       "runs-on": runsOn,
       steps: [],
@@ -26,13 +128,20 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
   }
 
   /**
-   * Sets the runner(s) for this job.
+   * Sets the runner(s) for this job: a runner label, the labels a runner must all have, or
+   * a runner group and labels, e.g. `{ group: "arm-builders", labels: ["linux"] }`.
    *
    * @param runner - The runner(s) to use
    * @stability stable
    */
-  runsOn(runner: Runner | Runner[]): this {
-    this.job["runs-on"] = runner;
+  runsOn(runner: Runner | Expression | (Runner | Expression)[] | IRunnerGroupOptions): this {
+    if (Array.isArray(runner)) {
+      this.job["runs-on"] = runner.map(resolveExpression);
+    } else if (typeof runner === "string" || runner instanceof Expression) {
+      this.job["runs-on"] = resolveExpression(runner);
+    } else {
+      this.job["runs-on"] = { ...runner };
+    }
     return this;
   }
 
@@ -42,8 +151,8 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
    * @param name - The display name for the job
    * @stability stable
    */
-  name(name: string): this {
-    this.job.name = name;
+  name(name: ExpressionLike): this {
+    this.job.name = resolveExpression(name);
     return this;
   }
 
@@ -98,11 +207,74 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
    * @param condition - The conditional expression
    * @stability stable
    */
-  if(condition: string): this {
-    this.job.if = condition;
+  if(condition: ExpressionLike): this {
+    this.job.if = resolveCondition(condition);
     return this;
   }
 
+  /**
+   * Makes this job call a reusable workflow instead of running steps on a runner.
+   *
+   * The workflow's `workflow_call` definition types the arguments: required inputs and
+   * secrets must be passed, and the called workflow's outputs become the job's outputs,
+   * readable with `needs()`.
+   *
+   * @param workflow - The reusable workflow, see `ReusableWorkflow.of()` and `ReusableWorkflow.at()`,
+   *   or a workflow class generated by `ts-actions import-workflow`
+   * @param args - The inputs (`with`) and `secrets` passed to the workflow
+   * @stability stable
+   */
+  uses<TCall extends IWorkflowCallOptions>(
+    workflow: IReusableWorkflow<TCall>,
+    ...args: Record<never, never> extends WorkflowCallArguments<TCall>
+      ? [args?: WorkflowCallArguments<TCall>]
+      : [args: WorkflowCallArguments<TCall>]
+  ): Job<WorkflowCallOutputs<TCall>> {
+    const { with: inputs, secrets } = (args[0] ?? {}) as {
+      with?: { [key: string]: ExpressionLike | number | boolean };
+      secrets?: "inherit" | { [key: string]: ExpressionLike };
+    };
+    this.validateWorkflowCall(workflow, inputs, secrets);
+    // A caller job runs on the called workflow's runners
+    this.job["runs-on"] = undefined;
+    this.job.steps = undefined;
+    this.job.uses = workflow.uses;
+    this.job.with = inputs && resolveExpressions(inputs);
+    this.job.secrets =
+      secrets === undefined || secrets === "inherit" ? secrets : resolveExpressions(secrets);
+    return this as unknown as Job<WorkflowCallOutputs<TCall>>;
+  }
+
+  private validateWorkflowCall(
+    workflow: IReusableWorkflow,
+    inputs: { [key: string]: unknown } = {},
+    secrets: "inherit" | { [key: string]: unknown } = {}
+  ): void {
+    const definition = workflowCallDefinition(workflow);
+    if (!definition) {
+      return;
+    }
+
+    // Warn about unknown inputs and missing required inputs and secrets (but don't fail)
+    const validKeys = Object.keys(definition.inputs ?? {});
+    for (const key of Object.keys(inputs).filter((key) => !validKeys.includes(key))) {
+      console.warn(
+        `Warning: Unknown input "${key}" for workflow ${workflow.uses}. Valid inputs: ${validKeys.join(", ")}`
+      );
+    }
+    for (const [key, input] of Object.entries(definition.inputs ?? {})) {
+      if (input.required && !(key in inputs) && input.default === undefined) {
+        console.warn(`Warning: Required input "${key}" is missing for workflow ${workflow.uses}`);
+      }
+    }
+    const declaredSecrets = Array.isArray(definition.secrets) ? {} : (definition.secrets ?? {});
+    for (const [key, secret] of Object.entries(declaredSecrets)) {
+      if (secret?.required && secrets !== "inherit" && !(key in secrets)) {
+        console.warn(`Warning: Required secret "${key}" is missing for workflow ${workflow.uses}`);
+      }
+    }
+  }
+
   /**
    * Adds step(s) to this job.
    *
@@ -152,11 +324,56 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
    * @param outputs - Job output definitions
    * @stability stable
    */
-  outputs<TOutputKeys extends Record<string, string>>(
+  outputs<TOutputKeys extends Record<string, ExpressionLike>>(
     outputs: TOutputKeys
-  ): Job<TOutputs & TOutputKeys> {
-    this.job.outputs = { ...this.job.outputs, ...outputs };
-    return this as unknown as Job<TOutputs & TOutputKeys>;
+  ): Job<TOutputs & { [K in keyof TOutputKeys]: string }, TServices> {
+    this.job.outputs = { ...this.job.outputs, ...resolveExpressions(outputs) };
+    return this as unknown as Job<TOutputs & { [K in keyof TOutputKeys]: string }, TServices>;
+  }
+
+  /**
+   * Runs the job's steps in a container.
+   *
+   * @param image - The Docker image, e.g. "node:20"
+   * @param options - Credentials, environment variables, ports, volumes and `docker create` options
+   * @stability stable
+   */
+  container(image: ExpressionLike, options?: IContainerOptions): this {
+    this.job.container = toContainer(image, options);
+    return this;
+  }
+
+  /**
+   * Adds a service container, e.g. a database the steps connect to.
+   *
+   * The exposed ports are tracked by type: `job.services.postgres.ports[5432]` is the host port
+   * that container port 5432 was mapped to, and ports that were not exposed do not compile.
+   *
+   * @param name - The service id, also the host name of the service on the job's network
+   * @param image - The Docker image, e.g. "postgres:16"
+   * @param options - Credentials, environment variables, ports, volumes and `docker create` options
+   * @stability stable
+   */
+  service<TName extends string, const TOptions extends IContainerOptions = Record<never, never>>(
+    name: TName,
+    image: ExpressionLike,
+    options?: TOptions
+  ): Job<TOutputs, WithService<TServices, TName, ContainerPort<PortsOf<TOptions>>>> {
+    this.job.services = { ...this.job.services, [name]: toContainer(image, options) };
+    return this as unknown as Job<
+      TOutputs,
+      WithService<TServices, TName, ContainerPort<PortsOf<TOptions>>>
+    >;
+  }
+
+  /**
+   * The `job.services` context, typed by the services added with `service()`:
+   * `job.services.redis.ports[6379]` is the host port mapped to the service's port 6379.
+   *
+   * @stability stable
+   */
+  get services(): JobServicesOf<this> {
+    return createContext<JobServicesOf<this>>("job.services");
   }
 
   /**
@@ -165,8 +382,8 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
    * @param variables - Environment variables
    * @stability stable
    */
-  env(variables: { [key: string]: string }): this {
-    this.job.env = { ...this.job.env, ...variables };
+  env(variables: { [key: string]: ExpressionLike }): this {
+    this.job.env = { ...this.job.env, ...resolveExpressions(variables) };
     return this;
   }
 
@@ -195,11 +412,14 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
   /**
    * Sets the build matrix strategy for this job.
    *
-   * @param strategy - Build matrix strategy
+   * @param strategy - Build matrix strategy; the matrix can be a `Matrix`, whose `context`
+   * types the `matrix` context
    * @stability stable
    */
-  strategy(strategy: IJobStrategy): this {
-    this.job.strategy = strategy;
+  strategy(strategy: IJobStrategyOptions): this {
+    const { matrix, ...options } = strategy;
+    this.job.strategy =
+      matrix === undefined ? options : { ...options, matrix: toMatrixConfig(matrix) };
     return this;
   }
 
@@ -215,20 +435,66 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
   }
 
   /**
-   * Sets concurrency settings for this job.
+   * Sets the token permissions of this job, instead of the workflow's.
+   *
+   * @param permissions - Permissions by scope, or "read-all" / "write-all"
+   * @stability stable
+   */
+  permissions(permissions: PermissionsLike): this {
+    this.job.permissions = permissions;
+    return this;
+  }
+
+  /**
+   * Sets concurrency settings for this job. See `concurrencyPerBranch()` and the other
+   * helpers for common groups. The group must differ from the workflow's concurrency group.
    *
    * @param group - Concurrency group name
-   * @param cancelInProgress - Whether to cancel in-progress runs
+   * @param cancelInProgress - Whether to cancel in-progress runs, or an expression deciding it,
+   * e.g. `cancelInProgressExcept(["main"])`
    * @stability stable
    */
-  concurrency(group: string, cancelInProgress?: boolean): this {
+  concurrency(group: ExpressionLike, cancelInProgress?: boolean | ExpressionLike): this {
     this.job.concurrency = {
-      group,
-      "cancel-in-progress": cancelInProgress,
-    } as IJobConcurrency;
+      group: resolveExpression(group),
+      "cancel-in-progress":
+        cancelInProgress instanceof Expression ? cancelInProgress.toString() : cancelInProgress,
+    };
+    return this;
+  }
+
+  /**
+   * Sets the deployment environment of this job. The job waits for the environment's
+   * protection rules and can use its secrets and variables.
+   *
+   * Names are checked against the environments declared with `workflow.environments()`.
+   *
+   * @param name - The environment name, e.g. "production" or `${{ inputs.environment }}`
+   * @param options - The deployment URL, e.g. `steps.deploy.outputs.url`
+   * @stability stable
+   */
+  environment(name: ExpressionLike, options: IJobEnvironmentOptions = {}): this {
+    this.job.environment =
+      options.url === undefined
+        ? resolveExpression(name)
+        : { name: resolveExpression(name), url: resolveExpression(options.url) };
     return this;
   }
 
+  /**
+   * Get the job configuration without validating its steps, for `workflow.validate()`.
+   *
+   * @param workflowShell - The workflow's `defaults.run.shell`
+   * @internal
+   */
+  _getConfig(workflowShell?: Shell): IJob {
+    if (this.callsWorkflow()) {
+      return { ...this.job };
+    }
+    const defaultShell = this.defaultShell(workflowShell);
+    return { ...this.job, steps: this.stepInstances.map((step) => step._getConfig(defaultShell)) };
+  }
+
   /**
    * Converts the job to JSON configuration.
    *
@@ -236,8 +502,36 @@ export class Job<TOutputs extends Record<string, string> = Record<string, never>
    * @stability stable
    */
   toJSON(): IJob {
+    return this._toJSON();
+  }
+
+  /**
+   * Converts the job to JSON configuration, with `runScript()` scripts rendered for the job's
+   * default shell, or else the workflow's.
+   *
+   * @param workflowShell - The workflow's `defaults.run.shell`
+   * @internal
+   */
+  _toJSON(workflowShell?: Shell): IJob {
     // Convert step instances to JSON
-    this.job.steps = this.stepInstances.map((step) => step.toJSON());
+    if (!this.callsWorkflow()) {
+      const defaultShell = this.defaultShell(workflowShell);
+      this.job.steps = this.stepInstances.map((step) => step._toJSON(defaultShell));
+    }
     return { ...this.job };
   }
+
+  /**
+   * The shell of run steps that set none: the job's default shell, or else the workflow's.
+   */
+  private defaultShell(workflowShell: Shell | undefined): Shell | undefined {
+    return this.job.defaults?.run?.shell ?? workflowShell;
+  }
+
+  /**
+   * Whether the job calls a reusable workflow and has no steps, which then are omitted.
+   */
+  private callsWorkflow(): boolean {
+    return this.job.uses !== undefined && this.stepInstances.length === 0;
+  }
 }
@@ -0,0 +1,284 @@
+import { type DynamicContext, type TypedContext, createContext } from "./contexts.js";
+import {
+  Expression,
+  type ExpressionLike,
+  type TypedExpression,
+  fromJSON,
+  resolveExpression,
+} from "./expressions.js";
+import type { IMatrixConfig, MatrixCombination, MatrixValue } from "./types.js";
+
+/**
+ * Typed builder for `strategy.matrix`, and the expansion of a matrix into its job combinations.
+ * See https://docs.github.com/en/actions/using-jobs/using-a-matrix-for-your-jobs
+ */
+
+const EXPRESSION_REGEX = /^\$\{\{\s*([\s\S]+?)\s*\}\}$/;
+const MATRIX_KEYWORDS = new Set(["include", "exclude"]);
+
+/**
+ * The values of a matrix after adding the entry `TEntry` with `include()`.
+ */
+type WithEntry<TValues, TEntry> = {
+  [K in keyof TValues | keyof TEntry]:
+    | (K extends keyof TValues ? TValues[K] : never)
+    | (K extends keyof TEntry ? TEntry[K] : never);
+};
+
+/**
+ * The expression type of a matrix value: typed comparisons for strings, numbers and booleans,
+ * typed properties for objects.
+ * @stability stable
+ */
+export type MatrixProperty<TValue> = unknown extends TValue
+  ? DynamicContext
+  : [TValue] extends [string | number | boolean]
+    ? TypedExpression<TValue>
+    : TValue extends object
+      ? TypedContext<TValue>
+      : DynamicContext;
+
+/**
+ * The `matrix` context of a matrix with the values `TValues` (key to the union of its values).
+ * When the values are not known, e.g. for `Matrix.fromJSON()`, any key may be accessed.
+ * @stability stable
+ */
+export type MatrixContext<TValues> = string extends keyof TValues
+  ? DynamicContext
+  : Expression & { readonly [K in keyof TValues]-?: MatrixProperty<TValues[K]> };
+
+/**
+ * A matrix with values of any types, such as the matrix of `job.strategy()`. Its context has
+ * no known keys, so that every `Matrix` is one.
+ * @stability stable
+ */
+export type UntypedMatrix = Matrix<Record<never, never>>;
+
+/**
+ * The combinations a matrix expands to.
+ * @stability stable
+ */
+export interface IMatrixExpansion {
+  /** The job combinations, in the order GitHub Actions creates them */
+  readonly combinations: MatrixCombination[];
+  /** Indexes of the `exclude` entries that match no combination */
+  readonly unmatchedExcludes: number[];
+}
+
+function sameValue(value: MatrixValue | undefined, other: MatrixValue | undefined): boolean {
+  if (typeof value !== "object" || typeof other !== "object") {
+    return value === other;
+  }
+  const keys = Object.keys(value);
+  return (
+    keys.length === Object.keys(other).length &&
+    keys.every((key) => sameValue(value[key], other[key]))
+  );
+}
+
+/** Whether a combination has every value of a (partial) entry */
+function matchesEntry(combination: MatrixCombination, entry: MatrixCombination): boolean {
+  return Object.entries(entry).every(([key, value]) => sameValue(combination[key], value));
+}
+
+/**
+ * Expand a matrix into its job combinations the way GitHub Actions does: the cartesian product
+ * of the axes, without the combinations an `exclude` entry matches; an `include` entry is added
+ * to every combination whose axis values it does not overwrite, or becomes a combination of its
+ * own when there is none.
+ *
+ * @param matrix - The matrix configuration
+ * @returns The expansion, or undefined when the matrix depends on expressions
+ * @stability stable
+ */
+export function expandMatrix(matrix: IMatrixConfig | string): IMatrixExpansion | undefined {
+  if (typeof matrix === "string") {
+    return undefined;
+  }
+  const { include = [], exclude = [], ...axes } = matrix;
+  const axisValues = Object.entries(axes);
+  if (
+    typeof include === "string" ||
+    typeof exclude === "string" ||
+    axisValues.some(([, values]) => !Array.isArray(values))
+  ) {
+    return undefined;
+  }
+
+  let product: MatrixCombination[] = axisValues.length > 0 ? [{}] : [];
+  for (const [axis, values] of axisValues as [string, MatrixValue[]][]) {
+    product = product.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [axis]: value }))
+    );
+  }
+  const unmatchedExcludes = exclude.flatMap((entry, index) =>
+    product.some((combination) => matchesEntry(combination, entry)) ? [] : [index]
+  );
+  const combinations = product.filter(
+    (combination) => !exclude.some((entry) => matchesEntry(combination, entry))
+  );
+
+  const axisNames = axisValues.map(([axis]) => axis);
+  const added: MatrixCombination[] = [];
+  for (const entry of include) {
+    const axisEntry = Object.fromEntries(
+      Object.entries(entry).filter(([key]) => axisNames.includes(key))
+    );
+    const targets = combinations.filter((combination) => matchesEntry(combination, axisEntry));
+    for (const combination of targets) {
+      Object.assign(combination, entry);
+    }
+    if (targets.length === 0) {
+      added.push({ ...entry });
+    }
+  }
+  return { combinations: [...combinations, ...added], unmatchedExcludes };
+}
+
+/**
+ * Converts a `Matrix`, matrix configuration or expression to the `strategy.matrix` configuration.
+ * @internal
+ */
+export function toMatrixConfig(
+  // biome-ignore lint/suspicious/noExplicitAny: Matrices with any values
+  matrix: Matrix<any> | IMatrixConfig | ExpressionLike
+): IMatrixConfig | string {
+  if (matrix instanceof Matrix) {
+    return matrix.toJSON();
+  }
+  return typeof matrix === "string" || matrix instanceof Expression
+    ? resolveExpression(matrix)
+    : matrix;
+}
+
+/**
+ * A job matrix. Its axes type the `matrix` context: `matrix.context.os` only exists when `os`
+ * is an axis (or an `include` key) and compares with the axis' values.
+ *
+ * ```typescript
+ * const matrix = Matrix.of({ os: ["ubuntu-latest", "windows-latest"], node: [20, 22] })
+ *   .include({ os: "ubuntu-latest", node: 24, experimental: true })
+ *   .exclude({ os: "windows-latest", node: 20 });
+ * workflow.addJob("test", (job) =>
+ *   job
+ *     .runsOn(matrix.context.os)
+ *     .strategy({ matrix, "fail-fast": false })
+ *     .addStep((step) => step.if(matrix.context.experimental.ne(true)).run("npm test"))
+ * );
+ * ```
+ *
+ * @stability stable
+ */
+export class Matrix<TValues = Record<string, MatrixValue>> {
+  /**
+   * A matrix with the given axes: the values of each axis, or an expression evaluating
+   * to them, e.g. `${{ fromJSON(needs.setup.outputs.versions) }}`.
+   *
+   * @param axes - The axes by name
+   * @stability stable
+   */
+  static of<const TAxes extends { [axis: string]: readonly MatrixValue[] | ExpressionLike }>(
+    axes: TAxes
+  ): Matrix<{ [K in keyof TAxes]: TAxes[K] extends readonly (infer V)[] ? V : unknown }> {
+    for (const axis of Object.keys(axes)) {
+      if (MATRIX_KEYWORDS.has(axis)) {
+        throw new Error(`Invalid matrix axis "${axis}": use ${axis}() instead`);
+      }
+    }
+    const config = Object.fromEntries(
+      Object.entries(axes).map(([axis, values]) => [
+        axis,
+        Array.isArray(values) ? [...values] : resolveExpression(values as ExpressionLike),
+      ])
+    );
+    return new Matrix(config as IMatrixConfig);
+  }
+
+  /**
+   * A matrix computed by an earlier job, e.g. `Matrix.fromJSON(setup.outputs.matrix)` for a job
+   * output holding the matrix as JSON. Its values are not known, so any key may be accessed.
+   *
+   * @param value - An expression evaluating to the matrix as JSON
+   * @stability stable
+   */
+  static fromJSON(value: ExpressionLike): Matrix<Record<string, unknown>> {
+    if (value instanceof Expression) {
+      return new Matrix(fromJSON(value).toString());
+    }
+    const match = value.match(EXPRESSION_REGEX);
+    if (!match) {
+      throw new Error(
+        `Matrix.fromJSON() expects an expression such as "\${{ needs.setup.outputs.matrix }}", got "${value}"`
+      );
+    }
+    return new Matrix(`\${{ fromJSON(${match[1]}) }}`);
+  }
+
+  private readonly config: IMatrixConfig | string;
+
+  private constructor(config: IMatrixConfig | string) {
+    this.config = config;
+  }
+
+  /**
+   * Adds an `include` entry: its values are added to every combination whose axis values it
+   * does not overwrite, or it becomes a combination of its own when there is none.
+   *
+   * @param entry - The values to include
+   * @stability stable
+   */
+  include<const TEntry extends { [key: string]: MatrixValue }>(
+    entry: TEntry
+  ): Matrix<WithEntry<TValues, TEntry>> {
+    this.entries("include").push(entry);
+    return this as unknown as Matrix<WithEntry<TValues, TEntry>>;
+  }
+
+  /**
+   * Adds an `exclude` entry: combinations with all of its values are not run.
+   * Entries matching no combination are reported when the workflow is validated.
+   *
+   * @param entry - The values of the combinations to exclude
+   * @stability stable
+   */
+  exclude(entry: { [K in keyof TValues]?: TValues[K] }): this {
+    this.entries("exclude").push(entry as MatrixCombination);
+    return this;
+  }
+
+  /**
+   * The `matrix` context, typed by the axes and `include` keys, for `runs-on`, step `with`,
+   * `if` conditions and everything else evaluated per combination.
+   *
+   * @stability stable
+   */
+  get context(): MatrixContext<TValues> {
+    return createContext<MatrixContext<TValues>>("matrix");
+  }
+
+  /**
+   * The combinations the matrix expands to; undefined when it depends on expressions.
+   * @stability stable
+   */
+  expand(): IMatrixExpansion | undefined {
+    return expandMatrix(this.config);
+  }
+
+  /**
+   * The `strategy.matrix` configuration.
+   * @stability stable
+   */
+  toJSON(): IMatrixConfig | string {
+    return this.config;
+  }
+
+  private entries(keyword: "include" | "exclude"): MatrixCombination[] {
+    if (typeof this.config === "string") {
+      throw new Error(`${keyword}() does not apply to a matrix from an expression`);
+    }
+    if (!Array.isArray(this.config[keyword])) {
+      this.config[keyword] = [];
+    }
+    return this.config[keyword] as MatrixCombination[];
+  }
+}
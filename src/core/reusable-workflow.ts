@@ -0,0 +1,206 @@
+import type { Expression, ExpressionLike } from "./expressions.js";
+import type { IWorkflowCallOptions, IWorkflowDispatchInput } from "./types.js";
+import type { Workflow } from "./workflow.js";
+
+/**
+ * Reusable workflows (`workflow_call`) and the arguments of jobs that call them.
+ * See https://docs.github.com/en/actions/using-workflows/reusing-workflows
+ */
+
+const WHITESPACE_REGEX = /\s+/g;
+const LOCAL_WORKFLOW_REGEX = /^\.\/\.github\/workflows\/[^/]+\.ya?ml$/;
+const REMOTE_WORKFLOW_REGEX = /^[\w.-]+\/[\w.-]+\/\.github\/workflows\/[^/@]+\.ya?ml@\S+$/;
+
+/**
+ * Resolve the output file name for a workflow.
+ * Uses the provided filename or generates one from the workflow name.
+ * @internal
+ */
+export function workflowFilename(workflowName: string | undefined, filename?: string): string {
+  const name = filename || workflowName || "workflow";
+  return name.endsWith(".yml") ? name : `${name.toLowerCase().replace(WHITESPACE_REGEX, "-")}.yml`;
+}
+
+/**
+ * Test whether a job-level `uses` references a reusable workflow in the same repository
+ * (`./.github/workflows/x.yml`) or another one (`owner/repo/.github/workflows/x.yml@ref`).
+ * @internal
+ */
+export function isWorkflowReference(uses: string): boolean {
+  return LOCAL_WORKFLOW_REGEX.test(uses) || REMOTE_WORKFLOW_REGEX.test(uses);
+}
+
+/**
+ * The inputs declared by a `workflow_call` definition.
+ * @stability stable
+ */
+export type WorkflowCallInputs<TCall> = TCall extends { inputs?: infer TInputs }
+  ? TInputs extends object
+    ? TInputs
+    : Record<never, never>
+  : Record<never, never>;
+
+/** Inputs that must be passed: required and without a default */
+type RequiredInputs<TInputs> = {
+  [K in keyof TInputs]: TInputs[K] extends { required: true }
+    ? TInputs[K] extends { default: unknown }
+      ? never
+      : K
+    : never;
+}[keyof TInputs];
+
+type InputValue<TInput> = TInput extends { type: "boolean" }
+  ? boolean | Expression
+  : TInput extends { type: "number" }
+    ? number | Expression
+    : TInput extends { type: "string" }
+      ? ExpressionLike
+      : ExpressionLike | number | boolean;
+
+type SecretNames<TCall> = TCall extends { secrets?: infer TSecrets }
+  ? TSecrets extends readonly (infer TName extends string)[]
+    ? TName
+    : keyof TSecrets & string
+  : never;
+
+type RequiredSecrets<TCall> = TCall extends { secrets?: infer TSecrets }
+  ? TSecrets extends readonly unknown[]
+    ? never
+    : {
+        [K in keyof TSecrets]: TSecrets[K] extends { required: true } ? K : never;
+      }[keyof TSecrets] &
+        string
+  : never;
+
+/**
+ * The `with` of a job calling a workflow with the `workflow_call` definition `TCall`.
+ * @stability stable
+ */
+export type WorkflowCallWith<TCall> = {
+  [K in RequiredInputs<WorkflowCallInputs<TCall>>]: InputValue<WorkflowCallInputs<TCall>[K]>;
+} & {
+  [K in Exclude<
+    keyof WorkflowCallInputs<TCall>,
+    RequiredInputs<WorkflowCallInputs<TCall>>
+  >]?: InputValue<WorkflowCallInputs<TCall>[K]>;
+};
+
+/**
+ * The `secrets` of a job calling a workflow with the `workflow_call` definition `TCall`:
+ * the secrets by name, or "inherit" to pass all secrets of the calling workflow.
+ * @stability stable
+ */
+export type WorkflowCallSecrets<TCall> =
+  | "inherit"
+  | ({ [K in RequiredSecrets<TCall>]: ExpressionLike } & {
+      [K in Exclude<SecretNames<TCall>, RequiredSecrets<TCall>>]?: ExpressionLike;
+    });
+
+/**
+ * Arguments of `job.uses()`. `with` and `secrets` are required when the called workflow
+ * declares required inputs or secrets.
+ * @stability stable
+ */
+export type WorkflowCallArguments<TCall> = ([RequiredInputs<WorkflowCallInputs<TCall>>] extends [
+  never,
+]
+  ? { with?: WorkflowCallWith<TCall> }
+  : { with: WorkflowCallWith<TCall> }) &
+  ([RequiredSecrets<TCall>] extends [never]
+    ? { secrets?: WorkflowCallSecrets<TCall> }
+    : { secrets: WorkflowCallSecrets<TCall> });
+
+/**
+ * The outputs of a job calling a workflow with the `workflow_call` definition `TCall`.
+ * @stability stable
+ */
+export type WorkflowCallOutputs<TCall> = TCall extends { outputs?: infer TOutputs }
+  ? TOutputs extends object
+    ? { [K in keyof TOutputs & string]: string }
+    : Record<never, never>
+  : Record<never, never>;
+
+/**
+ * A reusable workflow that jobs can call with `job.uses()`: a `ReusableWorkflow` or a
+ * workflow class generated by `ts-actions import-workflow`.
+ * @stability stable
+ */
+export interface IReusableWorkflow<TCall extends IWorkflowCallOptions = IWorkflowCallOptions> {
+  /** The reference used as the caller job's `uses` */
+  readonly uses: string;
+  /** The `workflow_call` definition, when known */
+  readonly definition?: TCall;
+}
+
+/**
+ * A reusable workflow that jobs can call with `job.uses()`.
+ *
+ * ```typescript
+ * const deploy = new Workflow("Deploy").onWorkflowCall({
+ *   inputs: { environment: { description: "Target", required: true, type: "string" } },
+ *   outputs: { url: { description: "URL", value: "${{ jobs.deploy.outputs.url }}" } },
+ * });
+ * workflow.addJob("deploy", (job) =>
+ *   job.uses(ReusableWorkflow.of(deploy), { with: { environment: "production" } })
+ * );
+ * ```
+ *
+ * @stability stable
+ */
+export class ReusableWorkflow<TCall extends IWorkflowCallOptions = IWorkflowCallOptions>
+  implements IReusableWorkflow<TCall>
+{
+  /**
+   * References a workflow of this project, synthesized to `.github/workflows/`.
+   * Its `onWorkflowCall()` definition types the caller's `with`, `secrets` and outputs.
+   *
+   * @param workflow - A workflow with a `workflow_call` trigger
+   * @param filename - The workflow's file name, when synthesized with an explicit one
+   * @stability stable
+   */
+  static of<TCall extends IWorkflowCallOptions>(
+    workflow: Workflow<string, Record<string, IWorkflowDispatchInput>, TCall>,
+    filename?: string
+  ): ReusableWorkflow<TCall> {
+    const definition = workflow._getTrigger("workflow_call");
+    if (definition === undefined) {
+      throw new Error(
+        `Workflow "${workflow._getName() ?? "(unnamed)"}" has no workflow_call trigger; call onWorkflowCall() to make it reusable`
+      );
+    }
+    return new ReusableWorkflow(
+      `./.github/workflows/${workflowFilename(workflow._getName(), filename)}`,
+      definition as TCall
+    );
+  }
+
+  /**
+   * References a reusable workflow by path: `./.github/workflows/x.yml` in the same
+   * repository or `owner/repo/.github/workflows/x.yml@ref` in another one.
+   *
+   * @param uses - The workflow reference
+   * @param definition - The workflow's `workflow_call` definition, to type the caller
+   * @stability stable
+   */
+  static at<const TCall extends IWorkflowCallOptions = IWorkflowCallOptions>(
+    uses: string,
+    definition?: TCall
+  ): ReusableWorkflow<TCall> {
+    return new ReusableWorkflow(uses, definition);
+  }
+
+  /** The reference used as the caller job's `uses` */
+  readonly uses: string;
+  /** The `workflow_call` definition, when known */
+  readonly definition: TCall | undefined;
+
+  private constructor(uses: string, definition: TCall | undefined) {
+    if (!isWorkflowReference(uses)) {
+      throw new Error(
+        `Invalid reusable workflow "${uses}": expected ./.github/workflows/<file>.yml or <owner>/<repo>/.github/workflows/<file>.yml@<ref>`
+      );
+    }
+    this.uses = uses;
+    this.definition = definition;
+  }
+}
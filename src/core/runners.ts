@@ -0,0 +1,157 @@
+import { getConfig } from "../config/config.js";
+import type {
+  GitHubHostedRunner,
+  IJob,
+  IRunnerDefinition,
+  IRunnerInfo,
+  RunnerArch,
+  RunnerOS,
+} from "./types.js";
+
+/**
+ * The runner catalog: GitHub-hosted runners with fixed labels, and the project's runners
+ * declared in the config's `runners`.
+ * See https://docs.github.com/en/actions/using-github-hosted-runners/about-github-hosted-runners
+ */
+
+const EXPRESSION_MARKER = "${{";
+const OS_LABELS: Readonly<Record<string, RunnerOS>> = {
+  linux: "linux",
+  windows: "windows",
+  macos: "macos",
+};
+const ARCH_LABELS: Readonly<Record<string, RunnerArch>> = { x64: "x64", arm64: "arm64" };
+
+/**
+ * Operating system and architecture of the GitHub-hosted runners, by label.
+ * @stability stable
+ */
+export const GITHUB_HOSTED_RUNNERS: Readonly<
+  Record<GitHubHostedRunner, { readonly os: RunnerOS; readonly arch: RunnerArch }>
+> = {
+  "ubuntu-latest": { os: "linux", arch: "x64" },
+  "ubuntu-24.04": { os: "linux", arch: "x64" },
+  "ubuntu-22.04": { os: "linux", arch: "x64" },
+  "ubuntu-24.04-arm": { os: "linux", arch: "arm64" },
+  "ubuntu-22.04-arm": { os: "linux", arch: "arm64" },
+  "windows-latest": { os: "windows", arch: "x64" },
+  "windows-2025": { os: "windows", arch: "x64" },
+  "windows-2022": { os: "windows", arch: "x64" },
+  "windows-11-arm": { os: "windows", arch: "arm64" },
+  "macos-latest": { os: "macos", arch: "arm64" },
+  "macos-15": { os: "macos", arch: "arm64" },
+  "macos-14": { os: "macos", arch: "arm64" },
+  "macos-13": { os: "macos", arch: "x64" },
+  "macos-latest-large": { os: "macos", arch: "x64" },
+  "macos-15-large": { os: "macos", arch: "x64" },
+  "macos-14-large": { os: "macos", arch: "x64" },
+  "macos-13-large": { os: "macos", arch: "x64" },
+  "macos-latest-xlarge": { os: "macos", arch: "arm64" },
+  "macos-15-xlarge": { os: "macos", arch: "arm64" },
+  "macos-14-xlarge": { os: "macos", arch: "arm64" },
+  "macos-13-xlarge": { os: "macos", arch: "arm64" },
+};
+
+/** A `runs-on` value as a group and lowercase labels */
+interface IRunnerSelection {
+  readonly group?: string;
+  readonly labels: string[];
+}
+
+function toSelection(runsOn: NonNullable<IJob["runs-on"]>): IRunnerSelection {
+  if (typeof runsOn === "string" || Array.isArray(runsOn)) {
+    return { labels: [runsOn].flat().map((label) => label.toLowerCase()) };
+  }
+  return {
+    group: runsOn.group,
+    labels: [runsOn.labels ?? []].flat().map((label) => label.toLowerCase()),
+  };
+}
+
+/** The labels of a declared runner, including the ones GitHub gives self-hosted runners */
+function definitionLabels(runner: IRunnerDefinition): string[] {
+  const labels = runner.labels.map((label) => label.toLowerCase());
+  return runner.hosted ? labels : [...labels, "self-hosted", runner.os, runner.arch];
+}
+
+function hostedRunner(selection: IRunnerSelection): IRunnerInfo | undefined {
+  const [label] = selection.labels;
+  const hosted =
+    selection.group === undefined && selection.labels.length === 1
+      ? GITHUB_HOSTED_RUNNERS[label as GitHubHostedRunner]
+      : undefined;
+  return hosted && { ...hosted, hosted: true };
+}
+
+/**
+ * The declared runners a `runs-on` value selects, or undefined when it cannot be checked:
+ * it holds expressions or selects a GitHub-hosted runner.
+ * @internal
+ */
+export function matchRunners(
+  runsOn: NonNullable<IJob["runs-on"]>,
+  runners: readonly IRunnerDefinition[]
+): IRunnerDefinition[] | undefined {
+  const selection = toSelection(runsOn);
+  if (
+    selection.group?.includes(EXPRESSION_MARKER) ||
+    selection.labels.some((label) => label.includes(EXPRESSION_MARKER)) ||
+    hostedRunner(selection)
+  ) {
+    return undefined;
+  }
+  return runners.filter(
+    (runner) =>
+      (selection.group === undefined || runner.group === selection.group) &&
+      selection.labels.every((label) => definitionLabels(runner).includes(label))
+  );
+}
+
+/**
+ * What a runner without a declaration tells about itself through the labels GitHub gives
+ * self-hosted runners, e.g. `["self-hosted", "linux", "arm64"]`.
+ */
+function labeledRunner(selection: IRunnerSelection): IRunnerInfo | undefined {
+  const labels = selection.labels.map((label) => label.toLowerCase());
+  const os = labels.map((label) => OS_LABELS[label]).find(Boolean);
+  const arch = labels.map((label) => ARCH_LABELS[label]).find(Boolean);
+  return os && arch && labels.includes("self-hosted") ? { os, arch, hosted: false } : undefined;
+}
+
+/**
+ * The operating system and architecture of the runner a `runs-on` value selects: a
+ * GitHub-hosted runner, the declared runners it matches when they agree, or its self-hosted
+ * OS and architecture labels.
+ *
+ * @param runsOn - The job's `runs-on`
+ * @param runners - The declared runners (default: the config's `runners`)
+ * @returns What is known about the runner; undefined when `runs-on` holds expressions or
+ * the runner is not known
+ * @stability stable
+ */
+export function describeRunner(
+  runsOn: IJob["runs-on"],
+  runners: readonly IRunnerDefinition[] = getConfig().runners
+): IRunnerInfo | undefined {
+  if (runsOn === undefined) {
+    return undefined;
+  }
+  const selection = toSelection(runsOn);
+  const matches = matchRunners(runsOn, runners);
+  if (matches === undefined) {
+    return hostedRunner(selection);
+  }
+  const [first] = matches;
+  if (
+    first &&
+    matches.every(
+      (runner) =>
+        runner.os === first.os &&
+        runner.arch === first.arch &&
+        Boolean(runner.hosted) === Boolean(first.hosted)
+    )
+  ) {
+    return { os: first.os, arch: first.arch, hosted: Boolean(first.hosted) };
+  }
+  return labeledRunner(selection);
+}
@@ -0,0 +1,287 @@
+import { MINIMUM_INTERVAL_MINUTES } from "./cron.js";
+
+/**
+ * Fluent builder for the cron expressions of `schedule` triggers.
+ */
+
+const TIME_REGEX = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Dates in winter and summer of a fixed year, so that the standard time offset of a time zone
+ * does not depend on the day of synthesis
+ */
+const STANDARD_TIME_DATES = [
+  new Date(Date.UTC(2025, 0, 1, 12)),
+  new Date(Date.UTC(2025, 6, 1, 12)),
+];
+
+/**
+ * A day of the week.
+ * @stability stable
+ */
+export type Weekday =
+  | "sunday"
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday";
+
+const WEEKDAYS: readonly Weekday[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/**
+ * Format sorted values as a cron list, with runs of three or more as ranges, e.g. "1-5".
+ */
+function cronList(values: number[]): string {
+  const parts: string[] = [];
+  let start = 0;
+  while (start < values.length) {
+    let end = start;
+    while (end + 1 < values.length && values[end + 1] === values[end] + 1) {
+      end++;
+    }
+    parts.push(
+      end - start >= 2 ? `${values[start]}-${values[end]}` : values.slice(start, end + 1).join(",")
+    );
+    start = end + 1;
+  }
+  return parts.join(",");
+}
+
+/**
+ * The offset of a time zone from UTC at the given date, in minutes.
+ */
+function timeZoneOffset(timeZone: string, date: Date): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    }).formatToParts(date);
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((candidate) => candidate.type === type)?.value);
+  const localAsUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+  const utcMinute = Math.floor(date.getTime() / 60_000) * 60_000;
+  return Math.round((localAsUtc - utcMinute) / 60_000);
+}
+
+/**
+ * The standard time offset of a time zone from UTC, in minutes: the smaller of its offsets in
+ * January and July, outside daylight saving time on either hemisphere.
+ */
+function standardTimeOffset(timeZone: string): number {
+  return Math.min(...STANDARD_TIME_DATES.map((date) => timeZoneOffset(timeZone, date)));
+}
+
+/**
+ * A schedule for `workflow.onSchedule()`, built from readable parts instead of a cron string.
+ *
+ * ```typescript
+ * workflow.onSchedule(Schedule.weekdays().at("06:30"));            // "30 6 * * 1-5"
+ * workflow.onSchedule(Schedule.daily().at("02:00").inTimeZone("Europe/Berlin"));
+ * ```
+ *
+ * @stability stable
+ */
+export class Schedule {
+  /**
+   * Runs every `interval` minutes. GitHub Actions runs schedules at most every 5 minutes.
+   *
+   * @param interval - Minutes between runs, a divisor of 60 of at least 5
+   * @stability stable
+   */
+  static everyMinutes(interval: number): Schedule {
+    if (!Number.isInteger(interval) || interval < MINIMUM_INTERVAL_MINUTES || 60 % interval !== 0) {
+      throw new Error(
+        `Invalid interval ${interval}: must be a divisor of 60 of at least ${MINIMUM_INTERVAL_MINUTES}`
+      );
+    }
+    return new Schedule(`*/${interval}`);
+  }
+
+  /**
+   * Runs every hour.
+   *
+   * @param minute - Minute past the hour (default 0)
+   * @stability stable
+   */
+  static hourly(minute = 0): Schedule {
+    if (!Number.isInteger(minute) || minute < 0 || minute > 59) {
+      throw new Error(`Invalid minute ${minute}: must be 0-59`);
+    }
+    return new Schedule(String(minute));
+  }
+
+  /**
+   * Runs every day, at midnight unless `at()` sets a time.
+   * @stability stable
+   */
+  static daily(): Schedule {
+    return new Schedule();
+  }
+
+  /**
+   * Runs Monday through Friday.
+   * @stability stable
+   */
+  static weekdays(): Schedule {
+    return Schedule.weekly("monday", "tuesday", "wednesday", "thursday", "friday");
+  }
+
+  /**
+   * Runs on Saturday and Sunday.
+   * @stability stable
+   */
+  static weekends(): Schedule {
+    return Schedule.weekly("saturday", "sunday");
+  }
+
+  /**
+   * Runs on the given days of the week.
+   *
+   * @param days - The days to run on
+   * @stability stable
+   */
+  static weekly(...days: Weekday[]): Schedule {
+    if (days.length === 0) {
+      throw new Error("Schedule.weekly() needs at least one day");
+    }
+    const schedule = new Schedule();
+    schedule.daysOfWeek = days.map((day) => WEEKDAYS.indexOf(day));
+    return schedule;
+  }
+
+  /**
+   * Runs once a month.
+   *
+   * @param dayOfMonth - Day of the month, 1-31 (default 1)
+   * @stability stable
+   */
+  static monthly(dayOfMonth = 1): Schedule {
+    if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+      throw new Error(`Invalid day of month ${dayOfMonth}: must be 1-31`);
+    }
+    const schedule = new Schedule();
+    schedule.dayOfMonth = dayOfMonth;
+    return schedule;
+  }
+
+  /** Minute field of schedules that run several times a day */
+  private readonly minutes: string | undefined;
+  /** Time of day in minutes after midnight */
+  private timeOfDay = 0;
+  private daysOfWeek: number[] | undefined;
+  private dayOfMonth: number | undefined;
+  private timeZone: string | undefined;
+  private referenceDate: Date | undefined;
+
+  private constructor(minutes?: string) {
+    this.minutes = minutes;
+  }
+
+  /**
+   * Sets the time of day to run at, in UTC unless `inTimeZone()` is used.
+   *
+   * @param time - Time as "HH:MM" (24-hour clock)
+   * @stability stable
+   */
+  at(time: string): this {
+    if (this.minutes !== undefined) {
+      throw new Error("at() only applies to daily, weekly and monthly schedules");
+    }
+    const match = time.match(TIME_REGEX);
+    if (!match) {
+      throw new Error(`Invalid time "${time}": expected HH:MM`);
+    }
+    this.timeOfDay = Number(match[1]) * 60 + Number(match[2]);
+    return this;
+  }
+
+  /**
+   * Interprets the time of `at()` in a time zone; the cron expression is converted to UTC.
+   *
+   * Cron schedules cannot follow daylight saving time changes: the offset at `referenceDate`
+   * is used all year, by default the time zone's standard (winter) time, so that the cron
+   * expression does not depend on the day of synthesis.
+   *
+   * @param timeZone - IANA time zone name, e.g. "Europe/Berlin"
+   * @param referenceDate - Date whose UTC offset is used (default: standard time)
+   * @stability stable
+   */
+  inTimeZone(timeZone: string, referenceDate?: Date): this {
+    if (this.minutes !== undefined) {
+      throw new Error("inTimeZone() only applies to daily, weekly and monthly schedules");
+    }
+    this.referenceDate = referenceDate;
+    this.offset(timeZone);
+    this.timeZone = timeZone;
+    return this;
+  }
+
+  /**
+   * Builds the cron expression, in UTC.
+   *
+   * @throws Error when a monthly schedule moves to another day by the time zone conversion
+   * @stability stable
+   */
+  toCron(): string {
+    if (this.minutes !== undefined) {
+      return `${this.minutes} * * * *`;
+    }
+    const offset = this.timeZone ? this.offset(this.timeZone) : 0;
+    const utcTime = this.timeOfDay - offset;
+    const dayShift = Math.floor(utcTime / MINUTES_PER_DAY);
+    const time = utcTime - dayShift * MINUTES_PER_DAY;
+
+    if (this.dayOfMonth !== undefined && dayShift !== 0) {
+      throw new Error(
+        `Monthly schedule at ${this.timeZone} time falls on another day in UTC, which cron cannot express`
+      );
+    }
+    const dayOfMonth = this.dayOfMonth ?? "*";
+    const daysOfWeek = this.daysOfWeek
+      ? cronList(
+          [...new Set(this.daysOfWeek.map((day) => (day + dayShift + 7) % 7))].sort((a, b) => a - b)
+        )
+      : "*";
+    return `${time % 60} ${Math.floor(time / 60)} ${dayOfMonth} * ${daysOfWeek}`;
+  }
+
+  private offset(timeZone: string): number {
+    return this.referenceDate
+      ? timeZoneOffset(timeZone, this.referenceDate)
+      : standardTimeOffset(timeZone);
+  }
+
+  /**
+   * The cron expression, see `toCron()`.
+   * @stability stable
+   */
+  toString(): string {
+    return this.toCron();
+  }
+}
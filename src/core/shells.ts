@@ -0,0 +1,64 @@
+import type { KnownShell, Shell } from "./types.js";
+
+/**
+ * Shells of `run` steps and scripts rendered for them.
+ * See https://docs.github.com/en/actions/writing-workflows/workflow-syntax-for-github-actions#jobsjob_idstepsshell
+ */
+
+/** Lines starting a script, so that it stops at the first failing command */
+const SHELL_PREAMBLES: Readonly<Record<KnownShell, readonly string[]>> = {
+  bash: ["set -euo pipefail"],
+  sh: ["set -eu"],
+  pwsh: ["$ErrorActionPreference = 'Stop'", "$PSNativeCommandUseErrorActionPreference = $true"],
+  powershell: ["$ErrorActionPreference = 'Stop'"],
+  python: [],
+  cmd: ["@echo off"],
+};
+
+const KNOWN_SHELLS = Object.keys(SHELL_PREAMBLES);
+const LINE_BREAK_REGEX = /\r?\n/;
+
+/** cmd lines that continue onto the next line, or close a block, and cannot be followed by `||` */
+const CMD_CONTINUED_LINE_REGEX = /(?:\^|\()\s*$|^\s*\)|^\s*(?:rem\b|::|@echo\b)|^\s*$/i;
+
+/**
+ * cmd echo lines, e.g. `>> "%GITHUB_OUTPUT%" echo(name=value`: echo would write the space
+ * before an appended `||` as part of the text
+ */
+const CMD_ECHO_LINE_REGEX = /^\s*(?:>>?\s*"[^"]*"\s*)?echo[\s(.]/i;
+
+/**
+ * Whether a shell is a known shell or a custom command template with `{0}`.
+ * @internal
+ */
+export function isShell(shell: string): shell is Shell {
+  return KNOWN_SHELLS.includes(shell) || shell.includes("{0}");
+}
+
+/**
+ * Render the lines of a script for a shell: bash and sh scripts stop at the first failing
+ * command (`set -euo pipefail`, `set -eu`), PowerShell scripts at the first error
+ * (`$ErrorActionPreference`), and every cmd line but `echo` exits the script when it fails.
+ * Python and custom shells run the lines as they are.
+ *
+ * @param lines - The lines of the script
+ * @param shell - The shell running the script
+ * @returns The script
+ * @stability stable
+ */
+export function renderScript(lines: readonly string[], shell: Shell): string {
+  if (!KNOWN_SHELLS.includes(shell)) {
+    return lines.join("\n");
+  }
+  const body =
+    shell === "cmd"
+      ? lines
+          .flatMap((line) => line.split(LINE_BREAK_REGEX))
+          .map((line) =>
+            CMD_CONTINUED_LINE_REGEX.test(line) || CMD_ECHO_LINE_REGEX.test(line)
+              ? line
+              : `${line} || exit /b`
+          )
+      : lines;
+  return [...SHELL_PREAMBLES[shell as KnownShell], ...body].join("\n");
+}
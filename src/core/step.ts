@@ -1,20 +1,41 @@
 import { loadActionType } from "../actions/loader.js";
 import { parseActionReference } from "../actions/parser.js";
-import type { IActionClassType } from "../actions/types.js";
+import type { ActionOutputs, IActionClassType } from "../actions/types.js";
+import { createContext } from "./contexts.js";
+import {
+  type Expression,
+  type ExpressionLike,
+  resolveCondition,
+  resolveExpression,
+  resolveExpressions,
+} from "./expressions.js";
+import { renderScript } from "./shells.js";
 import type {
   GitHubExpression,
   ITypeScriptStepOptions,
+  Shell,
   TypeScriptFunction,
   ValidatedTypeScriptArgs,
 } from "./types.js";
 import type { IStep } from "./types.js";
 
+/**
+ * The outputs of a step with the outputs `TOutputs`, as expressions.
+ * @stability stable
+ */
+export type StepOutputsContext<TOutputs extends Record<string, string>> = {
+  readonly [K in keyof TOutputs]: Expression;
+};
+
 /**
  * A GitHub Actions step definition.
  *
+ * `TOutputs` are the step's outputs, read with `outputs`: the outputs of the imported action
+ * it uses, or any output for other steps.
+ *
  * @stability stable
  */
-export class Step {
+export class Step<TOutputs extends Record<string, string> = Record<string, string>> {
   private step: IStep;
   private currentActionRef: string | null = null;
   // Internal storage for TypeScript function steps
@@ -22,6 +43,8 @@ export class Step {
   private typescriptArgs: Array<string | number | boolean | GitHubExpression> = [];
   private typescriptOptions: ITypeScriptStepOptions | undefined;
   private typescriptStackTrace: string | undefined;
+  // Lines of a runScript() script, rendered for the step's shell
+  private scriptLines: string[] | null = null;
 
   /**
    * Creates a new step.
@@ -49,18 +72,19 @@ export class Step {
    * @param name - The step name
    * @stability stable
    */
-  name(name: string): this {
-    this.step.name = name;
+  name(name: ExpressionLike): this {
+    this.step.name = resolveExpression(name);
     return this;
   }
 
   /**
-   * Sets the action to use for this step.
+   * Sets the action to use for this step. The outputs of an imported action type the step's
+   * `outputs`.
    *
    * @param action - The action class to use
    * @stability stable
    */
-  uses(action: IActionClassType): this {
+  uses<TAction extends IActionClassType>(action: TAction): Step<ActionOutputs<TAction>> {
     // Access the reference property from the class constructor or instance
     // This works for both static classes (with static/constructor reference) and instances
     const actionRef = (action as { reference: string }).reference;
@@ -68,7 +92,29 @@ export class Step {
     this.currentActionRef = actionRef;
     // Clear run property since a step cannot have both uses and run
     this.step.run = undefined;
-    return this;
+    this.scriptLines = null;
+    return this as unknown as Step<ActionOutputs<TAction>>;
+  }
+
+  /**
+   * The step's outputs as expressions, e.g. `checkout.outputs.commit` for
+   * `${{ steps.checkout.outputs.commit }}`, to pass to job outputs, later steps and `needs()`.
+   * The step must have an ID.
+   *
+   * @example
+   * ```typescript
+   * const checkout = new Step().id("checkout").uses(ActionsCheckout4);
+   * job.addStep(checkout).outputs({ commit: checkout.outputs.commit });
+   * ```
+   * @stability stable
+   */
+  get outputs(): StepOutputsContext<TOutputs> {
+    if (!this.step.id) {
+      throw new Error(
+        "Step must have an ID to read its outputs. Make sure to call step.id() before using outputs."
+      );
+    }
+    return createContext<StepOutputsContext<TOutputs>>(`steps.${this.step.id}.outputs`);
   }
 
   /**
@@ -77,8 +123,8 @@ export class Step {
    * @param command - The command to run
    * @stability stable
    */
-  run(command: string): this {
-    this.step.run = command;
+  run(command: ExpressionLike): this {
+    this.step.run = resolveExpression(command);
     this.currentActionRef = null; // Clear action ref when using run
     // Clear uses and with properties since a step cannot have both uses and run
     this.step.uses = undefined;
@@ -86,6 +132,35 @@ export class Step {
     // Clear function references
     this.typescriptFunction = null;
     this.typescriptArgs = [];
+    this.scriptLines = null;
+    return this;
+  }
+
+  /**
+   * Runs a multi-line script, rendered for the step's shell so that it stops at the first
+   * failing command: `set -euo pipefail` for bash, `$ErrorActionPreference = 'Stop'` for
+   * PowerShell and so on (see `renderScript()`). Without `shell()` the script is rendered for
+   * the job's `defaults.run.shell`, or else the workflow's, or else runs in bash.
+   *
+   * @param lines - The lines of the script
+   * @stability stable
+   */
+  runScript(lines: ExpressionLike[]): this {
+    const script = lines.map(resolveExpression);
+    this.run(script.join("\n"));
+    this.scriptLines = script;
+    return this;
+  }
+
+  /**
+   * Sets the shell running this step's `run` script, instead of the job's default shell.
+   *
+   * @param shell - A known shell, or a command template with `{0}` for the script file,
+   * e.g. "perl {0}"
+   * @stability stable
+   */
+  shell(shell: Shell): this {
+    this.step.shell = shell;
     return this;
   }
 
@@ -153,6 +228,7 @@ export class Step {
     this.step.uses = undefined;
     this.step.with = undefined;
     this.currentActionRef = null;
+    this.scriptLines = null;
     return this;
   }
 
@@ -162,13 +238,13 @@ export class Step {
    * @param inputs - Input parameters for the action
    * @stability stable
    */
-  withInputs(inputs: { [key: string]: string | number | boolean }): this {
+  withInputs(inputs: { [key: string]: string | number | boolean | Expression }): this {
     // Validate inputs against imported action if available
     if (this.currentActionRef) {
       this.validateActionInputs(inputs);
     }
 
-    this.step.with = { ...this.step.with, ...inputs };
+    this.step.with = { ...this.step.with, ...resolveExpressions(inputs) };
     return this;
   }
 
@@ -179,11 +255,11 @@ export class Step {
    * @param inputs - Input parameters for the action
    * @stability stable
    */
-  with(inputs: { [key: string]: string | number | boolean }): this {
+  with(inputs: { [key: string]: string | number | boolean | Expression }): this {
     return this.withInputs(inputs);
   }
 
-  private validateActionInputs(inputs: { [key: string]: string | number | boolean }): void {
+  private validateActionInputs(inputs: { [key: string]: unknown }): void {
     if (!this.currentActionRef) {
       return;
     }
@@ -228,8 +304,8 @@ export class Step {
    * @param variables - Environment variables
    * @stability stable
    */
-  env(variables: { [key: string]: string }): this {
-    this.step.env = { ...this.step.env, ...variables };
+  env(variables: { [key: string]: ExpressionLike }): this {
+    this.step.env = { ...this.step.env, ...resolveExpressions(variables) };
     return this;
   }
 
@@ -261,8 +337,8 @@ export class Step {
    * @param condition - The conditional expression
    * @stability stable
    */
-  ifCondition(condition: string): this {
-    this.step.if = condition;
+  ifCondition(condition: ExpressionLike): this {
+    this.step.if = resolveCondition(condition);
     return this;
   }
 
@@ -273,7 +349,7 @@ export class Step {
    * @param condition - The conditional expression
    * @stability stable
    */
-  if(condition: string): this {
+  if(condition: ExpressionLike): this {
     return this.ifCondition(condition);
   }
 
@@ -283,8 +359,8 @@ export class Step {
    * @param directory - The working directory
    * @stability stable
    */
-  workingDirectory(directory: string): this {
-    this.step["working-directory"] = directory;
+  workingDirectory(directory: ExpressionLike): this {
+    this.step["working-directory"] = resolveExpression(directory);
     return this;
   }
 
@@ -309,6 +385,19 @@ export class Step {
     return null;
   }
 
+  /**
+   * Get the step configuration without validating it, for `workflow.validate()`.
+   * TypeScript function steps count as run steps, which they become during synthesis.
+   *
+   * @param defaultShell - The `defaults.run.shell` of the step's job or workflow
+   * @internal
+   */
+  _getConfig(defaultShell?: Shell): IStep {
+    return this.typescriptFunction
+      ? { ...this.step, run: this.step.run ?? "" }
+      : this.render(defaultShell);
+  }
+
   /**
    * Converts the step to JSON configuration.
    *
@@ -316,12 +405,38 @@ export class Step {
    * @stability stable
    */
   toJSON(): IStep {
+    return this._toJSON();
+  }
+
+  /**
+   * Converts the step to JSON configuration, rendering a `runScript()` script for the default
+   * shell of its job or workflow when the step sets none.
+   *
+   * @param defaultShell - The `defaults.run.shell` of the step's job or workflow
+   * @internal
+   */
+  _toJSON(defaultShell?: Shell): IStep {
     // Validate that a step doesn't have both uses and run (defensive check)
     if (this.step.uses && this.step.run) {
       throw new Error(
         "Invalid step: a step cannot have both 'uses' and 'run' properties. A step must be either an action step (uses) or a script step (run), not both."
       );
     }
-    return { ...this.step };
+    return this.render(defaultShell);
+  }
+
+  /**
+   * The step configuration with the `runScript()` script rendered for the step's shell: its
+   * own, the default shell it inherits, or bash, which is then set on the step.
+   */
+  private render(defaultShell: Shell | undefined): IStep {
+    if (!this.scriptLines) {
+      return { ...this.step };
+    }
+    if (!this.step.shell && defaultShell) {
+      return { ...this.step, run: renderScript(this.scriptLines, defaultShell) };
+    }
+    const shell = (this.step.shell ?? "bash") as Shell;
+    return { ...this.step, run: renderScript(this.scriptLines, shell), shell };
   }
 }
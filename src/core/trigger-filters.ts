@@ -0,0 +1,166 @@
+import type {
+  IPullRequestTriggerConfig,
+  IPullRequestTriggerOptions,
+  IPushTriggerConfig,
+  IPushTriggerOptions,
+} from "./types.js";
+
+/**
+ * Branch, tag and path filters of `push` and `pull_request` triggers, and matching of
+ * refs and changed files against them.
+ * See https://docs.github.com/en/actions/using-workflows/workflow-syntax-for-github-actions#filter-pattern-cheat-sheet
+ */
+
+const BRANCH_REF_PREFIX = "refs/heads/";
+const TAG_REF_PREFIX = "refs/tags/";
+const REGEX_SPECIAL_CHARS = new Set([..."\\^$.|(){}"]);
+
+/**
+ * Filters that cannot be combined for the same event, as [filter, negated filter]
+ * @internal
+ */
+export const EXCLUSIVE_FILTERS = [
+  ["branches", "branches-ignore"],
+  ["tags", "tags-ignore"],
+  ["paths", "paths-ignore"],
+] as const;
+
+/**
+ * A change to test against the filters of a trigger.
+ * @stability stable
+ */
+export interface ITriggerChange {
+  /**
+   * The pushed ref ("refs/heads/main", "refs/tags/v1.0.0") or, for pull requests, the base
+   * branch. A plain name is treated as a branch.
+   */
+  readonly ref: string;
+  /** The changed files. When omitted, path filters are not evaluated. */
+  readonly paths?: string[];
+}
+
+/**
+ * Convert trigger options to the filter keys of the workflow syntax,
+ * e.g. `pathsIgnore` to `paths-ignore`.
+ * @internal
+ */
+export function toFilterConfig(options: IPushTriggerOptions): IPushTriggerConfig;
+export function toFilterConfig(options: IPullRequestTriggerOptions): IPullRequestTriggerConfig;
+export function toFilterConfig(
+  options: IPushTriggerOptions & IPullRequestTriggerOptions
+): IPushTriggerConfig & IPullRequestTriggerConfig {
+  const { branchesIgnore, tagsIgnore, pathsIgnore, ...rest } = options;
+  return {
+    ...rest,
+    "branches-ignore": branchesIgnore,
+    "tags-ignore": tagsIgnore,
+    "paths-ignore": pathsIgnore,
+  };
+}
+
+function patternToRegex(pattern: string): RegExp {
+  let source = "";
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === "*" && pattern[index + 1] === "*") {
+      source += ".*";
+      index++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (REGEX_SPECIAL_CHARS.has(char)) {
+      source += `\\${char}`;
+    } else {
+      // "?", "+" and "[...]" have their regular expression meaning
+      source += char;
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Test a value against a single filter pattern.
+ *
+ * `*` matches any characters except `/`, `**` matches any characters, `?` and `+` match zero
+ * or one and one or more of the preceding character and `[]` matches a character class.
+ *
+ * @param pattern - A filter pattern without leading `!`, e.g. "releases/**"
+ * @param value - A branch name, tag name or file path
+ * @stability stable
+ */
+export function matchesFilterPattern(pattern: string, value: string): boolean {
+  return patternToRegex(pattern).test(value);
+}
+
+/**
+ * Test a value against a list of patterns. Patterns starting with `!` exclude values matched
+ * by earlier patterns; the last matching pattern decides.
+ */
+function matchesPatterns(patterns: readonly string[], value: string): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    if (matchesFilterPattern(negated ? pattern.slice(1) : pattern, value)) {
+      matched = !negated;
+    }
+  }
+  return matched;
+}
+
+function matchesIncludeExclude(
+  include: readonly string[] | undefined,
+  exclude: readonly string[] | undefined,
+  value: string
+): boolean {
+  if (include) {
+    return matchesPatterns(include, value);
+  }
+  return !(exclude && matchesPatterns(exclude, value));
+}
+
+function matchesRef(config: IPushTriggerConfig, ref: string): boolean {
+  const isTag = ref.startsWith(TAG_REF_PREFIX);
+  const name = isTag
+    ? ref.slice(TAG_REF_PREFIX.length)
+    : ref.startsWith(BRANCH_REF_PREFIX)
+      ? ref.slice(BRANCH_REF_PREFIX.length)
+      : ref;
+  const hasBranchFilter = config.branches !== undefined || config["branches-ignore"] !== undefined;
+  const hasTagFilter = config.tags !== undefined || config["tags-ignore"] !== undefined;
+  if (!(hasBranchFilter || hasTagFilter)) {
+    return true;
+  }
+  // With only branch (or only tag) filters, refs of the other kind do not trigger
+  return isTag
+    ? hasTagFilter && matchesIncludeExclude(config.tags, config["tags-ignore"], name)
+    : hasBranchFilter && matchesIncludeExclude(config.branches, config["branches-ignore"], name);
+}
+
+function matchesPaths(config: IPushTriggerConfig, paths: readonly string[]): boolean {
+  if (config.paths) {
+    return paths.some((path) => matchesPatterns(config.paths ?? [], path));
+  }
+  const ignored = config["paths-ignore"];
+  return !ignored || paths.some((path) => !matchesPatterns(ignored, path));
+}
+
+/**
+ * Test whether a change would trigger a `push` or `pull_request` trigger with the given filters.
+ * Ref and path filters must both match. Path filters do not apply to tags.
+ *
+ * @param config - The trigger configuration, e.g. `workflow.toJSON().on.push`
+ * @param change - The ref and changed files
+ * @returns Whether the workflow would run
+ * @stability stable
+ */
+export function matchesTriggerFilters(
+  config: IPushTriggerConfig | IPullRequestTriggerConfig,
+  change: ITriggerChange
+): boolean {
+  if (!matchesRef(config, change.ref)) {
+    return false;
+  }
+  if (change.paths === undefined || change.ref.startsWith(TAG_REF_PREFIX)) {
+    return true;
+  }
+  return matchesPaths(config, change.paths);
+}
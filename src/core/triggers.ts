@@ -0,0 +1,134 @@
+/**
+ * Activity types of the workflow trigger events.
+ * See https://docs.github.com/en/actions/using-workflows/events-that-trigger-workflows
+ */
+
+const PULL_REQUEST_ACTIVITY_TYPES = [
+  "assigned",
+  "unassigned",
+  "labeled",
+  "unlabeled",
+  "opened",
+  "edited",
+  "closed",
+  "reopened",
+  "synchronize",
+  "converted_to_draft",
+  "locked",
+  "unlocked",
+  "enqueued",
+  "dequeued",
+  "milestoned",
+  "demilestoned",
+  "ready_for_review",
+  "review_requested",
+  "review_request_removed",
+  "auto_merge_enabled",
+  "auto_merge_disabled",
+] as const;
+
+/**
+ * The activity types each event can be filtered by with `types:`.
+ * Events missing here have no activity types.
+ */
+export const ACTIVITY_TYPES = {
+  branch_protection_rule: ["created", "edited", "deleted"],
+  check_run: ["created", "rerequested", "completed", "requested_action"],
+  check_suite: ["completed"],
+  discussion: [
+    "created",
+    "edited",
+    "deleted",
+    "transferred",
+    "pinned",
+    "unpinned",
+    "labeled",
+    "unlabeled",
+    "locked",
+    "unlocked",
+    "category_changed",
+    "answered",
+    "unanswered",
+  ],
+  discussion_comment: ["created", "edited", "deleted"],
+  issue_comment: ["created", "edited", "deleted"],
+  issues: [
+    "opened",
+    "edited",
+    "deleted",
+    "transferred",
+    "pinned",
+    "unpinned",
+    "closed",
+    "reopened",
+    "assigned",
+    "unassigned",
+    "labeled",
+    "unlabeled",
+    "locked",
+    "unlocked",
+    "milestoned",
+    "demilestoned",
+  ],
+  label: ["created", "edited", "deleted"],
+  merge_group: ["checks_requested"],
+  milestone: ["created", "closed", "opened", "edited", "deleted"],
+  pull_request: PULL_REQUEST_ACTIVITY_TYPES,
+  pull_request_review: ["submitted", "edited", "dismissed"],
+  pull_request_review_comment: ["created", "edited", "deleted"],
+  pull_request_target: PULL_REQUEST_ACTIVITY_TYPES,
+  registry_package: ["published", "updated"],
+  release: ["published", "unpublished", "created", "edited", "deleted", "prereleased", "released"],
+  watch: ["started"],
+  workflow_run: ["completed", "requested", "in_progress"],
+} as const;
+
+/** Events that have no configuration besides being listed under `on:` */
+export const EVENTS_WITHOUT_CONFIG = [
+  "create",
+  "delete",
+  "deployment",
+  "deployment_status",
+  "fork",
+  "gollum",
+  "page_build",
+  "public",
+  "status",
+] as const;
+
+/** Activity types of `branch_protection_rule` @stability stable */
+export type BranchProtectionRuleActivityType =
+  (typeof ACTIVITY_TYPES.branch_protection_rule)[number];
+/** Activity types of `check_run` @stability stable */
+export type CheckRunActivityType = (typeof ACTIVITY_TYPES.check_run)[number];
+/** Activity types of `check_suite` @stability stable */
+export type CheckSuiteActivityType = (typeof ACTIVITY_TYPES.check_suite)[number];
+/** Activity types of `discussion` @stability stable */
+export type DiscussionActivityType = (typeof ACTIVITY_TYPES.discussion)[number];
+/** Activity types of `discussion_comment` @stability stable */
+export type DiscussionCommentActivityType = (typeof ACTIVITY_TYPES.discussion_comment)[number];
+/** Activity types of `issue_comment` @stability stable */
+export type IssueCommentActivityType = (typeof ACTIVITY_TYPES.issue_comment)[number];
+/** Activity types of `issues` @stability stable */
+export type IssuesActivityType = (typeof ACTIVITY_TYPES.issues)[number];
+/** Activity types of `label` @stability stable */
+export type LabelActivityType = (typeof ACTIVITY_TYPES.label)[number];
+/** Activity types of `merge_group` @stability stable */
+export type MergeGroupActivityType = (typeof ACTIVITY_TYPES.merge_group)[number];
+/** Activity types of `milestone` @stability stable */
+export type MilestoneActivityType = (typeof ACTIVITY_TYPES.milestone)[number];
+/** Activity types of `pull_request` and `pull_request_target` @stability stable */
+export type PullRequestActivityType = (typeof PULL_REQUEST_ACTIVITY_TYPES)[number];
+/** Activity types of `pull_request_review` @stability stable */
+export type PullRequestReviewActivityType = (typeof ACTIVITY_TYPES.pull_request_review)[number];
+/** Activity types of `pull_request_review_comment` @stability stable */
+export type PullRequestReviewCommentActivityType =
+  (typeof ACTIVITY_TYPES.pull_request_review_comment)[number];
+/** Activity types of `registry_package` @stability stable */
+export type RegistryPackageActivityType = (typeof ACTIVITY_TYPES.registry_package)[number];
+/** Activity types of `release` @stability stable */
+export type ReleaseActivityType = (typeof ACTIVITY_TYPES.release)[number];
+/** Activity types of `watch` @stability stable */
+export type WatchActivityType = (typeof ACTIVITY_TYPES.watch)[number];
+/** Activity types of `workflow_run` @stability stable */
+export type WorkflowRunActivityType = (typeof ACTIVITY_TYPES.workflow_run)[number];
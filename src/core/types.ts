@@ -2,44 +2,198 @@
  * Type definitions for GitHub Actions workflow concepts
  */
 
+import type { ExpressionLike } from "./expressions.js";
+import type { UntypedMatrix } from "./matrix.js";
+import type {
+  BranchProtectionRuleActivityType,
+  CheckRunActivityType,
+  CheckSuiteActivityType,
+  DiscussionActivityType,
+  DiscussionCommentActivityType,
+  IssueCommentActivityType,
+  IssuesActivityType,
+  LabelActivityType,
+  MergeGroupActivityType,
+  MilestoneActivityType,
+  PullRequestActivityType,
+  PullRequestReviewActivityType,
+  PullRequestReviewCommentActivityType,
+  RegistryPackageActivityType,
+  ReleaseActivityType,
+  WatchActivityType,
+  WorkflowRunActivityType,
+} from "./triggers.js";
+
 /**
  * JobId is a type alias for job identifiers, making the API clearer
  */
 export type JobId = string;
 
-export type Runner =
+/**
+ * Labels of the standard and larger GitHub-hosted runners with fixed labels.
+ * See `GITHUB_HOSTED_RUNNERS` for their operating system and architecture.
+ * @stability stable
+ */
+export type GitHubHostedRunner =
   | "ubuntu-latest"
+  | "ubuntu-24.04"
   | "ubuntu-22.04"
-  | "ubuntu-20.04"
+  | "ubuntu-24.04-arm"
+  | "ubuntu-22.04-arm"
   | "windows-latest"
+  | "windows-2025"
   | "windows-2022"
-  | "windows-2019"
+  | "windows-11-arm"
   | "macos-latest"
+  | "macos-15"
   | "macos-14"
   | "macos-13"
-  | string;
+  | "macos-latest-large"
+  | "macos-15-large"
+  | "macos-14-large"
+  | "macos-13-large"
+  | "macos-latest-xlarge"
+  | "macos-15-xlarge"
+  | "macos-14-xlarge"
+  | "macos-13-xlarge";
+
+/**
+ * Labels GitHub gives every self-hosted runner: `self-hosted`, its operating system and
+ * its architecture. Labels are case-insensitive.
+ * @stability stable
+ */
+export type SelfHostedRunnerLabel =
+  | "self-hosted"
+  | "linux"
+  | "windows"
+  | "macos"
+  | "x64"
+  | "arm64"
+  | "Linux"
+  | "Windows"
+  | "macOS"
+  | "X64"
+  | "ARM64";
+
+/**
+ * The project's runners, for type checking. Empty by default, so any label and group is
+ * accepted; augment it with the runners declared in the config to have them checked:
+ *
+ * ```typescript
+ * declare module "ts-actions" {
+ *   interface IRunnerCatalog extends RunnerCatalogOf<typeof config> {}
+ * }
+ * ```
+ *
+ * @stability stable
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: Augmented by projects declaring their runners
+export interface IRunnerCatalog {}
+
+/**
+ * The labels and groups of the runners in a config's `runners`, for `IRunnerCatalog`.
+ * @stability stable
+ */
+export type RunnerCatalogOf<TConfig> = TConfig extends {
+  runners: readonly (infer TRunner)[];
+}
+  ? {
+      labels: TRunner extends { labels: readonly (infer TLabel)[] } ? TLabel : never;
+      groups: TRunner extends { group: infer TGroup } ? TGroup : never;
+    }
+  : Record<never, never>;
+
+/**
+ * A runner label: a GitHub-hosted runner, or a label of the project's runners. Any label is
+ * accepted until `IRunnerCatalog` is augmented.
+ * @stability stable
+ */
+export type Runner =
+  | GitHubHostedRunner
+  | (IRunnerCatalog extends { labels: infer TLabel extends string }
+      ? TLabel | SelfHostedRunnerLabel
+      : string);
+
+/**
+ * A runner group name. Any name is accepted until `IRunnerCatalog` is augmented.
+ * @stability stable
+ */
+export type RunnerGroup = IRunnerCatalog extends { groups: infer TGroup extends string }
+  ? TGroup
+  : string;
+
+/** Operating system of a runner, as in `runner.os` (lowercase) */
+export type RunnerOS = "linux" | "windows" | "macos";
+
+/** Architecture of a runner, as in `runner.arch` (lowercase) */
+export type RunnerArch = "x64" | "arm64";
+
+/**
+ * A runner of the project, declared in the config's `runners`: self-hosted, or a larger
+ * GitHub-hosted runner with labels chosen by the organization.
+ * @stability stable
+ */
+export interface IRunnerDefinition {
+  /** The runner's labels, besides the `self-hosted`, OS and architecture labels GitHub adds */
+  readonly labels: readonly string[];
+  /** The runner group the runner belongs to */
+  readonly group?: string;
+  readonly os: RunnerOS;
+  readonly arch: RunnerArch;
+  /** Whether this is a larger GitHub-hosted runner, which has no `self-hosted` labels (default: false) */
+  readonly hosted?: boolean;
+}
+
+/**
+ * What is known about the runner of a job.
+ * @stability stable
+ */
+export interface IRunnerInfo {
+  readonly os: RunnerOS;
+  readonly arch: RunnerArch;
+  /** Whether GitHub hosts the runner */
+  readonly hosted: boolean;
+}
+
+/**
+ * `runs-on` selecting a runner from a group, by labels or both.
+ * @stability stable
+ */
+export interface IRunnerGroup {
+  group?: string;
+  labels?: string | string[];
+}
+
+/**
+ * Options of `job.runsOn()` selecting a runner from a group, by labels or both.
+ * @stability stable
+ */
+export interface IRunnerGroupOptions {
+  group?: RunnerGroup;
+  labels?: Runner | Runner[];
+}
 
 export interface IPushTriggerConfig {
   branches?: string[];
+  /** @jsii ignore */
+  "branches-ignore"?: string[];
   tags?: string[];
+  /** @jsii ignore */
+  "tags-ignore"?: string[];
   paths?: string[];
-  pathsIgnore?: string[];
+  /** @jsii ignore */
+  "paths-ignore"?: string[];
 }
 
 export interface IPullRequestTriggerConfig {
   branches?: string[];
+  /** @jsii ignore */
+  "branches-ignore"?: string[];
   tags?: string[];
   paths?: string[];
-  pathsIgnore?: string[];
-  types?: (
-    | "opened"
-    | "synchronize"
-    | "reopened"
-    | "closed"
-    | "ready_for_review"
-    | "labeled"
-    | "unlabeled"
-  )[];
+  /** @jsii ignore */
+  "paths-ignore"?: string[];
+  types?: PullRequestActivityType[];
 }
 
 export interface IWorkflowDispatchConfig {
@@ -57,20 +211,79 @@ export interface IRepositoryDispatchConfig {
 export interface IWorkflowCallConfig {
   inputs?: { [key: string]: IWorkflowCallInput };
   outputs?: { [key: string]: IWorkflowCallOutput };
-  secrets?: string[];
+  secrets?: { [key: string]: IWorkflowCallSecret };
+}
+
+export interface IWorkflowRunTriggerConfig {
+  workflows: string[];
+  types?: WorkflowRunActivityType[];
+  branches?: string[];
+  /** @jsii ignore */
+  "branches-ignore"?: string[];
+}
+
+/**
+ * Configuration of an event that can only be filtered by activity type
+ */
+export interface IActivityTriggerConfig<TType extends string> {
+  types?: TType[];
 }
 
+/**
+ * Configuration of an event without options
+ */
+export type EmptyTriggerConfig = Record<string, never>;
+
 export interface IWorkflowTrigger {
   push?: IPushTriggerConfig;
   /** @jsii ignore */
   pull_request?: IPullRequestTriggerConfig;
   /** @jsii ignore */
+  pull_request_target?: IPullRequestTriggerConfig;
+  /** @jsii ignore */
   workflow_dispatch?: IWorkflowDispatchConfig;
   schedule?: IScheduleConfig[];
   /** @jsii ignore */
   repository_dispatch?: IRepositoryDispatchConfig;
   /** @jsii ignore */
   workflow_call?: IWorkflowCallConfig;
+  /** @jsii ignore */
+  workflow_run?: IWorkflowRunTriggerConfig;
+  /** @jsii ignore */
+  branch_protection_rule?: IActivityTriggerConfig<BranchProtectionRuleActivityType>;
+  /** @jsii ignore */
+  check_run?: IActivityTriggerConfig<CheckRunActivityType>;
+  /** @jsii ignore */
+  check_suite?: IActivityTriggerConfig<CheckSuiteActivityType>;
+  discussion?: IActivityTriggerConfig<DiscussionActivityType>;
+  /** @jsii ignore */
+  discussion_comment?: IActivityTriggerConfig<DiscussionCommentActivityType>;
+  /** @jsii ignore */
+  issue_comment?: IActivityTriggerConfig<IssueCommentActivityType>;
+  issues?: IActivityTriggerConfig<IssuesActivityType>;
+  label?: IActivityTriggerConfig<LabelActivityType>;
+  /** @jsii ignore */
+  merge_group?: IActivityTriggerConfig<MergeGroupActivityType>;
+  milestone?: IActivityTriggerConfig<MilestoneActivityType>;
+  /** @jsii ignore */
+  pull_request_review?: IActivityTriggerConfig<PullRequestReviewActivityType>;
+  /** @jsii ignore */
+  pull_request_review_comment?: IActivityTriggerConfig<PullRequestReviewCommentActivityType>;
+  /** @jsii ignore */
+  registry_package?: IActivityTriggerConfig<RegistryPackageActivityType>;
+  release?: IActivityTriggerConfig<ReleaseActivityType>;
+  watch?: IActivityTriggerConfig<WatchActivityType>;
+  create?: EmptyTriggerConfig;
+  delete?: EmptyTriggerConfig;
+  deployment?: EmptyTriggerConfig;
+  /** @jsii ignore */
+  deployment_status?: EmptyTriggerConfig;
+  fork?: EmptyTriggerConfig;
+  gollum?: EmptyTriggerConfig;
+  /** @jsii ignore */
+  page_build?: EmptyTriggerConfig;
+  public?: EmptyTriggerConfig;
+  status?: EmptyTriggerConfig;
 }
 
 // Type alias for backward compatibility
@@ -111,8 +324,22 @@ export interface JobEnv {
   [key: string]: string;
 }
 
+/**
+ * Shells GitHub Actions knows how to run a script with.
+ * @stability stable
+ */
+export type KnownShell = "bash" | "sh" | "pwsh" | "powershell" | "python" | "cmd";
+
+/**
+ * The shell of a `run` step: a known shell, or a custom command template in which `{0}` is
+ * replaced with the path of the script file, e.g. "perl {0}".
+ * See https://docs.github.com/en/actions/writing-workflows/workflow-syntax-for-github-actions#jobsjob_idstepsshell
+ * @stability stable
+ */
+export type Shell = KnownShell | `${string}{0}${string}`;
+
 export interface IJobDefaultsRun {
-  shell?: string;
+  shell?: Shell;
   /** @jsii ignore */
   "working-directory"?: string;
 }
@@ -124,14 +351,59 @@ export interface IJobDefaults {
 // Type alias for backward compatibility
 export type JobDefaults = IJobDefaults;
 
+export interface IContainerCredentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * A job container or service container.
+ * See https://docs.github.com/en/actions/using-jobs/running-jobs-in-a-container
+ */
+export interface IContainer {
+  image: string;
+  credentials?: IContainerCredentials;
+  env?: { [key: string]: string };
+  /** Ports to expose, e.g. 5432 or "8080:80" (host:container) */
+  ports?: (number | string)[];
+  /** Volumes to mount, e.g. "my_docker_volume:/volume_mount" */
+  volumes?: string[];
+  /** Additional `docker create` options, e.g. "--health-cmd pg_isready" */
+  options?: string;
+}
+
+export interface IContainerCredentialsOptions {
+  username: ExpressionLike;
+  password: ExpressionLike;
+}
+
+export interface IContainerOptions {
+  /** Registry credentials, e.g. `{ username: github.actor, password: secrets.GITHUB_TOKEN }` */
+  credentials?: IContainerCredentialsOptions;
+  /** Environment variables of the container */
+  env?: { [key: string]: ExpressionLike };
+  /** Ports to expose, e.g. 5432 or "8080:80" (host:container) */
+  ports?: (number | string)[];
+  /** Volumes to mount, e.g. "my_docker_volume:/volume_mount" */
+  volumes?: string[];
+  /** Additional `docker create` options, e.g. "--health-cmd pg_isready" */
+  options?: string;
+}
+
 export interface IJob {
-  /** @jsii ignore */
-  "runs-on": Runner | Runner[];
+  /** Not set for jobs that call a reusable workflow @jsii ignore */
+  "runs-on"?: string | string[] | IRunnerGroup;
   name?: string;
   needs?: string | string[];
   /** @jsii ignore */
   if?: string;
-  steps: IStep[];
+  /** Reusable workflow called by this job, instead of runs-on and steps */
+  uses?: string;
+  /** Inputs passed to the reusable workflow @jsii ignore */
+  with?: { [key: string]: string | number | boolean };
+  /** Secrets passed to the reusable workflow, or "inherit" to pass all of the caller's */
+  secrets?: "inherit" | { [key: string]: string };
+  steps?: IStep[];
   outputs?: { [key: string]: string };
   env?: { [key: string]: string };
   defaults?: IJobDefaults;
@@ -141,6 +413,14 @@ export interface IJob {
   /** @jsii ignore */
   "continue-on-error"?: boolean;
   concurrency?: IJobConcurrency;
+  /** Token permissions of this job, instead of the workflow's */
+  permissions?: PermissionsLike;
+  /** Deployment environment, by name or with the URL shown for the deployment */
+  environment?: string | IJobEnvironment;
+  /** Container the job's steps run in */
+  container?: IContainer;
+  /** Service containers by id, e.g. a database the steps connect to */
+  services?: { [serviceId: string]: IContainer };
 }
 
 // Type alias for backward compatibility
@@ -178,6 +458,8 @@ export interface IStep {
   if?: string;
   /** @jsii ignore */
   "working-directory"?: string;
+  /** The shell running `run` */
+  shell?: string;
 }
 
 // Type alias for backward compatibility
@@ -192,6 +474,7 @@ export interface WorkflowJobs {
 
 export interface IWorkflowPermissions {
   actions?: "read" | "write" | "none";
+  attestations?: "read" | "write" | "none";
   checks?: "read" | "write" | "none";
   contents?: "read" | "write" | "none";
   deployments?: "read" | "write" | "none";
@@ -210,27 +493,44 @@ export interface IWorkflowPermissions {
   statuses?: "read" | "write" | "none";
 }
 
+/**
+ * Permissions of the GITHUB_TOKEN: by scope, or "read-all" / "write-all" for every scope.
+ * @stability stable
+ */
+export type PermissionsLike = IWorkflowPermissions | "read-all" | "write-all";
+
+/**
+ * Filters of a push trigger. `branches` cannot be combined with `branchesIgnore`, `tags` with
+ * `tagsIgnore` and `paths` with `pathsIgnore`; use `!` patterns to exclude instead.
+ */
 export interface IPushTriggerOptions {
   branches?: string[];
+  branchesIgnore?: string[];
   tags?: string[];
+  tagsIgnore?: string[];
   paths?: string[];
   pathsIgnore?: string[];
 }
 
+/**
+ * Filters of a pull request trigger. Branch filters match the base branch of the pull request.
+ * `branches` cannot be combined with `branchesIgnore` and `paths` with `pathsIgnore`.
+ */
 export interface IPullRequestTriggerOptions {
   branches?: string[];
+  branchesIgnore?: string[];
   tags?: string[];
   paths?: string[];
   pathsIgnore?: string[];
-  types?: (
-    | "opened"
-    | "synchronize"
-    | "reopened"
-    | "closed"
-    | "ready_for_review"
-    | "labeled"
-    | "unlabeled"
-  )[];
+  types?: PullRequestActivityType[];
+}
+
+export interface IWorkflowRunTriggerOptions {
+  /** Names of the workflows whose runs trigger this workflow */
+  workflows: string[];
+  types?: WorkflowRunActivityType[];
+  branches?: string[];
+  branchesIgnore?: string[];
 }
 
 export interface IWorkflowDispatchInput {
@@ -253,14 +553,55 @@ export interface IWorkflowCallOutput {
   value: string;
 }
 
+export interface IWorkflowCallSecret {
+  description?: string;
+  required?: boolean;
+}
+
 export interface IWorkflowCallOptions {
   inputs?: { [key: string]: IWorkflowCallInput };
   outputs?: { [key: string]: IWorkflowCallOutput };
-  secrets?: string[];
+  /** Secret names, or secret definitions by name */
+  secrets?: string[] | { [key: string]: IWorkflowCallSecret };
+}
+
+/**
+ * A value of a matrix axis: a string, number or boolean, or an object of values.
+ * @stability stable
+ */
+export type MatrixValue = string | number | boolean | { [key: string]: MatrixValue };
+
+/**
+ * One job combination of a matrix, or an `include` / `exclude` entry.
+ * @stability stable
+ */
+export type MatrixCombination = { [key: string]: MatrixValue };
+
+export interface IMatrixConfig {
+  /** Values of an axis, or an expression evaluating to them */
+  [axis: string]: MatrixValue[] | string | undefined;
+  /** Entries added to matching combinations, or as combinations of their own */
+  include?: MatrixCombination[] | string;
+  /** Entries whose matching combinations are not run */
+  exclude?: MatrixCombination[] | string;
 }
 
 export interface IJobStrategy {
-  matrix?: { [key: string]: (string | number)[] };
+  /** The matrix, or an expression evaluating to it */
+  matrix?: IMatrixConfig | string;
+  /** @jsii ignore */
+  "fail-fast"?: boolean;
+  /** @jsii ignore */
+  "max-parallel"?: number;
+}
+
+/**
+ * Options of `job.strategy()`.
+ * @stability stable
+ */
+export interface IJobStrategyOptions {
+  /** A `Matrix`, a matrix configuration or an expression evaluating to the matrix */
+  matrix?: UntypedMatrix | IMatrixConfig | ExpressionLike;
   /** @jsii ignore */
   "fail-fast"?: boolean;
   /** @jsii ignore */
@@ -269,8 +610,25 @@ export interface IJobStrategy {
 
 export interface IJobConcurrency {
   group?: string;
-  /** @jsii ignore */
-  "cancel-in-progress"?: boolean;
+  /**
+   * Whether to cancel the in-progress run of the group, or an expression deciding it
+   * @jsii ignore
+   */
+  "cancel-in-progress"?: boolean | string;
+}
+
+export interface IJobEnvironment {
+  name: string;
+  url?: string;
+}
+
+/**
+ * Options of a job's deployment environment.
+ * @stability stable
+ */
+export interface IJobEnvironmentOptions {
+  /** URL of the deployment, e.g. the output of the step that deployed it */
+  url?: ExpressionLike;
 }
 
 export interface IWorkflowConfig {
@@ -279,7 +637,8 @@ export interface IWorkflowConfig {
   jobs: { [jobId: string]: Job };
   env?: { [key: string]: string };
   defaults?: IJobDefaults;
-  permissions?: IWorkflowPermissions;
+  permissions?: PermissionsLike;
+  concurrency?: IJobConcurrency;
   /** @jsii ignore */
   "run-name"?: string;
 }
@@ -313,7 +672,7 @@ export function expr(value: string): GitHubExpression {
  * @stability stable
  */
 export interface ITypeScriptStepOptions {
-  /** Node.js version to use (default: "24") */
+  /** Node.js version to use (default: the configured defaultNodeVersion) */
   nodeVersion?: string;
 }
 
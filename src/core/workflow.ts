@@ -1,29 +1,102 @@
+import { getConfig } from "../config/config.js";
+import { withInferredPermissions } from "../validate/permissions.js";
+import { type IDiagnostic, validateWorkflowConfig } from "../validate/workflow.js";
+import { type IWorkflowContexts, type WorkflowInputs, workflowContexts } from "./contexts.js";
+import type { EventPayload } from "./event-payloads.js";
+import {
+  Expression,
+  type ExpressionLike,
+  resolveExpression,
+  resolveExpressions,
+} from "./expressions.js";
 import { Job } from "./job.js";
+import type { WorkflowCallInputs } from "./reusable-workflow.js";
 import { defaultRunName } from "./run-name-helpers.js";
+import type { Schedule } from "./schedule.js";
+import { type ITriggerChange, matchesTriggerFilters, toFilterConfig } from "./trigger-filters.js";
 import type {
+  BranchProtectionRuleActivityType,
+  CheckRunActivityType,
+  CheckSuiteActivityType,
+  DiscussionActivityType,
+  DiscussionCommentActivityType,
+  IssueCommentActivityType,
+  IssuesActivityType,
+  LabelActivityType,
+  MergeGroupActivityType,
+  MilestoneActivityType,
+  PullRequestReviewActivityType,
+  PullRequestReviewCommentActivityType,
+  RegistryPackageActivityType,
+  ReleaseActivityType,
+  WatchActivityType,
+} from "./triggers.js";
+import type {
+  IJob,
   IJobDefaults,
   IPullRequestTriggerOptions,
   IPushTriggerOptions,
   IWorkflowCallOptions,
   IWorkflowConfig,
   IWorkflowDispatchInput,
-  IWorkflowPermissions,
+  IWorkflowRunTriggerOptions,
   IWorkflowTrigger,
   JobId,
+  PermissionsLike,
 } from "./types.js";
 
 // Type aliases for backward compatibility
 export type WorkflowConfig = IWorkflowConfig;
 export type WorkflowTrigger = IWorkflowTrigger;
 
+/**
+ * The triggers of a workflow after adding `TEvent`.
+ * A workflow whose triggers are not tracked (`string`) starts an empty set.
+ */
+type WithEvent<TEvents extends string, TEvent extends string> =
+  | (string extends TEvents ? never : TEvents)
+  | TEvent;
+
+/**
+ * The inputs of a workflow after declaring `TNewInputs` with another trigger.
+ * Untracked inputs (`Record<string, IWorkflowDispatchInput>`) are replaced.
+ */
+type WithInputs<TInputs, TNewInputs> = string extends keyof TInputs
+  ? TNewInputs
+  : TInputs & TNewInputs;
+
+/**
+ * The contexts of a workflow, typed by its triggers and inputs. Members take them through
+ * `this`, so that a workflow with tracked triggers or inputs is still a `Workflow`.
+ */
+type WorkflowContextsOf<TWorkflow> = TWorkflow extends Workflow<
+  infer TEvents,
+  infer TInputs,
+  infer _TCall
+>
+  ? IWorkflowContexts<EventPayload<TEvents>, WorkflowInputs<TInputs>>
+  : never;
+
 /**
  * A GitHub Actions workflow definition.
  *
+ * `TEvents` tracks the events added with the `on*()` methods, so that `github.event`
+ * in the contexts passed to `addJob()` is typed by the workflow's triggers. `TInputs`
+ * holds the inputs declared with `onWorkflowDispatch()` and `onWorkflowCall()`, which type
+ * the `inputs` context, and `TCall` the `workflow_call` definition that types callers of
+ * the workflow (see `ReusableWorkflow`).
+ *
  * @stability stable
  */
-export class Workflow {
+export class Workflow<
+  TEvents extends string = string,
+  TInputs extends Record<string, IWorkflowDispatchInput> = Record<string, IWorkflowDispatchInput>,
+  TCall extends IWorkflowCallOptions = IWorkflowCallOptions,
+> {
   private config: IWorkflowConfig;
   private jobInstances: Map<JobId, Job> = new Map(); // Store Job instances for processing
+  private environmentNames: string[] | undefined;
+  private permissionInference: "suggest" | "emit" | undefined;
 
   /**
    * Creates a new workflow.
@@ -67,9 +140,9 @@ export class Workflow {
    * @param options - Push trigger options
    * @stability stable
    */
-  onPush(options?: IPushTriggerOptions): this {
-    this.config.on.push = options || {};
-    return this;
+  onPush(options?: IPushTriggerOptions): Workflow<WithEvent<TEvents, "push">, TInputs, TCall> {
+    this.config.on.push = toFilterConfig(options || {});
+    return this as Workflow<WithEvent<TEvents, "push">, TInputs, TCall>;
   }
 
   /**
@@ -78,34 +151,52 @@ export class Workflow {
    * @param options - Pull request trigger options
    * @stability stable
    */
-  onPullRequest(options?: IPullRequestTriggerOptions): this {
-    this.config.on.pull_request = options || {};
-    return this;
+  onPullRequest(
+    options?: IPullRequestTriggerOptions
+  ): Workflow<WithEvent<TEvents, "pull_request">, TInputs, TCall> {
+    this.config.on.pull_request = toFilterConfig(options || {});
+    return this as Workflow<WithEvent<TEvents, "pull_request">, TInputs, TCall>;
   }
 
   /**
    * Adds a workflow dispatch trigger to the workflow.
    *
+   * The declared inputs become the type of the `inputs` context (see `inputs`), with
+   * `boolean` and `number` inputs typed accordingly and `choice` options as a literal union.
+   *
    * @param inputs - Optional workflow dispatch inputs
    * @stability stable
    */
-  onWorkflowDispatch(inputs?: { [key: string]: IWorkflowDispatchInput }): this {
+  onWorkflowDispatch<
+    const TDispatchInputs extends Record<string, IWorkflowDispatchInput> = Record<never, never>,
+  >(
+    inputs?: TDispatchInputs
+  ): Workflow<
+    WithEvent<TEvents, "workflow_dispatch">,
+    WithInputs<TInputs, TDispatchInputs>,
+    TCall
+  > {
     this.config.on.workflow_dispatch = { inputs };
-    return this;
+    return this as unknown as Workflow<
+      WithEvent<TEvents, "workflow_dispatch">,
+      WithInputs<TInputs, TDispatchInputs>,
+      TCall
+    >;
   }
 
   /**
-   * Adds a schedule trigger to the workflow.
+   * Adds a schedule trigger to the workflow. Can be called multiple times for several schedules.
+   * Invalid cron expressions and schedules running more often than every 5 minutes fail synthesis.
    *
-   * @param cron - Cron expression for the schedule
+   * @param cron - Cron expression (in UTC) or a `Schedule`
    * @stability stable
    */
-  onSchedule(cron: string): this {
+  onSchedule(cron: string | Schedule): Workflow<WithEvent<TEvents, "schedule">, TInputs, TCall> {
     if (!this.config.on.schedule) {
       this.config.on.schedule = [];
     }
-    this.config.on.schedule.push({ cron });
-    return this;
+    this.config.on.schedule.push({ cron: typeof cron === "string" ? cron : cron.toCron() });
+    return this as Workflow<WithEvent<TEvents, "schedule">, TInputs, TCall>;
   }
 
   /**
@@ -114,20 +205,333 @@ export class Workflow {
    * @param types - Optional event types
    * @stability stable
    */
-  onRepositoryDispatch(types?: string[]): this {
+  onRepositoryDispatch(
+    types?: string[]
+  ): Workflow<WithEvent<TEvents, "repository_dispatch">, TInputs, TCall> {
     this.config.on.repository_dispatch = { types };
-    return this;
+    return this as Workflow<WithEvent<TEvents, "repository_dispatch">, TInputs, TCall>;
   }
 
   /**
-   * Adds a workflow call trigger to the workflow.
+   * Adds a workflow call trigger, making the workflow reusable.
+   *
+   * The declared inputs type the `inputs` context like those of `onWorkflowDispatch()`, and
+   * the whole definition types the jobs that call the workflow with
+   * `job.uses(ReusableWorkflow.of(workflow), ...)`: required inputs and secrets must be passed
+   * and the declared outputs can be read with `needs()`. Secrets given as a list of names are
+   * declared as optional.
    *
    * @param options - Workflow call options
    * @stability stable
    */
-  onWorkflowCall(options?: IWorkflowCallOptions): this {
-    this.config.on.workflow_call = options;
-    return this;
+  onWorkflowCall<const TCallOptions extends IWorkflowCallOptions = Record<never, never>>(
+    options?: TCallOptions
+  ): Workflow<
+    WithEvent<TEvents, "workflow_call">,
+    WithInputs<TInputs, WorkflowCallInputs<TCallOptions>>,
+    TCallOptions
+  > {
+    const { secrets, ...rest } = options ?? {};
+    this.config.on.workflow_call = options && {
+      ...rest,
+      secrets: Array.isArray(secrets)
+        ? Object.fromEntries(secrets.map((secret) => [secret, {}]))
+        : secrets,
+    };
+    return this as unknown as Workflow<
+      WithEvent<TEvents, "workflow_call">,
+      WithInputs<TInputs, WorkflowCallInputs<TCallOptions>>,
+      TCallOptions
+    >;
+  }
+
+  /**
+   * Adds a pull_request_target trigger to the workflow. The workflow runs in the context of
+   * the base branch, with access to secrets, also for pull requests from forks.
+   *
+   * @param options - Pull request trigger options
+   * @stability stable
+   */
+  onPullRequestTarget(
+    options?: IPullRequestTriggerOptions
+  ): Workflow<WithEvent<TEvents, "pull_request_target">, TInputs, TCall> {
+    return this.addTrigger("pull_request_target", toFilterConfig(options || {}));
+  }
+
+  /**
+   * Adds a workflow_run trigger to the workflow.
+   *
+   * @param options - The workflows to follow, plus optional activity types and branch filters
+   * @stability stable
+   */
+  onWorkflowRun(
+    options: IWorkflowRunTriggerOptions
+  ): Workflow<WithEvent<TEvents, "workflow_run">, TInputs, TCall> {
+    const { branchesIgnore, ...rest } = options;
+    return this.addTrigger("workflow_run", { ...rest, "branches-ignore": branchesIgnore });
+  }
+
+  /**
+   * Adds a branch protection rule trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onBranchProtectionRule(
+    types?: BranchProtectionRuleActivityType[]
+  ): Workflow<WithEvent<TEvents, "branch_protection_rule">, TInputs, TCall> {
+    return this.addTrigger("branch_protection_rule", types ? { types } : {});
+  }
+
+  /**
+   * Adds a check run trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onCheckRun(
+    types?: CheckRunActivityType[]
+  ): Workflow<WithEvent<TEvents, "check_run">, TInputs, TCall> {
+    return this.addTrigger("check_run", types ? { types } : {});
+  }
+
+  /**
+   * Adds a check suite trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onCheckSuite(
+    types?: CheckSuiteActivityType[]
+  ): Workflow<WithEvent<TEvents, "check_suite">, TInputs, TCall> {
+    return this.addTrigger("check_suite", types ? { types } : {});
+  }
+
+  /**
+   * Adds a discussion trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onDiscussion(
+    types?: DiscussionActivityType[]
+  ): Workflow<WithEvent<TEvents, "discussion">, TInputs, TCall> {
+    return this.addTrigger("discussion", types ? { types } : {});
+  }
+
+  /**
+   * Adds a discussion comment trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onDiscussionComment(
+    types?: DiscussionCommentActivityType[]
+  ): Workflow<WithEvent<TEvents, "discussion_comment">, TInputs, TCall> {
+    return this.addTrigger("discussion_comment", types ? { types } : {});
+  }
+
+  /**
+   * Adds an issue comment trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onIssueComment(
+    types?: IssueCommentActivityType[]
+  ): Workflow<WithEvent<TEvents, "issue_comment">, TInputs, TCall> {
+    return this.addTrigger("issue_comment", types ? { types } : {});
+  }
+
+  /**
+   * Adds an issues trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onIssues(types?: IssuesActivityType[]): Workflow<WithEvent<TEvents, "issues">, TInputs, TCall> {
+    return this.addTrigger("issues", types ? { types } : {});
+  }
+
+  /**
+   * Adds a label trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onLabel(types?: LabelActivityType[]): Workflow<WithEvent<TEvents, "label">, TInputs, TCall> {
+    return this.addTrigger("label", types ? { types } : {});
+  }
+
+  /**
+   * Adds a merge group trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onMergeGroup(
+    types?: MergeGroupActivityType[]
+  ): Workflow<WithEvent<TEvents, "merge_group">, TInputs, TCall> {
+    return this.addTrigger("merge_group", types ? { types } : {});
+  }
+
+  /**
+   * Adds a milestone trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onMilestone(
+    types?: MilestoneActivityType[]
+  ): Workflow<WithEvent<TEvents, "milestone">, TInputs, TCall> {
+    return this.addTrigger("milestone", types ? { types } : {});
+  }
+
+  /**
+   * Adds a pull request review trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onPullRequestReview(
+    types?: PullRequestReviewActivityType[]
+  ): Workflow<WithEvent<TEvents, "pull_request_review">, TInputs, TCall> {
+    return this.addTrigger("pull_request_review", types ? { types } : {});
+  }
+
+  /**
+   * Adds a pull request review comment trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onPullRequestReviewComment(
+    types?: PullRequestReviewCommentActivityType[]
+  ): Workflow<WithEvent<TEvents, "pull_request_review_comment">, TInputs, TCall> {
+    return this.addTrigger("pull_request_review_comment", types ? { types } : {});
+  }
+
+  /**
+   * Adds a registry package trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onRegistryPackage(
+    types?: RegistryPackageActivityType[]
+  ): Workflow<WithEvent<TEvents, "registry_package">, TInputs, TCall> {
+    return this.addTrigger("registry_package", types ? { types } : {});
+  }
+
+  /**
+   * Adds a release trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onRelease(
+    types?: ReleaseActivityType[]
+  ): Workflow<WithEvent<TEvents, "release">, TInputs, TCall> {
+    return this.addTrigger("release", types ? { types } : {});
+  }
+
+  /**
+   * Adds a watch (repository starred) trigger to the workflow.
+   *
+   * @param types - Optional activity types (all types when omitted)
+   * @stability stable
+   */
+  onWatch(types?: WatchActivityType[]): Workflow<WithEvent<TEvents, "watch">, TInputs, TCall> {
+    return this.addTrigger("watch", types ? { types } : {});
+  }
+
+  /**
+   * Adds a create (branch or tag created) trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onCreate(): Workflow<WithEvent<TEvents, "create">, TInputs, TCall> {
+    return this.addTrigger("create", {});
+  }
+
+  /**
+   * Adds a delete (branch or tag deleted) trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onDelete(): Workflow<WithEvent<TEvents, "delete">, TInputs, TCall> {
+    return this.addTrigger("delete", {});
+  }
+
+  /**
+   * Adds a deployment trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onDeployment(): Workflow<WithEvent<TEvents, "deployment">, TInputs, TCall> {
+    return this.addTrigger("deployment", {});
+  }
+
+  /**
+   * Adds a deployment status trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onDeploymentStatus(): Workflow<WithEvent<TEvents, "deployment_status">, TInputs, TCall> {
+    return this.addTrigger("deployment_status", {});
+  }
+
+  /**
+   * Adds a fork trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onFork(): Workflow<WithEvent<TEvents, "fork">, TInputs, TCall> {
+    return this.addTrigger("fork", {});
+  }
+
+  /**
+   * Adds a gollum (wiki page updated) trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onGollum(): Workflow<WithEvent<TEvents, "gollum">, TInputs, TCall> {
+    return this.addTrigger("gollum", {});
+  }
+
+  /**
+   * Adds a page build trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onPageBuild(): Workflow<WithEvent<TEvents, "page_build">, TInputs, TCall> {
+    return this.addTrigger("page_build", {});
+  }
+
+  /**
+   * Adds a public (repository made public) trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onPublic(): Workflow<WithEvent<TEvents, "public">, TInputs, TCall> {
+    return this.addTrigger("public", {});
+  }
+
+  /**
+   * Adds a status (commit status changed) trigger to the workflow.
+   *
+   * @stability stable
+   */
+  onStatus(): Workflow<WithEvent<TEvents, "status">, TInputs, TCall> {
+    return this.addTrigger("status", {});
+  }
+
+  private addTrigger<TEvent extends keyof IWorkflowTrigger>(
+    event: TEvent,
+    config: IWorkflowTrigger[TEvent]
+  ): Workflow<WithEvent<TEvents, TEvent>, TInputs, TCall> {
+    this.config.on[event] = config;
+    return this as unknown as Workflow<WithEvent<TEvents, TEvent>, TInputs, TCall>;
   }
 
   /**
@@ -142,29 +546,52 @@ export class Workflow {
    * Adds a job to the workflow.
    *
    * @param jobId - The job identifier
-   * @param jobFn - A function that configures a job
+   * @param jobFn - A function that configures a job; it also receives the workflow's contexts
    * @stability stable
    */
   addJob<TOutputs extends Record<string, string>>(
     jobId: JobId,
-    jobFn: (job: Job<Record<string, never>>) => Job<TOutputs>
+    jobFn: (job: Job<Record<string, never>>, contexts: WorkflowContextsOf<this>) => Job<TOutputs>
   ): this;
   addJob<TOutputs extends Record<string, string>>(
     jobId: JobId,
-    jobOrFn: Job<TOutputs> | ((job: Job<Record<string, never>>) => Job<TOutputs>)
+    jobOrFn:
+      | Job<TOutputs>
+      | ((job: Job<Record<string, never>>, contexts: WorkflowContextsOf<this>) => Job<TOutputs>)
   ): this {
     if (jobOrFn instanceof Job) {
       jobOrFn.id = jobId;
       this.jobInstances.set(jobId, jobOrFn);
     } else {
-      const jobInstance = new Job<Record<string, never>>("ubuntu-latest");
+      const jobInstance = new Job<Record<string, never>>(getConfig().defaultRunner);
       jobInstance.id = jobId;
-      const configuredJob = jobOrFn(jobInstance);
+      const configuredJob = jobOrFn(jobInstance, this.contexts);
       this.jobInstances.set(jobId, configuredJob);
     }
     return this;
   }
 
+  /**
+   * The contexts (`github`, `env`, `secrets`, ...) as typed expressions.
+   * `github.event` is typed by the triggers added so far, e.g. `github.event.pull_request`
+   * is only available once `onPullRequest()` was called.
+   *
+   * @stability stable
+   */
+  get contexts(): WorkflowContextsOf<this> {
+    return workflowContexts<TEvents, TInputs>() as WorkflowContextsOf<this>;
+  }
+
+  /**
+   * The `inputs` context, typed by the inputs declared with `onWorkflowDispatch()`:
+   * `workflow.inputs.environment.eq("production")` only accepts the input's options.
+   *
+   * @stability stable
+   */
+  get inputs(): WorkflowContextsOf<this>["inputs"] {
+    return this.contexts.inputs;
+  }
+
   /**
    * Get job instances for processing.
    * @internal
@@ -173,14 +600,30 @@ export class Workflow {
     return this.jobInstances;
   }
 
+  /**
+   * Get the workflow name without building the configuration.
+   * @internal
+   */
+  _getName(): string | undefined {
+    return this.config.name;
+  }
+
+  /**
+   * Get the configuration of a trigger.
+   * @internal
+   */
+  _getTrigger<TEvent extends keyof IWorkflowTrigger>(event: TEvent): IWorkflowTrigger[TEvent] {
+    return this.config.on[event];
+  }
+
   /**
    * Sets environment variables for the workflow.
    *
    * @param variables - Environment variables
    * @stability stable
    */
-  env(variables: { [key: string]: string }): this {
-    this.config.env = { ...this.config.env, ...variables };
+  env(variables: { [key: string]: ExpressionLike }): this {
+    this.config.env = { ...this.config.env, ...resolveExpressions(variables) };
     return this;
   }
 
@@ -201,22 +644,108 @@ export class Workflow {
    * @param permissions - Permission settings
    * @stability stable
    */
-  permissions(permissions: IWorkflowPermissions): this {
+  permissions(permissions: PermissionsLike): this {
     this.config.permissions = permissions;
     return this;
   }
 
+  /**
+   * Sets concurrency settings for the workflow: at most one run of the group is in progress
+   * and one pending. See `concurrencyPerBranch()` and the other helpers for common groups.
+   *
+   * @param group - Concurrency group name
+   * @param cancelInProgress - Whether to cancel in-progress runs, or an expression deciding it,
+   * e.g. `cancelInProgressExcept(["main"])`
+   * @stability stable
+   */
+  concurrency(group: ExpressionLike, cancelInProgress?: boolean | ExpressionLike): this {
+    this.config.concurrency = {
+      group: resolveExpression(group),
+      "cancel-in-progress":
+        cancelInProgress instanceof Expression ? cancelInProgress.toString() : cancelInProgress,
+    };
+    return this;
+  }
+
+  /**
+   * Opts in to least-privilege analysis of the token permissions. The permissions each job
+   * needs are inferred from its steps (see `inferJobPermissions()`), and `validate()` warns
+   * about jobs granted less than that, permissions granted beyond what any job needs,
+   * `write-all`, jobs without permissions and steps whose permissions are unknown.
+   *
+   * @param mode - "suggest" only reports; "emit" also sets the inferred permissions on every
+   * job without permissions whose steps are all known
+   * @stability stable
+   */
+  inferPermissions(mode: "suggest" | "emit" = "suggest"): this {
+    this.permissionInference = mode;
+    return this;
+  }
+
+  /**
+   * Declares the deployment environments the jobs of this workflow deploy to.
+   * `validate()` then reports `job.environment()` names that are not declared, e.g. typos.
+   *
+   * @param names - The environment names, e.g. ["staging", "production"]
+   * @stability stable
+   */
+  environments(names: string[]): this {
+    this.environmentNames = [...(this.environmentNames ?? []), ...names];
+    return this;
+  }
+
   /**
    * Sets the run name for the workflow.
    *
    * @param name - The run name
    * @stability stable
    */
-  runName(name: string): this {
-    this.config["run-name"] = name;
+  runName(name: ExpressionLike): this {
+    this.config["run-name"] = resolveExpression(name);
     return this;
   }
 
+  /**
+   * Tests whether a push or pull request would trigger the workflow, given the branch, tag
+   * and path filters of its trigger.
+   *
+   * @param event - The triggering event
+   * @param change - The pushed ref (or base branch of the pull request) and the changed files
+   * @returns Whether the workflow would run; false when the workflow has no such trigger
+   * @stability stable
+   */
+  wouldTrigger(
+    event: "push" | "pull_request" | "pull_request_target",
+    change: ITriggerChange
+  ): boolean {
+    const config = this.config.on[event];
+    return config !== undefined && matchesTriggerFilters(config, change);
+  }
+
+  /**
+   * Validates the workflow and returns every problem found, e.g. `needs` pointing at unknown
+   * jobs, dependency cycles, duplicate step ids or invalid expressions.
+   * Synthesis runs this check and fails when errors are found.
+   *
+   * @returns The diagnostics, empty when the workflow is valid
+   * @stability stable
+   */
+  validate(): IDiagnostic[] {
+    const jobs: Record<string, ReturnType<Job["toJSON"]>> = {};
+    for (const [jobId, job] of this.jobInstances.entries()) {
+      jobs[jobId] = job._getConfig(this.config.defaults?.run?.shell);
+    }
+    return validateWorkflowConfig(
+      { ...this.config, jobs: this.withPermissions(jobs) },
+      {
+        environments: this.environmentNames,
+        analyzePermissions: this.permissionInference !== undefined,
+        actionPermissions: getConfig().actionPermissions,
+        runners: getConfig().runners,
+      }
+    );
+  }
+
   /**
    * Converts the workflow to JSON configuration.
    *
@@ -227,13 +756,22 @@ export class Workflow {
     // Convert job instances to JSON
     const jobs: Record<string, ReturnType<Job["toJSON"]>> = {};
     for (const [jobId, job] of this.jobInstances.entries()) {
-      jobs[jobId] = job.toJSON();
+      jobs[jobId] = job._toJSON(this.config.defaults?.run?.shell);
     }
-    this.config.jobs = jobs;
+    this.config.jobs = this.withPermissions(jobs);
     // Set default run name if not explicitly set
     if (!this.config["run-name"]) {
       this.config["run-name"] = defaultRunName();
     }
     return { ...this.config };
   }
+
+  /**
+   * Set the inferred permissions on the jobs, when opted in with `inferPermissions("emit")`.
+   */
+  private withPermissions(jobs: Record<string, IJob>): Record<string, IJob> {
+    return this.permissionInference === "emit"
+      ? withInferredPermissions(jobs, getConfig().actionPermissions)
+      : jobs;
+  }
 }
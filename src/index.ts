@@ -1,7 +1,58 @@
 export { Workflow } from "./core/workflow.js";
 export { Job } from "./core/job.js";
 export { Step } from "./core/step.js";
+export type { StepOutputsContext } from "./core/step.js";
 export * from "./core/types.js";
 export * from "./core/job-outputs.js";
 export * from "./core/run-name-helpers.js";
+export * from "./core/concurrency-helpers.js";
+export * from "./core/expressions.js";
+export * from "./core/contexts.js";
+export * from "./core/event-payloads.js";
+export { matchesFilterPattern, matchesTriggerFilters } from "./core/trigger-filters.js";
+export type { ITriggerChange } from "./core/trigger-filters.js";
+export { describeCron, validateCron } from "./core/cron.js";
+export { Matrix, expandMatrix } from "./core/matrix.js";
+export type {
+  IMatrixExpansion,
+  MatrixContext,
+  MatrixProperty,
+  UntypedMatrix,
+} from "./core/matrix.js";
+export { GITHUB_HOSTED_RUNNERS, describeRunner } from "./core/runners.js";
+export { Schedule } from "./core/schedule.js";
+export { renderScript } from "./core/shells.js";
+export {
+  addMask,
+  addPath,
+  appendStepSummary,
+  setEnv,
+  setJsonOutput,
+  setMultilineOutput,
+} from "./core/environment-files.js";
+export type { Weekday } from "./core/schedule.js";
+export { ReusableWorkflow } from "./core/reusable-workflow.js";
+export type {
+  IReusableWorkflow,
+  WorkflowCallArguments,
+  WorkflowCallInputs,
+  WorkflowCallOutputs,
+  WorkflowCallSecrets,
+  WorkflowCallWith,
+} from "./core/reusable-workflow.js";
 export { synthesize, synthesizeMultiple } from "./synth/yaml.js";
+export { checkWorkflows } from "./synth/check.js";
+export type { DriftResult } from "./synth/check.js";
+export type { SynthesisEntry } from "./synth/yaml.js";
+export { convertWorkflowYaml } from "./convert/converter.js";
+export type { IConvertOptions, IConvertResult } from "./convert/converter.js";
+export { compareWorkflowConfigs } from "./convert/compare.js";
+export type { WorkflowDifference } from "./convert/compare.js";
+export { validateExpressions } from "./validate/expressions.js";
+export type { ExpressionIssue } from "./validate/expressions.js";
+export { analyzePermissions, inferJobPermissions } from "./validate/permissions.js";
+export type { IInferredPermissions } from "./validate/permissions.js";
+export { formatDiagnostics, validateWorkflowConfig } from "./validate/workflow.js";
+export type { IDiagnostic, IValidationOptions } from "./validate/workflow.js";
+export { defineConfig, loadConfig, setConfig } from "./config/config.js";
+export type { ITsActionsConfig, IYamlStyleOptions } from "./config/config.js";
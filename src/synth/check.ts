@@ -0,0 +1,92 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import { getConfig } from "../config/config.js";
+import { createUnifiedDiff } from "./diff.js";
+import { type ManifestEntry, readManifest, toManifestPath } from "./manifest.js";
+import { type SynthesisEntry, findStaleEntries, renderWorkflow } from "./yaml.js";
+
+/**
+ * Result of comparing a synthesized workflow with the file on disk.
+ */
+export interface DriftResult {
+  /** The workflow file name (e.g. "ci.yml") */
+  filename: string;
+  /** Path of the file on disk */
+  filePath: string;
+  /**
+   * "up-to-date" when identical, "changed" when the file differs, "missing" when it does not
+   * exist, "stale" when it was generated earlier and the next synth would delete it
+   */
+  status: "up-to-date" | "changed" | "missing" | "stale";
+  /** Unified diff from the file on disk to the synthesized YAML (empty when up to date, to nothing when stale) */
+  diff: string;
+}
+
+/**
+ * Synthesize workflows in memory and compare them with the files in outputDir.
+ * Nothing is written to disk. Files recorded in the output directory's manifest that
+ * synthesizing these workflows would delete (renamed or removed workflows) are reported as stale.
+ *
+ * @param workflows - Array of workflows with optional filenames and source files
+ * @param outputDir - The directory holding the committed YAML (default: the configured outputDir)
+ * @returns One result per workflow, followed by one per stale file
+ */
+export async function checkWorkflows(
+  workflows: SynthesisEntry[],
+  outputDir: string = getConfig().outputDir
+): Promise<DriftResult[]> {
+  const results: DriftResult[] = [];
+  const generated: ManifestEntry[] = [];
+
+  for (const { workflow, filename, source } of workflows) {
+    const rendered = await renderWorkflow(workflow, filename, source);
+    const filePath = join(outputDir, rendered.filename);
+    const label = relative(process.cwd(), filePath);
+    generated.push({
+      file: rendered.filename,
+      source: rendered.source && toManifestPath(outputDir, rendered.source),
+    });
+
+    if (!existsSync(filePath)) {
+      results.push({
+        filename: rendered.filename,
+        filePath,
+        status: "missing",
+        diff: createUnifiedDiff("", rendered.content, "/dev/null", `${label} (synthesized)`),
+      });
+      continue;
+    }
+
+    const current = readFileSync(filePath, "utf-8");
+    const diff = createUnifiedDiff(current, rendered.content, label, `${label} (synthesized)`);
+    results.push({
+      filename: rendered.filename,
+      filePath,
+      status: diff ? "changed" : "up-to-date",
+      diff,
+    });
+  }
+
+  for (const entry of findStaleEntries(readManifest(outputDir).files, generated, outputDir)) {
+    const filePath = join(outputDir, entry.file);
+    if (!existsSync(filePath)) {
+      continue;
+    }
+    const label = relative(process.cwd(), filePath);
+    results.push({
+      filename: entry.file,
+      filePath,
+      status: "stale",
+      diff: createUnifiedDiff(readFileSync(filePath, "utf-8"), "", label, "/dev/null"),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Check whether any drift result indicates that the committed YAML is out of date.
+ */
+export function hasDrift(results: DriftResult[]): boolean {
+  return results.some((result) => result.status !== "up-to-date");
+}
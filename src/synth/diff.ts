@@ -0,0 +1,169 @@
+/**
+ * Minimal line-based unified diff used to report drift between
+ * synthesized workflows and the YAML committed to the repository.
+ */
+
+const TRAILING_NEWLINE_REGEX = /\n$/;
+
+type DiffOp = { type: "equal" | "delete" | "insert"; line: string };
+
+/**
+ * Pick the diagonal a Myers path on diagonal k came from at step d.
+ * `at` returns the furthest x reached on a diagonal in the previous step.
+ */
+function previousDiagonal(k: number, d: number, at: (diagonal: number) => number): number {
+  return k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+}
+
+/**
+ * Run the forward pass of Myers' algorithm and record the furthest-reaching
+ * x per diagonal before every step.
+ */
+function traceEdits(oldLines: string[], newLines: string[]): number[][] {
+  const n = oldLines.length;
+  const m = newLines.length;
+  const offset = n + m + 1;
+  const v = new Array<number>(2 * offset).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= n + m; d++) {
+    // Only diagonals -(d + 1)..(d + 1) are read when backtracking step d
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      const prevK = previousDiagonal(k, d, (diagonal) => v[offset + diagonal]);
+      let x = prevK === k + 1 ? v[offset + prevK] : v[offset + prevK] + 1;
+      let y = x - k;
+      while (x < n && y < m && oldLines[x] === newLines[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return trace;
+      }
+    }
+  }
+
+  return trace;
+}
+
+/**
+ * Compute the shortest edit script between two line arrays (Myers' algorithm).
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  const trace = traceEdits(oldLines, newLines);
+
+  // Walk the trace backwards to recover the edit script
+  const ops: DiffOp[] = [];
+  let x = oldLines.length;
+  let y = newLines.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const at = (diagonal: number): number => trace[d][diagonal + d + 1];
+    const prevK = previousDiagonal(x - y, d, at);
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", line: oldLines[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(
+        x === prevX
+          ? { type: "insert", line: newLines[y - 1] }
+          : { type: "delete", line: oldLines[x - 1] }
+      );
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Split text into lines, ignoring the trailing newline.
+ */
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  return text.replace(TRAILING_NEWLINE_REGEX, "").split("\n");
+}
+
+/**
+ * Find the end (exclusive) of the hunk starting with the change at index.
+ * Changes closer than 2 * context unchanged lines are merged into one hunk.
+ */
+function findHunkEnd(ops: DiffOp[], index: number, context: number): number {
+  let lastChange = index;
+  for (let i = index; i < ops.length && i - lastChange <= context * 2; i++) {
+    if (ops[i].type !== "equal") {
+      lastChange = i;
+    }
+  }
+  return Math.min(ops.length, lastChange + context + 1);
+}
+
+/**
+ * Format the "@@ -a,b +c,d @@" header for a hunk.
+ * `preceding` is the list of ops preceding the hunk.
+ */
+function formatHunkHeader(preceding: DiffOp[], hunk: DiffOp[]): string {
+  const oldOffset = preceding.filter((op) => op.type !== "insert").length;
+  const newOffset = preceding.filter((op) => op.type !== "delete").length;
+  const oldCount = hunk.filter((op) => op.type !== "insert").length;
+  const newCount = hunk.filter((op) => op.type !== "delete").length;
+  // Empty ranges point at the line before the hunk, per the unified diff format
+  const oldStart = oldCount === 0 ? oldOffset : oldOffset + 1;
+  const newStart = newCount === 0 ? newOffset : newOffset + 1;
+  return `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`;
+}
+
+const OP_PREFIX: Record<DiffOp["type"], string> = { equal: " ", delete: "-", insert: "+" };
+
+/**
+ * Create a unified diff between two texts.
+ *
+ * @param oldText - The original text (e.g. the file on disk)
+ * @param newText - The updated text (e.g. freshly synthesized YAML)
+ * @param oldLabel - Label for the original text in the diff header
+ * @param newLabel - Label for the updated text in the diff header
+ * @param context - Number of unchanged lines shown around each change (default: 3)
+ * @returns The unified diff, or an empty string if the texts are equal
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3
+): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === "equal") {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - context);
+    const end = findHunkEnd(ops, index, context);
+    const hunk = ops.slice(start, end);
+
+    output.push(formatHunkHeader(ops.slice(0, start), hunk));
+    for (const op of hunk) {
+      output.push(`${OP_PREFIX[op.type]}${op.line}`);
+    }
+    index = end;
+  }
+
+  return `${output.join("\n")}\n`;
+}
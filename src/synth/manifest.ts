@@ -0,0 +1,71 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+
+/**
+ * Name of the manifest file written next to synthesized workflows
+ */
+export const MANIFEST_FILE = ".ts-actions-manifest.json";
+
+export interface ManifestEntry {
+  /** The generated file name, relative to the output directory */
+  file: string;
+  /** The TypeScript file that defined the workflow, relative to the output directory */
+  source?: string;
+}
+
+/**
+ * Record of the files ts-actions generated in an output directory.
+ * Only files listed here are ever deleted as stale output.
+ */
+export interface SynthManifest {
+  version: 1;
+  files: ManifestEntry[];
+}
+
+/**
+ * Express a file path relative to the output directory with forward slashes,
+ * so manifests are identical across platforms.
+ */
+export function toManifestPath(outputDir: string, file: string): string {
+  return relative(outputDir, file).split(sep).join("/");
+}
+
+/**
+ * Load the manifest from an output directory (empty if none exists yet).
+ */
+export function readManifest(outputDir: string): SynthManifest {
+  const manifestPath = join(outputDir, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    return { version: 1, files: [] };
+  }
+
+  try {
+    return JSON.parse(readFileSync(manifestPath, "utf-8")) as SynthManifest;
+  } catch (error) {
+    console.warn(`Failed to read ${manifestPath}, no stale files will be removed:`, error);
+    return { version: 1, files: [] };
+  }
+}
+
+/**
+ * Write the manifest to an output directory.
+ */
+export function writeManifest(outputDir: string, manifest: SynthManifest): void {
+  const files = [...manifest.files].sort((a, b) => a.file.localeCompare(b.file));
+  writeFileSync(
+    join(outputDir, MANIFEST_FILE),
+    `${JSON.stringify({ version: 1, files }, null, 2)}\n`,
+    "utf-8"
+  );
+}
+
+/**
+ * Merge newly generated entries into a manifest, replacing entries for the same file.
+ */
+export function mergeManifest(manifest: SynthManifest, entries: ManifestEntry[]): SynthManifest {
+  const generated = new Set(entries.map((entry) => entry.file));
+  return {
+    version: 1,
+    files: [...manifest.files.filter((entry) => !generated.has(entry.file)), ...entries],
+  };
+}
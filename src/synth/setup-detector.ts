@@ -1,4 +1,5 @@
 import type { IActionClassType } from "../actions/types.js";
+import { getConfig } from "../config/config.js";
 import { Step } from "../core/step.js";
 import type { Workflow } from "../core/workflow.js";
 
@@ -17,7 +18,7 @@ export function detectRequiredSetupActions(workflow: Workflow): SetupAction[] {
   const jobInstances = workflow._getJobInstances();
 
   let needsNode = false;
-  let nodeVersion = "24"; // Default
+  let nodeVersion = getConfig().defaultNodeVersion;
 
   // Check all jobs and steps
   for (const [, job] of jobInstances.entries()) {
@@ -28,7 +29,7 @@ export function detectRequiredSetupActions(workflow: Workflow): SetupAction[] {
       const tsFunction = step._getTypeScriptFunction();
       if (tsFunction) {
         needsNode = true;
-        nodeVersion = tsFunction.options?.nodeVersion || "24";
+        nodeVersion = tsFunction.options?.nodeVersion || getConfig().defaultNodeVersion;
       }
 
       // Check if setup-node is already used
@@ -61,13 +62,13 @@ function getNodeSetupRequirement(stepInstances: Step[]): {
   nodeVersion: string;
 } {
   let needsNode = false;
-  let nodeVersion = "24";
+  let nodeVersion = getConfig().defaultNodeVersion;
 
   for (const step of stepInstances) {
     const tsFunction = step._getTypeScriptFunction();
     if (tsFunction) {
       needsNode = true;
-      nodeVersion = tsFunction.options?.nodeVersion || "24";
+      nodeVersion = tsFunction.options?.nodeVersion || getConfig().defaultNodeVersion;
     }
   }
 
@@ -0,0 +1,258 @@
+import { type FSWatcher, existsSync, mkdirSync, readFileSync, watch, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+// biome-ignore lint/style/noNamespaceImport: TypeScript compiler API requires namespace import
+import * as ts from "typescript";
+import { type ManifestEntry, toManifestPath } from "./manifest.js";
+import { loadWorkflowsFromFile } from "./workflow-loader.js";
+import { recordGeneratedFiles, renderWorkflow } from "./yaml.js";
+
+// Source files of ts-actions itself are never reloaded, so class identities stay stable
+const LIBRARY_ROOT = resolve(__dirname, "..");
+
+const RESOLUTION_OPTIONS: ts.CompilerOptions = {
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  allowJs: true,
+  resolveJsonModule: true,
+};
+
+/**
+ * Summary of one synthesis pass in watch mode.
+ */
+export interface WatchSummary {
+  /** Source files whose change triggered this pass (empty for the initial pass) */
+  changedFiles: string[];
+  /** YAML files that were written because their content changed */
+  written: string[];
+  /** YAML files that were re-synthesized but did not change */
+  unchanged: string[];
+  /** Entries that failed to load or synthesize */
+  errors: Array<{ entry: string; error: unknown }>;
+}
+
+export interface WatchOptions {
+  /** Called after every synthesis pass */
+  onSynthesize?: (summary: WatchSummary) => void;
+  /** Delay before a burst of file changes is processed (default: 100ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Collect the local import graph of a TypeScript file: the file itself plus every
+ * relative import it (transitively) pulls in. Package imports are not followed.
+ * This covers functions passed to runTypeScript(), whose source is read from disk
+ * during synthesis.
+ *
+ * @param entryFile - The file to start from
+ * @returns Absolute paths of all files in the graph
+ */
+export function collectImportGraph(entryFile: string): string[] {
+  const visited = new Set<string>();
+  const pending = [resolve(entryFile)];
+
+  while (pending.length > 0) {
+    const file = pending.pop() as string;
+    if (visited.has(file) || !existsSync(file)) {
+      continue;
+    }
+    visited.add(file);
+
+    const { importedFiles } = ts.preProcessFile(readFileSync(file, "utf-8"), true, true);
+    for (const { fileName } of importedFiles) {
+      if (!fileName.startsWith(".")) {
+        continue;
+      }
+      const { resolvedModule } = ts.resolveModuleName(fileName, file, RESOLUTION_OPTIONS, ts.sys);
+      if (resolvedModule && !resolvedModule.isExternalLibraryImport) {
+        pending.push(resolve(resolvedModule.resolvedFileName));
+      }
+    }
+  }
+
+  return [...visited];
+}
+
+/**
+ * Watches workflow entry files and their import graphs, re-synthesizing
+ * only the entries affected by a change and rewriting only YAML that changed.
+ */
+export class WorkflowWatcher {
+  private readonly entries: string[];
+  private readonly outputDir: string;
+  private readonly options: WatchOptions;
+  private graphs: Map<string, string[]> = new Map();
+  private watchers: Map<string, FSWatcher> = new Map();
+  private pendingChanges: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new watcher.
+   *
+   * @param entries - Entry files exporting workflows
+   * @param outputDir - Output directory for YAML files
+   * @param options - Watch options
+   */
+  constructor(entries: string[], outputDir: string, options: WatchOptions = {}) {
+    this.entries = entries.map((entry) => resolve(entry));
+    this.outputDir = outputDir;
+    this.options = options;
+  }
+
+  /**
+   * Synthesize every entry once and start watching for changes.
+   *
+   * @returns Summary of the initial synthesis pass
+   */
+  async start(): Promise<WatchSummary> {
+    const summary = await this.synthesizeEntries(this.entries, []);
+    this.updateWatchers();
+    return summary;
+  }
+
+  /**
+   * Re-synthesize the entries affected by the given changed files.
+   *
+   * @param changedFiles - Absolute paths of changed source files
+   * @returns Summary of the synthesis pass
+   */
+  async rebuild(changedFiles: string[]): Promise<WatchSummary> {
+    const changed = changedFiles.map((file) => resolve(file));
+    const summary = await this.synthesizeEntries(this.affectedEntries(changed), changed);
+    this.updateWatchers();
+    return summary;
+  }
+
+  /**
+   * Stop watching.
+   */
+  close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * The entries whose import graph holds one of the changed files.
+   */
+  private affectedEntries(changedFiles: string[]): string[] {
+    return this.entries.filter((entry) =>
+      (this.graphs.get(entry) ?? [entry]).some((file) => changedFiles.includes(file))
+    );
+  }
+
+  private async synthesizeEntries(
+    entries: string[],
+    changedFiles: string[]
+  ): Promise<WatchSummary> {
+    const summary: WatchSummary = { changedFiles, written: [], unchanged: [], errors: [] };
+    const generated: ManifestEntry[] = [];
+    if (!existsSync(this.outputDir)) {
+      mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    for (const entry of entries) {
+      try {
+        const graph = collectImportGraph(entry);
+        this.graphs.set(entry, graph);
+        clearModuleCache(graph);
+
+        for (const { workflow, sourceFile } of loadWorkflowsFromFile(entry)) {
+          const rendered = await renderWorkflow(workflow, undefined, sourceFile);
+          const filePath = join(this.outputDir, rendered.filename);
+          generated.push({
+            file: rendered.filename,
+            source: toManifestPath(this.outputDir, sourceFile),
+          });
+          if (existsSync(filePath) && readFileSync(filePath, "utf-8") === rendered.content) {
+            summary.unchanged.push(rendered.filename);
+          } else {
+            writeFileSync(filePath, rendered.content, "utf-8");
+            summary.written.push(rendered.filename);
+          }
+        }
+      } catch (error) {
+        summary.errors.push({ entry, error });
+      }
+    }
+
+    // Watch mode only records files; stale output is removed by the next full synth
+    recordGeneratedFiles(this.outputDir, generated);
+    this.options.onSynthesize?.(summary);
+    return summary;
+  }
+
+  /**
+   * Watch the directories of every file in the current import graphs.
+   * Directories are watched instead of files so editors that replace files on save are handled.
+   */
+  private updateWatchers(): void {
+    const files = new Set([...this.graphs.values()].flat());
+    const directories = new Set([...files].map((file) => dirname(file)));
+
+    for (const [directory, watcher] of this.watchers.entries()) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) {
+        continue;
+      }
+      const watcher = watch(directory, (_event, fileName) => {
+        const file = fileName ? join(directory, fileName.toString()) : null;
+        if (file && [...this.graphs.values()].some((graph) => graph.includes(file))) {
+          this.scheduleRebuild(file);
+        }
+      });
+      this.watchers.set(directory, watcher);
+    }
+  }
+
+  private scheduleRebuild(file: string): void {
+    this.pendingChanges.add(file);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const changed = [...this.pendingChanges];
+      this.pendingChanges.clear();
+      // Serialize passes so overlapping changes never write concurrently; a failed pass is
+      // reported for its entries and does not stop the passes after it
+      this.running = this.running
+        .then(async () => {
+          await this.rebuild(changed);
+        })
+        .catch((error: unknown) => {
+          const affected = this.affectedEntries(changed);
+          this.options.onSynthesize?.({
+            changedFiles: changed,
+            written: [],
+            unchanged: [],
+            errors: (affected.length > 0 ? affected : this.entries).map((entry) => ({
+              entry,
+              error,
+            })),
+          });
+        });
+    }, this.options.debounceMs ?? 100);
+  }
+}
+
+/**
+ * Drop user files from the require cache so the next load sees their new content.
+ */
+function clearModuleCache(files: string[]): void {
+  for (const file of files) {
+    if (!file.startsWith(LIBRARY_ROOT)) {
+      require.cache[file] = undefined;
+    }
+  }
+}
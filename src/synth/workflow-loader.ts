@@ -0,0 +1,75 @@
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { Workflow } from "../core/workflow.js";
+
+export interface LoadedWorkflow {
+  /** The workflow instance */
+  workflow: Workflow;
+  /** Name of the export the workflow was found under */
+  exportName: string;
+  /** Absolute path of the file that exported the workflow */
+  sourceFile: string;
+}
+
+/**
+ * Check if a value is a Workflow instance.
+ * Falls back to duck typing so workflows built against another copy of
+ * ts-actions (e.g. the published package vs. a local checkout) are still found.
+ */
+export function isWorkflow(value: unknown): value is Workflow {
+  if (value instanceof Workflow) {
+    return true;
+  }
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as Workflow).toJSON === "function" &&
+    typeof (value as Workflow)._getJobInstances === "function"
+  );
+}
+
+/**
+ * Collect workflows from a module export value.
+ * Supports direct Workflow exports and arrays of workflows.
+ */
+function collectWorkflows(value: unknown): Workflow[] {
+  if (isWorkflow(value)) {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.filter(isWorkflow);
+  }
+  return [];
+}
+
+/**
+ * Load a TypeScript (or JavaScript) file and discover every exported Workflow.
+ * TypeScript files require the tsx loader to be registered, which the
+ * ts-actions binary does before running any command.
+ *
+ * @param file - Path to the file containing workflow definitions
+ * @returns The exported workflows in export order
+ */
+export function loadWorkflowsFromFile(file: string): LoadedWorkflow[] {
+  const sourceFile = resolve(file);
+  if (!existsSync(sourceFile)) {
+    throw new Error(`Workflow file not found: ${sourceFile}`);
+  }
+
+  const moduleExports: Record<string, unknown> = require(sourceFile);
+  const seen = new Set<Workflow>();
+  const loaded: LoadedWorkflow[] = [];
+
+  for (const [exportName, value] of Object.entries(moduleExports)) {
+    for (const workflow of collectWorkflows(value)) {
+      // The same workflow can be exported under several names (e.g. named + default)
+      if (seen.has(workflow)) {
+        continue;
+      }
+      seen.add(workflow);
+      loaded.push({ workflow, exportName, sourceFile });
+    }
+  }
+
+  return loaded;
+}
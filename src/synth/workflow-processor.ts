@@ -1,3 +1,4 @@
+import { getConfig } from "../config/config.js";
 import { Step } from "../core/step.js";
 import type { IWorkflowConfig, TypeScriptFunction } from "../core/types.js";
 import type { Workflow } from "../core/workflow.js";
@@ -94,7 +95,7 @@ async function processTypeScriptStep(
   // Transpile function
   const transpiled = await transpileTypeScriptFunction(extracted, tsData.args, {
     bundle: true,
-    nodeVersion: tsData.options?.nodeVersion || "24",
+    nodeVersion: tsData.options?.nodeVersion || getConfig().defaultNodeVersion,
   });
 
   // Create new step with transpiled code
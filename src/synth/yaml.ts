@@ -1,72 +1,251 @@
-import { existsSync, mkdirSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
-import { stringify } from "yaml";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { Document, isScalar } from "yaml";
+import { getConfig } from "../config/config.js";
+import { describeCron } from "../core/cron.js";
+import { workflowFilename } from "../core/reusable-workflow.js";
 import type { Workflow } from "../core/workflow.js";
+import { formatDiagnostics } from "../validate/workflow.js";
+import {
+  type ManifestEntry,
+  mergeManifest,
+  readManifest,
+  toManifestPath,
+  writeManifest,
+} from "./manifest.js";
 import { processWorkflowSteps } from "./workflow-processor.js";
 
+const SOURCE_PLACEHOLDER_REGEX = /\{source\}/g;
+
 /**
- * Synthesizes a workflow to a YAML file.
+ * A workflow to synthesize, with an optional file name and defining source file.
+ */
+export interface SynthesisEntry {
+  workflow: Workflow;
+  /** Output file name (generated from the workflow name if omitted) */
+  filename?: string;
+  /** The TypeScript file that defined the workflow, named in the header and the manifest */
+  source?: string;
+}
+
+/**
+ * A workflow rendered to YAML, ready to be written to disk.
+ */
+export interface RenderedWorkflow {
+  /** The file name the YAML is written to (e.g. "ci.yml") */
+  filename: string;
+  /** The YAML content */
+  content: string;
+  /** Absolute path of the TypeScript file that defined the workflow, if known */
+  source?: string;
+}
+
+/**
+ * Describe each schedule in a comment next to its cron line, e.g. `# At 06:30 UTC`.
+ */
+function annotateSchedules(document: Document, config: ReturnType<Workflow["toJSON"]>): void {
+  for (const [index, schedule] of (config.on.schedule ?? []).entries()) {
+    const node = document.getIn(["on", "schedule", index, "cron"], true);
+    if (isScalar(node)) {
+      node.comment = ` ${describeCron(schedule.cron)}`;
+    }
+  }
+}
+
+/**
+ * Convert a workflow configuration to YAML using the configured style options.
+ */
+function toYaml(config: ReturnType<Workflow["toJSON"]>): string {
+  const style = getConfig().yaml;
+  const options = {
+    indent: style.indent,
+    lineWidth: style.lineWidth,
+    indentSeq: style.indentSequences,
+    singleQuote: style.singleQuote ? true : null,
+  };
+  const document = new Document(config);
+  annotateSchedules(document, config);
+  return document.toString(options);
+}
+
+/**
+ * The directory source paths in headers are relative to: the directory of the config file,
+ * else the repository root holding the source, else the source's own directory.
+ */
+function headerBaseDir(source: string): string {
+  const { configFile } = getConfig();
+  if (configFile) {
+    return dirname(configFile);
+  }
+  for (let directory = dirname(source); ; directory = dirname(directory)) {
+    if (existsSync(join(directory, ".git"))) {
+      return directory;
+    }
+    if (dirname(directory) === directory) {
+      return dirname(source);
+    }
+  }
+}
+
+/**
+ * Render the configured header as YAML comment lines (empty when disabled).
+ * The source path is shown relative to the project (see `headerBaseDir()`) with forward
+ * slashes, so the output is the same on every machine and from every working directory.
+ */
+function renderHeader(source: string | undefined): string {
+  const template = getConfig().header;
+  if (template === false) {
+    return "";
+  }
+
+  const sourceLabel = source
+    ? relative(headerBaseDir(source), source).split(sep).join("/")
+    : "unknown source";
+  const lines = template.replace(SOURCE_PLACEHOLDER_REGEX, sourceLabel).split("\n");
+  return `${lines.map((line) => (line ? `# ${line}` : "#")).join("\n")}\n`;
+}
+
+/**
+ * Renders a workflow to YAML without writing it to disk.
+ * This is the single rendering path shared by synthesis and drift checking.
+ * Validation errors fail rendering; warnings are printed, info diagnostics are not.
  *
- * @param workflow - The workflow to synthesize
- * @param outputDir - The output directory (default: "dist")
- * @stability stable
- * @jsii ignore
+ * @param workflow - The workflow to render
+ * @param filename - Optional file name (generated from the workflow name if omitted)
+ * @param source - Optional defining source file, named in the header
+ * @returns The file name and YAML content
  */
-export async function synthesize(workflow: Workflow, outputDir = "dist"): Promise<void> {
+export async function renderWorkflow(
+  workflow: Workflow,
+  filename?: string,
+  source?: string
+): Promise<RenderedWorkflow> {
   // Process TypeScript function steps before converting to JSON
   await processWorkflowSteps(workflow);
 
+  const diagnostics = workflow.validate();
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(formatDiagnostics(workflow._getName(), errors));
+  }
+  for (const diagnostic of diagnostics.filter(({ severity }) => severity === "warning")) {
+    console.warn(
+      `Workflow "${workflow._getName() ?? "(unnamed)"}": ${diagnostic.severity}: ${diagnostic.path}: ${diagnostic.message}`
+    );
+  }
+
   const config = workflow.toJSON();
-  const yamlContent = stringify(config, {
-    indent: 2,
-  });
+  const sourceFile = source && resolve(source);
+  return {
+    filename: workflowFilename(config.name, filename),
+    content: `${renderHeader(sourceFile)}${toYaml(config)}`,
+    source: sourceFile,
+  };
+}
 
-  // Ensure output directory exists
+/**
+ * Render workflows and write them to outputDir.
+ * Returns the manifest entries of the written files.
+ */
+async function writeWorkflows(
+  workflows: SynthesisEntry[],
+  outputDir: string
+): Promise<ManifestEntry[]> {
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
   }
 
-  // Generate filename from workflow name or use default
-  const workflowName = config.name || "workflow";
-  const filename = `${workflowName.toLowerCase().replace(/\s+/g, "-")}.yml`;
-  const filePath = join(outputDir, filename);
+  const entries: ManifestEntry[] = [];
+  for (const { workflow, filename, source } of workflows) {
+    const rendered = await renderWorkflow(workflow, filename, source);
+    writeFileSync(join(outputDir, rendered.filename), rendered.content, "utf-8");
+    entries.push({
+      file: rendered.filename,
+      source: rendered.source && toManifestPath(outputDir, rendered.source),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Record generated files in the output directory's manifest without removing anything.
+ * Used when only part of the workflows are synthesized (single workflow, watch mode).
+ *
+ * @internal
+ */
+export function recordGeneratedFiles(outputDir: string, entries: ManifestEntry[]): void {
+  writeManifest(outputDir, mergeManifest(readManifest(outputDir), entries));
+}
+
+/**
+ * Find previously generated files that this run no longer produces.
+ * A file is stale when its source was synthesized in this run (the workflow was renamed
+ * or removed) or when its source file no longer exists. Files from other sources are kept,
+ * and files never recorded in the manifest (hand-written YAML) are never touched.
+ *
+ * @internal
+ */
+export function findStaleEntries(
+  previous: ManifestEntry[],
+  generated: ManifestEntry[],
+  outputDir: string
+): ManifestEntry[] {
+  const generatedFiles = new Set(generated.map((entry) => entry.file));
+  const generatedSources = new Set(generated.map((entry) => entry.source));
 
-  writeFileSync(filePath, yamlContent, "utf-8");
+  return previous.filter(
+    (entry) =>
+      !generatedFiles.has(entry.file) &&
+      entry.source !== undefined &&
+      (generatedSources.has(entry.source) || !existsSync(resolve(outputDir, entry.source)))
+  );
 }
 
 /**
- * Synthesizes multiple workflows to YAML files.
+ * Synthesizes a workflow to a YAML file.
  *
- * @param workflows - Array of workflows with optional filenames
- * @param outputDir - The output directory (default: "dist")
+ * @param workflow - The workflow to synthesize
+ * @param outputDir - The output directory (default: the configured outputDir, "dist")
  * @stability stable
  * @jsii ignore
  */
-export async function synthesizeMultiple(
-  workflows: Array<{ workflow: Workflow; filename?: string }>,
-  outputDir = "dist"
+export async function synthesize(
+  workflow: Workflow,
+  outputDir: string = getConfig().outputDir
 ): Promise<void> {
-  // Ensure output directory exists
-  if (!existsSync(outputDir)) {
-    mkdirSync(outputDir, { recursive: true });
-  }
-
-  for (const { workflow, filename } of workflows) {
-    // Process TypeScript function steps before converting to JSON
-    await processWorkflowSteps(workflow);
-
-    const config = workflow.toJSON();
-    const yamlContent = stringify(config, {
-      indent: 2,
-    });
+  recordGeneratedFiles(outputDir, await writeWorkflows([{ workflow }], outputDir));
+}
 
-    // Use provided filename or generate from workflow name
-    const workflowName = filename || config.name || "workflow";
-    const finalFilename = workflowName.endsWith(".yml")
-      ? workflowName
-      : `${workflowName.toLowerCase().replace(/\s+/g, "-")}.yml`;
-    const filePath = join(outputDir, finalFilename);
+/**
+ * Synthesizes multiple workflows to YAML files.
+ * Files generated by an earlier run for the same source files that are no longer
+ * produced (e.g. after a workflow was renamed) are deleted; hand-written YAML is kept.
+ *
+ * @param workflows - Array of workflows with optional filenames and source files
+ * @param outputDir - The output directory (default: the configured outputDir, "dist")
+ * @returns The file names of deleted stale files
+ * @stability stable
+ * @jsii ignore
+ */
+export async function synthesizeMultiple(
+  workflows: SynthesisEntry[],
+  outputDir: string = getConfig().outputDir
+): Promise<string[]> {
+  const previous = readManifest(outputDir);
+  const generated = await writeWorkflows(workflows, outputDir);
+  const stale = findStaleEntries(previous.files, generated, outputDir);
 
-    writeFileSync(filePath, yamlContent, "utf-8");
+  for (const entry of stale) {
+    rmSync(join(outputDir, entry.file), { force: true });
   }
+
+  const staleFiles = new Set(stale.map((entry) => entry.file));
+  writeManifest(
+    outputDir,
+    mergeManifest(
+      { version: 1, files: previous.files.filter((entry) => !staleFiles.has(entry.file)) },
+      generated
+    )
+  );
+  return [...staleFiles];
 }
@@ -0,0 +1,310 @@
+/**
+ * Parser for the GitHub Actions expression language.
+ * See https://docs.github.com/en/actions/learn-github-actions/expressions
+ */
+
+const WHITESPACE_REGEX = /\s/;
+const IDENTIFIER_START_REGEX = /[A-Za-z_]/;
+const IDENTIFIER_PART_REGEX = /[\w-]/;
+const NUMBER_REGEX = /^[-+]?(?:0x[0-9a-f]+|0o[0-7]+|(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/i;
+const NUMBER_START_REGEX = /[\d.]/;
+
+/**
+ * A node of a parsed expression.
+ */
+export type ExpressionNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "context"; name: string }
+  | { kind: "property"; object: ExpressionNode; name: string }
+  | { kind: "index"; object: ExpressionNode; index: ExpressionNode }
+  | { kind: "call"; name: string; args: ExpressionNode[] }
+  | { kind: "not"; operand: ExpressionNode }
+  | { kind: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+interface Token {
+  kind: "identifier" | "number" | "string" | "operator" | "end";
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "!", "(", ")", "[", "]", ".", ","];
+
+/**
+ * Binding strength of binary operators, from loosest to tightest.
+ */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+};
+
+/**
+ * Read a single-quoted string literal; `''` is an escaped quote.
+ * Returns the token and the index after the closing quote.
+ */
+function readString(source: string, start: number): [Token, number] {
+  let index = start + 1;
+  let text = "";
+  while (index < source.length) {
+    if (source[index] === "'") {
+      if (source[index + 1] !== "'") {
+        return [{ kind: "string", text, position: start }, index + 1];
+      }
+      index++;
+    }
+    text += source[index];
+    index++;
+  }
+  throw new Error(`Unterminated string starting at position ${start}`);
+}
+
+function readWord(source: string, start: number, pattern: RegExp): string {
+  let end = start;
+  while (end < source.length && pattern.test(source[end])) {
+    end++;
+  }
+  return source.slice(start, end);
+}
+
+/**
+ * Read the token starting at index. Returns the token and the index after it.
+ */
+function readToken(source: string, index: number, previous: Token | undefined): [Token, number] {
+  const char = source[index];
+  if (char === "'") {
+    return readString(source, index);
+  }
+  // After "." only property names follow, including the "*" object filter
+  const afterDot = previous?.kind === "operator" && previous.text === ".";
+  const number = afterDot ? null : source.slice(index).match(NUMBER_REGEX);
+  if (number && (NUMBER_START_REGEX.test(char) || NUMBER_START_REGEX.test(source[index + 1]))) {
+    return [{ kind: "number", text: number[0], position: index }, index + number[0].length];
+  }
+  if (IDENTIFIER_START_REGEX.test(char) || (afterDot && char === "*")) {
+    const text = char === "*" ? "*" : readWord(source, index, IDENTIFIER_PART_REGEX);
+    return [{ kind: "identifier", text, position: index }, index + text.length];
+  }
+  const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+  if (!operator) {
+    throw new Error(`Unexpected character '${char}' at position ${index}`);
+  }
+  return [{ kind: "operator", text: operator, position: index }, index + operator.length];
+}
+
+/**
+ * Split an expression into tokens.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    if (WHITESPACE_REGEX.test(source[index])) {
+      index++;
+      continue;
+    }
+    const [token, end] = readToken(source, index, tokens[tokens.length - 1]);
+    tokens.push(token);
+    index = end;
+  }
+
+  tokens.push({ kind: "end", text: "", position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list.
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseBinary(1);
+    const token = this.peek();
+    if (token.kind !== "end") {
+      throw unexpected(token);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOperator(text: string): boolean {
+    const token = this.peek();
+    return token.kind === "operator" && token.text === text;
+  }
+
+  private expect(text: string): void {
+    if (!this.isOperator(text)) {
+      throw unexpected(this.peek(), `'${text}'`);
+    }
+    this.index++;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.kind === "operator" ? BINARY_PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: "binary", operator: token.text, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator("!")) {
+      this.index++;
+      return { kind: "not", operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    let result = node;
+    for (;;) {
+      if (this.isOperator(".")) {
+        this.index++;
+        const name = this.next();
+        if (name.kind !== "identifier") {
+          throw unexpected(name, "a property name");
+        }
+        result = { kind: "property", object: result, name: name.text };
+      } else if (this.isOperator("[")) {
+        this.index++;
+        const index = this.parseBinary(1);
+        this.expect("]");
+        result = { kind: "index", object: result, index };
+      } else {
+        return result;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+    switch (token.kind) {
+      case "string":
+        return { kind: "literal", value: token.text };
+      case "number":
+        return { kind: "literal", value: Number(token.text) };
+      case "identifier":
+        return this.parseIdentifier(token);
+      case "operator":
+        return this.parseGroup(token);
+      default:
+        throw unexpected(token, "a value");
+    }
+  }
+
+  private parseGroup(token: Token): ExpressionNode {
+    if (token.text !== "(") {
+      throw unexpected(token);
+    }
+    const inner = this.parseBinary(1);
+    this.expect(")");
+    return inner;
+  }
+
+  private parseIdentifier(token: Token): ExpressionNode {
+    const keyword = token.text.toLowerCase();
+    if (keyword === "true" || keyword === "false") {
+      return { kind: "literal", value: keyword === "true" };
+    }
+    if (keyword === "null") {
+      return { kind: "literal", value: null };
+    }
+    if (!this.isOperator("(")) {
+      return { kind: "context", name: token.text };
+    }
+    this.index++;
+    const args: ExpressionNode[] = [];
+    while (!this.isOperator(")")) {
+      if (args.length > 0) {
+        this.expect(",");
+      }
+      args.push(this.parseBinary(1));
+    }
+    this.index++;
+    return { kind: "call", name: token.text, args };
+  }
+}
+
+function unexpected(token: Token, expected?: string): Error {
+  const found = token.kind === "end" ? "end of expression" : `'${token.text}'`;
+  const suffix = expected ? `, expected ${expected}` : "";
+  return new Error(`Unexpected ${found} at position ${token.position}${suffix}`);
+}
+
+/**
+ * Parse the source of an expression (without `${{ }}`).
+ *
+ * @param source - The expression source, e.g. "github.ref == 'refs/heads/main'"
+ * @returns The expression tree
+ * @throws Error describing the first syntax error
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.trim() === "") {
+    throw new Error("Empty expression");
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Find the `${{ }}` expressions embedded in a string value.
+ * Closing braces inside string literals do not end an expression.
+ *
+ * @param value - A workflow string value
+ * @returns The sources of the embedded expressions
+ * @throws Error when an expression is not closed
+ */
+export function extractExpressions(value: string): string[] {
+  const sources: string[] = [];
+  let start = value.indexOf("${{");
+
+  while (start !== -1) {
+    let index = start + 3;
+    let inString = false;
+    while (index < value.length && (inString || !value.startsWith("}}", index))) {
+      if (value[index] === "'") {
+        inString = !inString;
+      }
+      index++;
+    }
+    if (index >= value.length) {
+      throw new Error(`Expression starting with "${value.slice(start, start + 20)}" is not closed`);
+    }
+    sources.push(value.slice(start + 3, index));
+    start = value.indexOf("${{", index + 2);
+  }
+  return sources;
+}
+
+/**
+ * The expressions of an `if:` condition. Conditions without `${{ }}` are expressions as a whole.
+ *
+ * @param condition - The condition value
+ * @returns The sources of the expressions
+ */
+export function extractConditionExpressions(condition: string): string[] {
+  return condition.includes("${{") ? extractExpressions(condition) : [condition];
+}
@@ -0,0 +1,464 @@
+import type { IContainer, IJob, IMatrixConfig, IStep, IWorkflowConfig } from "../core/types.js";
+import {
+  type ExpressionNode,
+  extractConditionExpressions,
+  extractExpressions,
+  parseExpression,
+} from "./expression-parser.js";
+
+/**
+ * Static checks for the `${{ }}` expressions of a synthesized workflow: syntax, function names,
+ * context availability per location and references to step and job ids.
+ */
+
+/**
+ * A problem found in an expression.
+ */
+export interface ExpressionIssue {
+  /** Location of the value, e.g. "jobs.build.steps[2].run" */
+  path: string;
+  /** Description of the problem */
+  message: string;
+}
+
+const KNOWN_CONTEXTS = new Set([
+  "github",
+  "env",
+  "vars",
+  "job",
+  "jobs",
+  "steps",
+  "runner",
+  "secrets",
+  "strategy",
+  "matrix",
+  "needs",
+  "inputs",
+]);
+
+/**
+ * Minimum and maximum argument counts of the built-in functions, by lower-case name
+ */
+const FUNCTIONS: Record<string, [number, number]> = {
+  contains: [2, 2],
+  startswith: [2, 2],
+  endswith: [2, 2],
+  format: [1, Number.POSITIVE_INFINITY],
+  join: [1, 2],
+  tojson: [1, 1],
+  fromjson: [1, 1],
+  hashfiles: [1, Number.POSITIVE_INFINITY],
+  success: [0, 0],
+  always: [0, 0],
+  cancelled: [0, 0],
+  failure: [0, 0],
+};
+
+const STATUS_FUNCTIONS = new Set(["success", "always", "cancelled", "failure"]);
+
+// Context availability, see https://docs.github.com/en/actions/learn-github-actions/contexts#context-availability
+const WORKFLOW_CONTEXTS = ["github", "inputs", "vars"];
+const WORKFLOW_ENV_CONTEXTS = ["github", "secrets", "inputs", "vars"];
+const JOB_IF_CONTEXTS = ["github", "needs", "vars", "inputs"];
+const JOB_CONTEXTS = ["github", "needs", "strategy", "matrix", "vars", "inputs"];
+const JOB_ENV_CONTEXTS = [...JOB_CONTEXTS, "secrets"];
+const STEP_CONTEXTS = [...JOB_ENV_CONTEXTS, "job", "runner", "env", "steps"];
+const STEP_IF_CONTEXTS = [...JOB_CONTEXTS, "job", "runner", "env", "steps"];
+const JOB_OUTPUT_CONTEXTS = STEP_CONTEXTS;
+const ENVIRONMENT_URL_CONTEXTS = [...JOB_CONTEXTS, "job", "runner", "env", "steps"];
+const WORKFLOW_CALL_OUTPUT_CONTEXTS = [...WORKFLOW_CONTEXTS, "jobs"];
+
+/**
+ * What an expression at a location may reference.
+ */
+interface Scope {
+  contexts: readonly string[];
+  /** Whether success(), failure(), ... may be called (if conditions) */
+  statusFunctions?: boolean;
+  /** Whether hashFiles() may be called (steps) */
+  hashFiles?: boolean;
+  /** Step ids the `steps` context holds at this location */
+  stepIds?: ReadonlySet<string>;
+  /** All step ids of the current job */
+  jobStepIds?: ReadonlySet<string>;
+  /** Ids of the jobs in the workflow */
+  jobIds?: ReadonlySet<string>;
+  /** Ids of the jobs the current job needs, i.e. what the `needs` context holds */
+  needs?: ReadonlySet<string>;
+}
+
+/**
+ * The id referenced by `<context>.<id>` or `<context>['<id>']`, if node is such an access.
+ * The `*` object filter (e.g. `needs.*.result`) references no particular id.
+ */
+function referencedId(node: ExpressionNode, contextName: string): string | undefined {
+  if (node.kind !== "property" && node.kind !== "index") {
+    return undefined;
+  }
+  const { object } = node;
+  if (object.kind !== "context" || object.name.toLowerCase() !== contextName) {
+    return undefined;
+  }
+  if (node.kind === "property") {
+    return node.name === "*" ? undefined : node.name;
+  }
+  return node.index.kind === "literal" && typeof node.index.value === "string"
+    ? node.index.value
+    : undefined;
+}
+
+function checkContext(name: string, scope: Scope): string | undefined {
+  const context = name.toLowerCase();
+  if (!KNOWN_CONTEXTS.has(context)) {
+    return `Unknown context "${name}"`;
+  }
+  if (!scope.contexts.includes(context)) {
+    return `The "${context}" context is not available here (available: ${scope.contexts.join(", ")})`;
+  }
+  return undefined;
+}
+
+function checkCall(name: string, argumentCount: number, scope: Scope): string | undefined {
+  const fn = name.toLowerCase();
+  const arity = FUNCTIONS[fn];
+  if (!arity) {
+    return `Unknown function "${name}()"`;
+  }
+  if (STATUS_FUNCTIONS.has(fn) && !scope.statusFunctions) {
+    return `${name}() can only be used in if conditions`;
+  }
+  if (fn === "hashfiles" && !scope.hashFiles) {
+    return `${name}() is only available in steps`;
+  }
+  const [min, max] = arity;
+  if (argumentCount < min || argumentCount > max) {
+    const expected =
+      min === max
+        ? `${min}`
+        : max === Number.POSITIVE_INFINITY
+          ? `at least ${min}`
+          : `${min} to ${max}`;
+    return `${name}() expects ${expected} argument(s) but got ${argumentCount}`;
+  }
+  return undefined;
+}
+
+function checkStepReference(stepId: string, scope: Scope): string | undefined {
+  if (!scope.stepIds || scope.stepIds.has(stepId)) {
+    return undefined;
+  }
+  return scope.jobStepIds?.has(stepId)
+    ? `Step "${stepId}" runs after this step`
+    : `Step "${stepId}" does not exist in this job`;
+}
+
+function checkJobReference(jobId: string, scope: Scope): string | undefined {
+  if (scope.jobIds && !scope.jobIds.has(jobId)) {
+    return `Job "${jobId}" does not exist in the workflow`;
+  }
+  if (scope.needs && !scope.needs.has(jobId)) {
+    return `Job "${jobId}" is not listed in needs`;
+  }
+  return undefined;
+}
+
+/**
+ * The problem with a single node (ignoring its children), if any.
+ */
+function checkNode(node: ExpressionNode, scope: Scope): string | undefined {
+  if (node.kind === "context") {
+    return checkContext(node.name, scope);
+  }
+  if (node.kind === "call") {
+    return checkCall(node.name, node.args.length, scope);
+  }
+  const stepId = referencedId(node, "steps");
+  if (stepId !== undefined) {
+    return checkStepReference(stepId, scope);
+  }
+  const jobId = referencedId(node, "needs");
+  return jobId === undefined ? undefined : checkJobReference(jobId, scope);
+}
+
+function childNodes(node: ExpressionNode): ExpressionNode[] {
+  switch (node.kind) {
+    case "property":
+      return [node.object];
+    case "index":
+      return [node.object, node.index];
+    case "call":
+      return node.args;
+    case "not":
+      return [node.operand];
+    case "binary":
+      return [node.left, node.right];
+    default:
+      return [];
+  }
+}
+
+function collectNodeIssues(node: ExpressionNode, scope: Scope, messages: string[]): void {
+  const message = checkNode(node, scope);
+  if (message) {
+    messages.push(message);
+  }
+  for (const child of childNodes(node)) {
+    collectNodeIssues(child, scope, messages);
+  }
+}
+
+/**
+ * Collects the issues of the expressions in workflow values.
+ */
+class ExpressionChecker {
+  readonly issues: ExpressionIssue[] = [];
+
+  /**
+   * Check a string value with embedded `${{ }}` expressions.
+   */
+  checkValue(path: string, value: unknown, scope: Scope): void {
+    if (typeof value === "string") {
+      this.checkSources(path, () => extractExpressions(value), scope);
+    }
+  }
+
+  /**
+   * Check an `if:` condition, which is an expression even without `${{ }}`.
+   */
+  checkCondition(path: string, condition: string | undefined, scope: Scope): void {
+    if (condition !== undefined) {
+      this.checkSources(path, () => extractConditionExpressions(condition), scope);
+    }
+  }
+
+  /**
+   * Check every value of a map such as `env` or `with`.
+   */
+  checkMap(path: string, values: Record<string, unknown> | undefined, scope: Scope): void {
+    for (const [key, value] of Object.entries(values ?? {})) {
+      this.checkValue(`${path}.${key}`, value, scope);
+    }
+  }
+
+  private checkSources(path: string, extract: () => string[], scope: Scope): void {
+    let sources: string[];
+    try {
+      sources = extract();
+    } catch (error) {
+      this.issues.push({ path, message: (error as Error).message });
+      return;
+    }
+    for (const source of sources) {
+      this.checkSource(path, source, scope);
+    }
+  }
+
+  private checkSource(path: string, source: string, scope: Scope): void {
+    let node: ExpressionNode;
+    try {
+      node = parseExpression(source);
+    } catch (error) {
+      this.issues.push({
+        path,
+        message: `Invalid expression "${source.trim()}": ${(error as Error).message}`,
+      });
+      return;
+    }
+    const messages: string[] = [];
+    collectNodeIssues(node, scope, messages);
+    for (const message of new Set(messages)) {
+      this.issues.push({ path, message });
+    }
+  }
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function checkStep(checker: ExpressionChecker, path: string, step: IStep, stepScope: Scope): void {
+  checker.checkValue(`${path}.name`, step.name, stepScope);
+  checker.checkCondition(`${path}.if`, step.if, {
+    ...stepScope,
+    contexts: STEP_IF_CONTEXTS,
+    statusFunctions: true,
+  });
+  checker.checkValue(`${path}.run`, step.run, stepScope);
+  checker.checkValue(`${path}.working-directory`, step["working-directory"], stepScope);
+  checker.checkMap(`${path}.with`, step.with, stepScope);
+  checker.checkMap(`${path}.env`, step.env, stepScope);
+}
+
+function checkContainer(
+  checker: ExpressionChecker,
+  path: string,
+  container: IContainer | undefined,
+  references: Pick<Scope, "jobIds" | "needs">
+): void {
+  if (!container) {
+    return;
+  }
+  const jobScope: Scope = { contexts: JOB_CONTEXTS, ...references };
+  const envScope: Scope = { contexts: JOB_ENV_CONTEXTS, ...references };
+  checker.checkValue(`${path}.image`, container.image, jobScope);
+  checker.checkValue(`${path}.options`, container.options, jobScope);
+  checker.checkMap(`${path}.credentials`, { ...container.credentials }, envScope);
+  checker.checkMap(`${path}.env`, container.env, envScope);
+}
+
+/**
+ * A matrix, or its axes, can be expressions, e.g. `fromJSON(needs.setup.outputs.matrix)`.
+ */
+function checkMatrix(
+  checker: ExpressionChecker,
+  path: string,
+  matrix: IMatrixConfig | string | undefined,
+  references: Pick<Scope, "jobIds" | "needs">
+): void {
+  const scope: Scope = { contexts: JOB_IF_CONTEXTS, ...references };
+  if (typeof matrix === "string") {
+    checker.checkValue(path, matrix, scope);
+    return;
+  }
+  for (const [key, values] of Object.entries(matrix ?? {})) {
+    if (typeof values === "string") {
+      checker.checkValue(`${path}.${key}`, values, scope);
+    }
+  }
+}
+
+/**
+ * The environment URL is evaluated after the job ran, so it can use the outputs of any step.
+ */
+function checkEnvironment(
+  checker: ExpressionChecker,
+  path: string,
+  job: IJob,
+  references: Pick<Scope, "jobIds" | "needs">
+): void {
+  const jobScope: Scope = { contexts: JOB_CONTEXTS, ...references };
+  if (typeof job.environment === "string") {
+    checker.checkValue(path, job.environment, jobScope);
+    return;
+  }
+  checker.checkValue(`${path}.name`, job.environment?.name, jobScope);
+  checker.checkValue(`${path}.url`, job.environment?.url, {
+    contexts: ENVIRONMENT_URL_CONTEXTS,
+    stepIds: new Set((job.steps ?? []).flatMap((step) => (step.id ? [step.id] : []))),
+    ...references,
+  });
+}
+
+function checkRunsOn(
+  checker: ExpressionChecker,
+  path: string,
+  runsOn: IJob["runs-on"],
+  scope: Scope
+): void {
+  if (typeof runsOn === "object" && !Array.isArray(runsOn)) {
+    checker.checkValue(`${path}.group`, runsOn.group, scope);
+    checkRunsOn(checker, `${path}.labels`, runsOn.labels, scope);
+    return;
+  }
+  for (const [index, runner] of toArray(runsOn).entries()) {
+    checker.checkValue(Array.isArray(runsOn) ? `${path}[${index}]` : path, runner, scope);
+  }
+}
+
+function checkJob(
+  checker: ExpressionChecker,
+  jobId: string,
+  job: IJob,
+  jobIds: ReadonlySet<string>
+): void {
+  const path = `jobs.${jobId}`;
+  const references = { jobIds, needs: new Set(toArray(job.needs)) };
+  const jobScope: Scope = { contexts: JOB_CONTEXTS, ...references };
+
+  checker.checkValue(`${path}.name`, job.name, jobScope);
+  checker.checkCondition(`${path}.if`, job.if, {
+    contexts: JOB_IF_CONTEXTS,
+    statusFunctions: true,
+    ...references,
+  });
+  checkRunsOn(checker, `${path}.runs-on`, job["runs-on"], jobScope);
+  checker.checkValue(`${path}.concurrency.group`, job.concurrency?.group, jobScope);
+  checker.checkValue(
+    `${path}.concurrency.cancel-in-progress`,
+    job.concurrency?.["cancel-in-progress"],
+    jobScope
+  );
+  checkMatrix(checker, `${path}.strategy.matrix`, job.strategy?.matrix, references);
+  checkEnvironment(checker, `${path}.environment`, job, references);
+  checker.checkMap(`${path}.env`, job.env, { contexts: JOB_ENV_CONTEXTS, ...references });
+  checker.checkMap(`${path}.with`, job.with, jobScope);
+  checkContainer(checker, `${path}.container`, job.container, references);
+  for (const [serviceId, service] of Object.entries(job.services ?? {})) {
+    checkContainer(checker, `${path}.services.${serviceId}`, service, references);
+  }
+  if (job.secrets !== "inherit") {
+    checker.checkMap(`${path}.secrets`, job.secrets, {
+      contexts: JOB_ENV_CONTEXTS,
+      ...references,
+    });
+  }
+
+  const steps = job.steps ?? [];
+  const allStepIds = new Set(steps.flatMap((step) => (step.id ? [step.id] : [])));
+  checker.checkMap(`${path}.outputs`, job.outputs, {
+    contexts: JOB_OUTPUT_CONTEXTS,
+    stepIds: allStepIds,
+    ...references,
+  });
+
+  const previousStepIds = new Set<string>();
+  for (const [index, step] of steps.entries()) {
+    const stepScope: Scope = {
+      contexts: STEP_CONTEXTS,
+      hashFiles: true,
+      stepIds: new Set(previousStepIds),
+      jobStepIds: allStepIds,
+      ...references,
+    };
+    checkStep(checker, `${path}.steps[${index}]`, step, stepScope);
+    if (step.id) {
+      previousStepIds.add(step.id);
+    }
+  }
+}
+
+/**
+ * Check the expressions of a workflow configuration.
+ *
+ * Expressions in `if`, `env`, `with`, `secrets`, `run`, `name`, job and `workflow_call` `outputs`,
+ * workflow and job `concurrency`, `runs-on`, `strategy.matrix`, `environment`, `container` and `services` are parsed and checked for syntax errors, unknown functions, contexts that are not available
+ * at their location and references to step or job ids that do not exist.
+ *
+ * @param config - The workflow configuration, e.g. from `workflow.toJSON()`
+ * @returns The issues found, empty when all expressions are valid
+ */
+export function validateExpressions(config: IWorkflowConfig): ExpressionIssue[] {
+  const checker = new ExpressionChecker();
+  checker.checkValue("run-name", config["run-name"], { contexts: WORKFLOW_CONTEXTS });
+  checker.checkMap("env", config.env, { contexts: WORKFLOW_ENV_CONTEXTS });
+  checker.checkValue("concurrency.group", config.concurrency?.group, {
+    contexts: WORKFLOW_CONTEXTS,
+  });
+  checker.checkValue("concurrency.cancel-in-progress", config.concurrency?.["cancel-in-progress"], {
+    contexts: WORKFLOW_CONTEXTS,
+  });
+  for (const [outputId, output] of Object.entries(config.on?.workflow_call?.outputs ?? {})) {
+    checker.checkValue(`on.workflow_call.outputs.${outputId}.value`, output.value, {
+      contexts: WORKFLOW_CALL_OUTPUT_CONTEXTS,
+    });
+  }
+
+  const jobIds = new Set(Object.keys(config.jobs));
+  for (const [jobId, job] of Object.entries(config.jobs)) {
+    checkJob(checker, jobId, job, jobIds);
+  }
+  return checker.issues;
+}
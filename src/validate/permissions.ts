@@ -0,0 +1,321 @@
+import { loadActionType } from "../actions/loader.js";
+import { parseActionReference } from "../actions/parser.js";
+import type {
+  IJob,
+  IStep,
+  IWorkflowConfig,
+  IWorkflowPermissions,
+  PermissionsLike,
+} from "../core/types.js";
+import type { IDiagnostic } from "./workflow.js";
+
+/**
+ * Least-privilege analysis of GITHUB_TOKEN permissions. The permissions a job needs are the
+ * union of what its steps need: known actions have fixed permissions, other actions are looked
+ * up in the `actionPermissions` config, and actions or `run` scripts that use the token in
+ * other ways make a job's permissions unknown.
+ */
+
+type PermissionScope = keyof IWorkflowPermissions;
+type AccessLevel = NonNullable<IWorkflowPermissions[PermissionScope]>;
+
+const GITHUB_TOKEN_REGEX = /\bgithub\.token\b|\bgithub_token\b/i;
+const ACCESS_RANK: Record<AccessLevel, number> = { none: 0, read: 1, write: 2 };
+
+/** Permissions that well-known actions need, by action without version */
+const KNOWN_ACTION_PERMISSIONS: Readonly<Record<string, IWorkflowPermissions>> = {
+  "actions/checkout": { contents: "read" },
+  "actions/cache": {},
+  "actions/upload-artifact": {},
+  "actions/download-artifact": {},
+  "actions/setup-node": {},
+  "actions/setup-python": {},
+  "actions/setup-go": {},
+  "actions/setup-java": {},
+  "actions/setup-dotnet": {},
+  "actions/configure-pages": { pages: "read" },
+  "actions/upload-pages-artifact": {},
+  "actions/deploy-pages": { pages: "write", "id-token": "write" },
+  "actions/attest-build-provenance": { "id-token": "write", attestations: "write" },
+  "actions/labeler": { contents: "read", "pull-requests": "write" },
+  "actions/stale": { issues: "write", "pull-requests": "write" },
+  "github/codeql-action/init": { actions: "read", contents: "read", "security-events": "write" },
+  "github/codeql-action/autobuild": {},
+  "github/codeql-action/analyze": {
+    actions: "read",
+    contents: "read",
+    "security-events": "write",
+  },
+  "github/codeql-action/upload-sarif": { "security-events": "write" },
+  "softprops/action-gh-release": { contents: "write" },
+  "peter-evans/create-pull-request": { contents: "write", "pull-requests": "write" },
+  "docker/setup-buildx-action": {},
+  "docker/setup-qemu-action": {},
+  "docker/build-push-action": {},
+  "aws-actions/configure-aws-credentials": { "id-token": "write" },
+  "google-github-actions/auth": { "id-token": "write" },
+  "azure/login": { "id-token": "write" },
+};
+
+/**
+ * The permissions a job needs, as inferred from its steps.
+ * @stability stable
+ */
+export interface IInferredPermissions {
+  /** The union of what the steps with known permissions need */
+  readonly permissions: IWorkflowPermissions;
+  /** Indexes of the steps whose permissions are unknown */
+  readonly unknownSteps: readonly number[];
+}
+
+function usesToken(step: IStep): boolean {
+  return GITHUB_TOKEN_REGEX.test(JSON.stringify([step.run, step.with, step.env]));
+}
+
+/**
+ * Whether an imported action reads the token by default, e.g. a `token` input defaulting to
+ * `${{ github.token }}`. Actions that were not imported are unknown.
+ */
+function importedActionUsesToken(uses: string): boolean | undefined {
+  let metadata: ReturnType<typeof loadActionType>;
+  try {
+    metadata = loadActionType(parseActionReference(uses));
+  } catch {
+    return undefined;
+  }
+  if (!metadata) {
+    return undefined;
+  }
+  return Object.values(metadata.inputs ?? {}).some((input) =>
+    GITHUB_TOKEN_REGEX.test(String(input.default ?? ""))
+  );
+}
+
+/**
+ * The permissions a step needs, or undefined when they cannot be inferred.
+ */
+function stepPermissions(
+  step: IStep,
+  actionPermissions: Readonly<Record<string, IWorkflowPermissions>>
+): IWorkflowPermissions | undefined {
+  if (step.uses === undefined) {
+    return usesToken(step) ? undefined : {};
+  }
+  const action = step.uses.split("@")[0];
+  const known = actionPermissions[action] ?? KNOWN_ACTION_PERMISSIONS[action];
+  if (known) {
+    return known;
+  }
+  if (usesToken(step)) {
+    return undefined;
+  }
+  if (step.uses.startsWith("docker://")) {
+    return {};
+  }
+  return importedActionUsesToken(step.uses) === false ? {} : undefined;
+}
+
+function mergePermissions(
+  permissions: IWorkflowPermissions,
+  other: IWorkflowPermissions
+): IWorkflowPermissions {
+  const merged: IWorkflowPermissions = { ...permissions };
+  for (const [scope, level] of Object.entries(other) as [PermissionScope, AccessLevel][]) {
+    const current = merged[scope] ?? "none";
+    if (ACCESS_RANK[level] > ACCESS_RANK[current]) {
+      merged[scope] = level;
+    }
+  }
+  return merged;
+}
+
+function grantedLevel(granted: PermissionsLike, scope: PermissionScope): AccessLevel {
+  if (granted === "write-all") {
+    return "write";
+  }
+  if (granted === "read-all") {
+    return "read";
+  }
+  return granted[scope] ?? "none";
+}
+
+function formatPermissions(permissions: IWorkflowPermissions): string {
+  const entries = Object.entries(permissions).map(([scope, level]) => `${scope}: ${level}`);
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+}
+
+/**
+ * Infer the permissions a job needs from its steps.
+ *
+ * @param job - The job configuration
+ * @param actionPermissions - Permissions of actions besides the well-known ones, by action
+ * @returns The permissions and the steps whose permissions are unknown
+ * @stability stable
+ */
+export function inferJobPermissions(
+  job: IJob,
+  actionPermissions: Readonly<Record<string, IWorkflowPermissions>> = {}
+): IInferredPermissions {
+  let permissions: IWorkflowPermissions = {};
+  const unknownSteps: number[] = [];
+  for (const [index, step] of (job.steps ?? []).entries()) {
+    const needed = stepPermissions(step, actionPermissions);
+    if (needed) {
+      permissions = mergePermissions(permissions, needed);
+    } else {
+      unknownSteps.push(index);
+    }
+  }
+  return { permissions, unknownSteps };
+}
+
+/**
+ * Set the inferred permissions on jobs that have none, when every step's permissions are known.
+ * Jobs calling reusable workflows are left as they are.
+ * @internal
+ */
+export function withInferredPermissions(
+  jobs: Record<string, IJob>,
+  actionPermissions: Readonly<Record<string, IWorkflowPermissions>>
+): Record<string, IJob> {
+  const result: Record<string, IJob> = {};
+  for (const [jobId, job] of Object.entries(jobs)) {
+    const inferred = inferJobPermissions(job, actionPermissions);
+    const emit =
+      job.uses === undefined && job.permissions === undefined && inferred.unknownSteps.length === 0;
+    result[jobId] = emit ? { ...job, permissions: inferred.permissions } : job;
+  }
+  return result;
+}
+
+function warning(path: string, message: string): IDiagnostic {
+  return { path, message, severity: "warning" };
+}
+
+/**
+ * Compare granted permissions with the needed ones: missing scopes are always reported,
+ * scopes granted beyond the need only when `reportExcess` is set.
+ */
+function compareGrant(
+  path: string,
+  granted: PermissionsLike,
+  needed: IWorkflowPermissions,
+  reportExcess: boolean
+): IDiagnostic[] {
+  const diagnostics: IDiagnostic[] = [];
+  for (const [scope, level] of Object.entries(needed) as [PermissionScope, AccessLevel][]) {
+    const grant = grantedLevel(granted, scope);
+    if (ACCESS_RANK[grant] < ACCESS_RANK[level]) {
+      diagnostics.push(
+        warning(path, `${scope}: ${level} is needed but ${scope}: ${grant} is granted`)
+      );
+    }
+  }
+  if (!reportExcess) {
+    return diagnostics;
+  }
+  if (typeof granted === "string") {
+    diagnostics.push(
+      warning(
+        path,
+        `${granted} grants more than needed; the jobs need ${formatPermissions(needed)}`
+      )
+    );
+    return diagnostics;
+  }
+  for (const [scope, grant] of Object.entries(granted) as [PermissionScope, AccessLevel][]) {
+    const level = needed[scope] ?? "none";
+    if (ACCESS_RANK[grant] > ACCESS_RANK[level]) {
+      diagnostics.push(
+        warning(`${path}.${scope}`, `${scope}: ${grant} is more than needed (${level})`)
+      );
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Check a job with steps against the permissions it is granted. Returns what the job needs
+ * from the workflow's permissions: nothing when it has its own, undefined when unknown.
+ */
+function analyzeJob(
+  path: string,
+  job: IJob,
+  workflowPermissions: PermissionsLike | undefined,
+  actionPermissions: Readonly<Record<string, IWorkflowPermissions>>,
+  diagnostics: IDiagnostic[]
+): IWorkflowPermissions | undefined {
+  const { permissions, unknownSteps } = inferJobPermissions(job, actionPermissions);
+  if (job.permissions !== undefined) {
+    const reportExcess = unknownSteps.length === 0;
+    diagnostics.push(
+      ...compareGrant(`${path}.permissions`, job.permissions, permissions, reportExcess)
+    );
+    return {};
+  }
+  if (workflowPermissions !== undefined) {
+    diagnostics.push(...compareGrant(path, workflowPermissions, permissions, false));
+  }
+  for (const index of unknownSteps) {
+    diagnostics.push(
+      warning(
+        `${path}.steps[${index}]`,
+        "The permissions this step needs are unknown; add its action to actionPermissions in the config, or set the job's permissions"
+      )
+    );
+  }
+  if (unknownSteps.length > 0) {
+    return undefined;
+  }
+  if (workflowPermissions === undefined) {
+    diagnostics.push(
+      warning(path, `No permissions set; the job needs ${formatPermissions(permissions)}`)
+    );
+  }
+  return permissions;
+}
+
+/**
+ * Check the jobs of a workflow, returning what the jobs that inherit the workflow's
+ * permissions need, or undefined when not all of it is known.
+ */
+function analyzeJobs(
+  config: IWorkflowConfig,
+  actionPermissions: Readonly<Record<string, IWorkflowPermissions>>,
+  diagnostics: IDiagnostic[]
+): IWorkflowPermissions | undefined {
+  let inherited: IWorkflowPermissions | undefined = {};
+  for (const [jobId, job] of Object.entries(config.jobs)) {
+    // The permissions a called workflow needs are unknown; the caller job's cap them
+    const needed =
+      job.uses === undefined
+        ? analyzeJob(`jobs.${jobId}`, job, config.permissions, actionPermissions, diagnostics)
+        : job.permissions && {};
+    inherited = inherited && needed && mergePermissions(inherited, needed);
+  }
+  return inherited;
+}
+
+/**
+ * Analyze the token permissions of a workflow: jobs granted less than their steps need, jobs
+ * and workflows granted more than needed (including `write-all`), jobs without permissions and
+ * steps whose permissions cannot be inferred are reported as warnings.
+ *
+ * @param config - The workflow configuration
+ * @param actionPermissions - Permissions of actions besides the well-known ones, by action
+ * @returns The diagnostics, all warnings
+ * @stability stable
+ */
+export function analyzePermissions(
+  config: IWorkflowConfig,
+  actionPermissions: Readonly<Record<string, IWorkflowPermissions>> = {}
+): IDiagnostic[] {
+  const diagnostics: IDiagnostic[] = [];
+  const inherited = analyzeJobs(config, actionPermissions, diagnostics);
+  if (config.permissions === "write-all" && inherited === undefined) {
+    diagnostics.push(warning("permissions", "write-all grants every scope write access"));
+  } else if (config.permissions !== undefined && inherited !== undefined) {
+    diagnostics.push(...compareGrant("permissions", config.permissions, inherited, true));
+  }
+  return diagnostics;
+}
@@ -0,0 +1,464 @@
+import { validateCron } from "../core/cron.js";
+import { expandMatrix } from "../core/matrix.js";
+import { isWorkflowReference } from "../core/reusable-workflow.js";
+import { matchRunners } from "../core/runners.js";
+import { isShell } from "../core/shells.js";
+import { EXCLUSIVE_FILTERS } from "../core/trigger-filters.js";
+import type {
+  IJob,
+  IJobStrategy,
+  IRunnerDefinition,
+  IStep,
+  IWorkflowConfig,
+  IWorkflowPermissions,
+  IWorkflowTrigger,
+} from "../core/types.js";
+import { validateExpressions } from "./expressions.js";
+import { analyzePermissions } from "./permissions.js";
+
+/**
+ * Structural checks for a workflow configuration. All problems are collected at once and
+ * reported as diagnostics with the path of the offending value.
+ */
+
+const ID_REGEX = /^[A-Za-z_][\w-]*$/;
+const MATRIX_REFERENCE_REGEX = /\bmatrix\b/i;
+const MAX_MATRIX_JOBS = 256;
+const WHITESPACE_REGEX = /\s+/g;
+const FILTERED_EVENTS = ["push", "pull_request", "pull_request_target"] as const;
+/** Job settings that do not apply to a job calling a reusable workflow */
+const CALLER_JOB_EXCLUDED_KEYS = [
+  "runs-on",
+  "steps",
+  "env",
+  "defaults",
+  "timeout-minutes",
+  "continue-on-error",
+  "outputs",
+  "container",
+  "services",
+  "environment",
+] as const;
+
+/**
+ * A problem found while validating a workflow.
+ * @stability stable
+ */
+export interface IDiagnostic {
+  /** Location of the problem, e.g. "jobs.build.steps[3].id" */
+  readonly path: string;
+  /** Description of the problem */
+  readonly message: string;
+  /** "error" fails synthesis; "warning" and "info" (e.g. matrix job counts) are reported only */
+  readonly severity: "error" | "warning" | "info";
+}
+
+/**
+ * Options of `validateWorkflowConfig()` for what the configuration itself does not hold.
+ * @stability stable
+ */
+export interface IValidationOptions {
+  /** The environments declared with `workflow.environments()`; other names are reported */
+  readonly environments?: readonly string[];
+  /** Whether to analyze token permissions, see `analyzePermissions()` */
+  readonly analyzePermissions?: boolean;
+  /** Permissions of actions besides the well-known ones, for the permission analysis */
+  readonly actionPermissions?: Readonly<Record<string, IWorkflowPermissions>>;
+  /** The project's runners; `runs-on` labels and groups no runner has are reported */
+  readonly runners?: readonly IRunnerDefinition[];
+}
+
+function error(path: string, message: string): IDiagnostic {
+  return { path, message, severity: "error" };
+}
+
+function warning(path: string, message: string): IDiagnostic {
+  return { path, message, severity: "warning" };
+}
+
+function info(path: string, message: string): IDiagnostic {
+  return { path, message, severity: "info" };
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * A shell is a known shell or a command template with `{0}` for the script file.
+ */
+function validateShell(path: string, shell: string | undefined): IDiagnostic[] {
+  return shell === undefined || isShell(shell)
+    ? []
+    : [
+        error(
+          path,
+          `Unknown shell "${shell}": use bash, sh, pwsh, powershell, python, cmd or a command template with {0}, e.g. "perl {0}"`
+        ),
+      ];
+}
+
+function validateStep(path: string, step: IStep): IDiagnostic[] {
+  const diagnostics: IDiagnostic[] = [];
+  if (step.uses !== undefined && step.run !== undefined) {
+    diagnostics.push(error(path, "A step cannot have both uses and run"));
+  }
+  if (step.uses === undefined && step.run === undefined) {
+    diagnostics.push(error(path, "A step must have either uses or run"));
+  }
+  if (step.run !== undefined && step.with !== undefined) {
+    diagnostics.push(error(`${path}.with`, "with only applies to action steps (uses)"));
+  }
+  if (step.uses !== undefined && step.shell !== undefined) {
+    diagnostics.push(error(`${path}.shell`, "shell only applies to run steps"));
+  }
+  diagnostics.push(...validateShell(`${path}.shell`, step.shell));
+  if (step.id !== undefined && !ID_REGEX.test(step.id)) {
+    diagnostics.push(
+      error(
+        `${path}.id`,
+        `Invalid step id "${step.id}": must start with a letter or _ and contain only alphanumeric characters, - and _`
+      )
+    );
+  }
+  return diagnostics;
+}
+
+function validateSteps(jobPath: string, steps: IStep[]): IDiagnostic[] {
+  if (steps.length === 0) {
+    return [error(`${jobPath}.steps`, "A job must have at least one step")];
+  }
+  const diagnostics: IDiagnostic[] = [];
+  const firstIndexById = new Map<string, number>();
+  for (const [index, step] of steps.entries()) {
+    const path = `${jobPath}.steps[${index}]`;
+    diagnostics.push(...validateStep(path, step));
+    if (step.id === undefined) {
+      continue;
+    }
+    const firstIndex = firstIndexById.get(step.id);
+    if (firstIndex === undefined) {
+      firstIndexById.set(step.id, index);
+    } else {
+      diagnostics.push(
+        error(`${path}.id`, `Duplicate step id "${step.id}" (also used by steps[${firstIndex}])`)
+      );
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * A job either calls a reusable workflow (`uses`, `with`, `secrets`) or runs steps.
+ */
+function validateJobKind(path: string, job: IJob): IDiagnostic[] {
+  const diagnostics: IDiagnostic[] = [];
+  if (job.uses === undefined) {
+    for (const key of ["with", "secrets"] as const) {
+      if (job[key] !== undefined) {
+        diagnostics.push(
+          error(`${path}.${key}`, `${key} only applies to jobs that call a reusable workflow`)
+        );
+      }
+    }
+    if (job["runs-on"] === undefined) {
+      diagnostics.push(
+        error(`${path}.runs-on`, "A job must have runs-on, or call a reusable workflow with uses")
+      );
+    }
+    diagnostics.push(...validateSteps(path, job.steps ?? []));
+    return diagnostics;
+  }
+  if (!isWorkflowReference(job.uses)) {
+    diagnostics.push(
+      error(
+        `${path}.uses`,
+        `Invalid reusable workflow "${job.uses}": expected ./.github/workflows/<file>.yml or <owner>/<repo>/.github/workflows/<file>.yml@<ref>`
+      )
+    );
+  }
+  for (const key of CALLER_JOB_EXCLUDED_KEYS) {
+    if (job[key] !== undefined) {
+      diagnostics.push(
+        error(`${path}.${key}`, `${key} cannot be used in a job that calls a reusable workflow`)
+      );
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * A `runs-on` group or label set must select one of the declared runners, when the project
+ * declares its runners. GitHub-hosted runners and `runs-on` with expressions are not checked.
+ */
+function validateRunsOn(
+  path: string,
+  runsOn: IJob["runs-on"],
+  runners: readonly IRunnerDefinition[]
+): IDiagnostic[] {
+  if (runsOn === undefined) {
+    return [];
+  }
+  if (typeof runsOn === "object" && !Array.isArray(runsOn) && !runsOn.group && !runsOn.labels) {
+    return [error(path, "runs-on must have a group, labels or both")];
+  }
+  const matches = runners.length > 0 ? matchRunners(runsOn, runners) : undefined;
+  if (!matches || matches.length > 0) {
+    return [];
+  }
+  const group = typeof runsOn === "object" && !Array.isArray(runsOn) ? runsOn.group : undefined;
+  const labels = typeof runsOn === "object" && !Array.isArray(runsOn) ? runsOn.labels : runsOn;
+  const selected = [
+    ...(group ? [`group "${group}"`] : []),
+    ...[labels ?? []].flat().map((label) => `"${label}"`),
+  ];
+  return [
+    error(
+      path,
+      `No runner declared in the config's runners matches ${selected.join(", ")}; the job would wait for a runner forever`
+    ),
+  ];
+}
+
+/**
+ * Environment names must be declared, when the workflow declares its environments. A job with a
+ * matrix deploys every combination to its environment, which is only intended when the name
+ * depends on the matrix or the combinations deploy one at a time.
+ */
+function validateEnvironment(
+  path: string,
+  job: IJob,
+  environments: readonly string[] | undefined
+): IDiagnostic[] {
+  if (job.environment === undefined) {
+    return [];
+  }
+  const diagnostics: IDiagnostic[] = [];
+  const name = typeof job.environment === "string" ? job.environment : job.environment.name;
+  const namePath = typeof job.environment === "string" ? path : `${path}.name`;
+  if (environments && !name.includes("${{") && !environments.includes(name)) {
+    diagnostics.push(
+      error(
+        namePath,
+        `Unknown environment "${name}"; declared environments: ${environments.join(", ") || "(none)"}`
+      )
+    );
+  }
+  if (
+    job.strategy?.matrix !== undefined &&
+    job.strategy["max-parallel"] !== 1 &&
+    !MATRIX_REFERENCE_REGEX.test(name)
+  ) {
+    diagnostics.push(
+      warning(
+        namePath,
+        `Every matrix combination deploys to environment "${name}" in parallel; use a matrix value in the environment name, or set max-parallel to 1`
+      )
+    );
+  }
+  return diagnostics;
+}
+
+/**
+ * A matrix must generate between 1 and 256 jobs. The job count is reported, and `exclude`
+ * entries that match no combination are flagged. Matrices depending on expressions are skipped.
+ */
+function validateMatrix(path: string, strategy: IJobStrategy | undefined): IDiagnostic[] {
+  const expansion = strategy?.matrix === undefined ? undefined : expandMatrix(strategy.matrix);
+  if (!expansion) {
+    return [];
+  }
+  const diagnostics = expansion.unmatchedExcludes.map((index) =>
+    warning(`${path}.exclude[${index}]`, "Exclude matches no combination of the matrix")
+  );
+  const count = expansion.combinations.length;
+  if (count === 0) {
+    diagnostics.push(error(path, "The matrix generates no jobs"));
+  } else if (count > MAX_MATRIX_JOBS) {
+    diagnostics.push(
+      error(path, `The matrix generates ${count} jobs; at most ${MAX_MATRIX_JOBS} are allowed`)
+    );
+  } else {
+    diagnostics.push(info(path, `The matrix generates ${count} job${count === 1 ? "" : "s"}`));
+  }
+  return diagnostics;
+}
+
+function validateJob(
+  jobId: string,
+  job: IJob,
+  jobIds: ReadonlySet<string>,
+  options: IValidationOptions
+): IDiagnostic[] {
+  const path = `jobs.${jobId}`;
+  const diagnostics: IDiagnostic[] = [];
+  if (!ID_REGEX.test(jobId)) {
+    diagnostics.push(
+      error(
+        path,
+        `Invalid job id "${jobId}": must start with a letter or _ and contain only alphanumeric characters, - and _`
+      )
+    );
+  }
+  const needs = toArray(job.needs);
+  for (const [index, dependency] of needs.entries()) {
+    if (!jobIds.has(dependency)) {
+      const needsPath = Array.isArray(job.needs) ? `${path}.needs[${index}]` : `${path}.needs`;
+      diagnostics.push(error(needsPath, `Job "${dependency}" does not exist in the workflow`));
+    }
+  }
+  diagnostics.push(...validateJobKind(path, job));
+  diagnostics.push(...validateShell(`${path}.defaults.run.shell`, job.defaults?.run?.shell));
+  diagnostics.push(...validateRunsOn(`${path}.runs-on`, job["runs-on"], options.runners ?? []));
+  diagnostics.push(...validateEnvironment(`${path}.environment`, job, options.environments));
+  diagnostics.push(...validateMatrix(`${path}.strategy.matrix`, job.strategy));
+  return diagnostics;
+}
+
+/**
+ * A job whose concurrency group is the workflow's waits for the workflow run holding the group,
+ * i.e. for itself, and is cancelled. Groups are compared ignoring whitespace.
+ */
+function validateConcurrency(config: IWorkflowConfig): IDiagnostic[] {
+  const group = config.concurrency?.group?.replace(WHITESPACE_REGEX, "");
+  if (!group) {
+    return [];
+  }
+  return Object.entries(config.jobs).flatMap(([jobId, job]) =>
+    job.concurrency?.group?.replace(WHITESPACE_REGEX, "") === group
+      ? [
+          warning(
+            `jobs.${jobId}.concurrency.group`,
+            `The job's concurrency group "${job.concurrency.group}" is the workflow's; the job would wait for its own workflow run and deadlock. Use a different group, e.g. with a prefix`
+          ),
+        ]
+      : []
+  );
+}
+
+/**
+ * Filters that cannot be combined are checked for the events that support them,
+ * and cron expressions of schedules for syntax and frequency.
+ */
+function validateTriggers(triggers: IWorkflowTrigger): IDiagnostic[] {
+  const diagnostics: IDiagnostic[] = [];
+  for (const event of FILTERED_EVENTS) {
+    const config = triggers[event] as Record<string, unknown> | null | undefined;
+    if (!config) {
+      continue;
+    }
+    for (const [filter, negatedFilter] of EXCLUSIVE_FILTERS) {
+      if (config[filter] !== undefined && config[negatedFilter] !== undefined) {
+        diagnostics.push(
+          error(
+            `on.${event}.${negatedFilter}`,
+            `${filter} and ${negatedFilter} cannot be used together; use "!" patterns in ${filter} to exclude`
+          )
+        );
+      }
+    }
+  }
+  for (const [index, schedule] of (triggers.schedule ?? []).entries()) {
+    const problem = validateCron(schedule.cron);
+    if (problem) {
+      diagnostics.push(error(`on.schedule[${index}].cron`, problem));
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Find dependency cycles between jobs. Each cycle is reported once, at the job
+ * where the depth-first search closed it.
+ */
+function findCycles(jobs: Record<string, IJob>): IDiagnostic[] {
+  const diagnostics: IDiagnostic[] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (jobId: string): void => {
+    if (done.has(jobId) || !jobs[jobId]) {
+      return;
+    }
+    const cycleStart = stack.indexOf(jobId);
+    if (cycleStart !== -1) {
+      const cycle = [...stack.slice(cycleStart), jobId];
+      diagnostics.push(
+        error(`jobs.${stack[stack.length - 1]}.needs`, `Dependency cycle: ${cycle.join(" → ")}`)
+      );
+      return;
+    }
+    stack.push(jobId);
+    for (const dependency of toArray(jobs[jobId].needs)) {
+      visit(dependency);
+    }
+    stack.pop();
+    done.add(jobId);
+  };
+
+  for (const jobId of Object.keys(jobs)) {
+    visit(jobId);
+  }
+  return diagnostics;
+}
+
+/**
+ * Validate a workflow configuration.
+ *
+ * Checks `needs` references and dependency cycles, job and step ids, duplicate step ids,
+ * steps without (or with both) `uses` and `run`, `with` on `run` steps, unknown shells and
+ * `shell` on action steps, jobs without steps,
+ * jobs calling reusable workflows (invalid references, settings that only apply to jobs with steps),
+ * trigger filters that cannot be combined (e.g. `branches` with `branches-ignore`),
+ * `runs-on` labels and groups no declared runner has,
+ * schedule cron expressions (see `validateCron`), environment names and environments of matrix jobs,
+ * matrices (job count, see `expandMatrix`, and excludes matching nothing),
+ * job concurrency groups colliding with the workflow's,
+ * every `${{ }}` expression (see `validateExpressions`) and, when enabled, token permissions
+ * (see `analyzePermissions`).
+ *
+ * @param config - The workflow configuration
+ * @param options - What the configuration does not hold, e.g. the declared environments
+ * @returns The diagnostics, empty when the workflow is valid
+ */
+export function validateWorkflowConfig(
+  config: IWorkflowConfig,
+  options: IValidationOptions = {}
+): IDiagnostic[] {
+  const jobIds = new Set(Object.keys(config.jobs));
+  const diagnostics = validateTriggers(config.on ?? {});
+  diagnostics.push(...validateShell("defaults.run.shell", config.defaults?.run?.shell));
+  diagnostics.push(
+    ...Object.entries(config.jobs).flatMap(([jobId, job]) =>
+      validateJob(jobId, job, jobIds, options)
+    )
+  );
+  diagnostics.push(...findCycles(config.jobs));
+  diagnostics.push(...validateConcurrency(config));
+  for (const issue of validateExpressions(config)) {
+    diagnostics.push(error(issue.path, issue.message));
+  }
+  if (options.analyzePermissions) {
+    diagnostics.push(...analyzePermissions(config, options.actionPermissions));
+  }
+  return diagnostics;
+}
+
+/**
+ * Format diagnostics as an error message, one diagnostic per line.
+ *
+ * @param workflowName - Name of the workflow the diagnostics belong to
+ * @param diagnostics - The diagnostics to report
+ */
+export function formatDiagnostics(
+  workflowName: string | undefined,
+  diagnostics: readonly IDiagnostic[]
+): string {
+  const lines = diagnostics.map(
+    (diagnostic) => `  ${diagnostic.severity}: ${diagnostic.path}: ${diagnostic.message}`
+  );
+  return `Invalid workflow "${workflowName ?? "(unnamed)"}":\n${lines.join("\n")}`;
+}
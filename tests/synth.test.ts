@@ -1,11 +1,63 @@
-import { ok, throws } from "node:assert/strict";
-import { existsSync, readFileSync, rmSync } from "node:fs";
+import { ok, rejects, throws } from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { test } from "node:test";
-import { ActionsSetupNode4 } from "../.ts-actions/imports/index.js";
+import { mock, test } from "node:test";
+import { parse } from "yaml";
+import { ActionsCheckout4, ActionsSetupNode4 } from "../.ts-actions/imports/index.js";
+import { OctoSharedDeployWorkflow2 } from "../.ts-actions/imports/octo/shared/workflows/deploy/v2.js";
+import { parseWorkflowCall } from "../src/actions/fetcher.js";
+import {
+  generateTypeDefinition,
+  generateWorkflowTypeDefinition,
+} from "../src/actions/generator.js";
+import { parseWorkflowReference } from "../src/actions/parser.js";
+import { saveImportedWorkflow } from "../src/actions/storage.js";
+import { defineConfig, resetConfig, setConfig } from "../src/config/config.js";
+import { compareWorkflowConfigs } from "../src/convert/compare.js";
+import { convertWorkflowYaml } from "../src/convert/converter.js";
+import {
+  cancelInProgressExcept,
+  concurrencyPerBranch,
+  concurrencyPerEnvironment,
+  concurrencyPerPullRequest,
+} from "../src/core/concurrency-helpers.js";
+import {
+  type DynamicContext,
+  createContext,
+  github,
+  matrix,
+  runner,
+  secrets,
+  vars,
+} from "../src/core/contexts.js";
+import { describeCron, validateCron } from "../src/core/cron.js";
+import {
+  addMask,
+  addPath,
+  appendStepSummary,
+  setEnv,
+  setJsonOutput,
+  setMultilineOutput,
+} from "../src/core/environment-files.js";
+import { contains, context, format, hashFiles, success } from "../src/core/expressions.js";
+import { jsonOutput, needs, setOutput, steps } from "../src/core/job-outputs.js";
+import { Job } from "../src/core/job.js";
+import { Matrix } from "../src/core/matrix.js";
+import { ReusableWorkflow } from "../src/core/reusable-workflow.js";
+import { describeRunner } from "../src/core/runners.js";
+import { Schedule } from "../src/core/schedule.js";
+import { renderScript } from "../src/core/shells.js";
 import { Step } from "../src/core/step.js";
+import type { IJob, RunnerCatalogOf, Shell } from "../src/core/types.js";
 import { Workflow } from "../src/core/workflow.js";
-import { synthesize } from "../src/synth/yaml.js";
+import { checkWorkflows, hasDrift } from "../src/synth/check.js";
+import { type WatchSummary, WorkflowWatcher, collectImportGraph } from "../src/synth/watch.js";
+import { loadWorkflowsFromFile } from "../src/synth/workflow-loader.js";
+import { synthesize, synthesizeMultiple } from "../src/synth/yaml.js";
+import { validateExpressions } from "../src/validate/expressions.js";
+import { inferJobPermissions } from "../src/validate/permissions.js";
 import { arrayStepsWorkflow } from "./workflows/array-steps.js";
 import { invalidStep } from "./workflows/invalid-step.js";
 import { jobOutputsWorkflow } from "./workflows/job-outputs.js";
@@ -16,6 +68,28 @@ import { simpleTypeScriptFunctionWorkflow } from "./workflows/simple-typescript-
 import { typescriptFunctionWorkflow } from "./workflows/typescript-function.js";
 
 const TEST_OUTPUT_DIR = join(process.cwd(), "tests", "output");
+const DEPLOY_WORKFLOW_FIXTURE = join(
+  process.cwd(),
+  ".ts-actions",
+  "imports",
+  "octo",
+  "shared",
+  "workflows",
+  "deploy",
+  "v2.ts"
+);
+
+const RUNNERS_CONFIG = defineConfig({
+  runners: [
+    { labels: ["gpu"], os: "linux", arch: "x64" },
+    { group: "arm-builders", labels: ["arm-large"], os: "linux", arch: "arm64", hosted: true },
+  ],
+});
+
+// Type-check runs-on in the tests against the runners of RUNNERS_CONFIG
+declare module "../src/core/types.js" {
+  interface IRunnerCatalog extends RunnerCatalogOf<typeof RUNNERS_CONFIG> {}
+}
 
 const INVALID_STEP_ERROR_REGEX =
   /Invalid step: a step cannot have both 'uses' and 'run' properties/;
@@ -23,6 +97,19 @@ const INVALID_STEP_ERROR_REGEX =
 // Regex patterns (moved to top level for performance)
 const RUN_BLOCK_REGEX = /run:\s*>-?\s*node\s*<<[^>]+>\s*([\s\S]*?)TS_ACTIONS_EOF/;
 const EXPORT_STATEMENT_REGEX = /^\s*export\s+/m;
+const WORKFLOW_NOT_FOUND_REGEX = /Workflow file not found/;
+const INVALID_CONTEXT_REGEX = /Invalid context path/;
+const INVALID_WORKFLOW_REGEX = /Invalid workflow "Broken Expressions"/;
+const CONFLICTING_FILTERS_REGEX = /branches and branches-ignore cannot be used together/;
+const INVALID_TIME_REGEX = /Invalid time "25:00"/;
+const EVERY_MINUTES_REGEX = /must be a divisor of 60 of at least 5/;
+const NOT_REUSABLE_REGEX = /has no 'workflow_call' trigger/;
+const MATRIX_FROM_JSON_REGEX = /Matrix.fromJSON\(\) expects an expression/;
+const SET_OUTPUT_SHELL_REGEX = /does not know the syntax of the custom shell "perl \{0\}"/;
+const JSON_OUTPUT_REGEX = /jsonOutput\(\) expects an expression/;
+const LINE_BREAK_REGEX = /\r?\n/;
+const STEP_OUTPUTS_ID_REGEX = /Step must have an ID to read its outputs/;
+const INVALID_REUSABLE_WORKFLOW_REGEX = /Invalid reusable workflow "octo\/shared\/release.yml"/;
 
 // Clean up test output directory before tests
 if (existsSync(TEST_OUTPUT_DIR)) {
@@ -367,3 +454,1501 @@ test("synthesize workflow with simple anonymous TypeScript function", async () =
     "Should call the function (anonymous function takes no args)"
   );
 });
+
+test("load exported workflows from a TypeScript file", () => {
+  const loaded = loadWorkflowsFromFile(join(process.cwd(), "tests", "workflows", "job-outputs.ts"));
+
+  ok(loaded.length === 1, "Should find exactly one exported workflow");
+  ok(loaded[0].exportName === "jobOutputsWorkflow", "Should record the export name");
+  ok(loaded[0].workflow === jobOutputsWorkflow, "Should return the exported workflow instance");
+  throws(() => loadWorkflowsFromFile("tests/workflows/does-not-exist.ts"), {
+    message: WORKFLOW_NOT_FOUND_REGEX,
+  });
+});
+
+test("synthesis honors project configuration", async () => {
+  setConfig({ outputDir: TEST_OUTPUT_DIR, defaultRunner: "ubuntu-22.04", yaml: { indent: 4 } });
+  try {
+    const workflow = new Workflow("Configured Defaults")
+      .onPush()
+      .addJob("build", (job) => job.addStep((step) => step.run("npm test")));
+
+    await synthesize(workflow);
+
+    const yamlContent = readFileSync(join(TEST_OUTPUT_DIR, "configured-defaults.yml"), "utf-8");
+    ok(yamlContent.includes("        runs-on: ubuntu-22.04"), "Should use configured runner");
+    ok(yamlContent.includes("\n    build:\n"), "Should use configured indentation");
+  } finally {
+    resetConfig();
+  }
+});
+
+test("check reports drift between synthesized and committed workflows", async () => {
+  const outputDir = mkdtempSync(join(tmpdir(), "ts-actions-check-"));
+  try {
+    const workflow = new Workflow("Drift Check")
+      .onPush({ branches: ["main"] })
+      .addJob("build", (job) => job.addStep((step) => step.name("Test").run("npm test")));
+
+    const missing = await checkWorkflows([{ workflow }], outputDir);
+    ok(missing[0].status === "missing", "Should report a missing file");
+    ok(hasDrift(missing), "Missing files count as drift");
+
+    await synthesize(workflow, outputDir);
+    const upToDate = await checkWorkflows([{ workflow }], outputDir);
+    ok(upToDate[0].status === "up-to-date", "Should match freshly synthesized output");
+    ok(upToDate[0].diff === "", "Should not produce a diff when up to date");
+
+    const filePath = join(outputDir, "drift-check.yml");
+    writeFileSync(filePath, readFileSync(filePath, "utf-8").replace("npm test", "npm run test"));
+    const changed = await checkWorkflows([{ workflow }], outputDir);
+    ok(changed[0].status === "changed", "Should detect hand edits");
+    ok(changed[0].diff.includes("-        run: npm run test"), "Diff should show the edited line");
+    ok(changed[0].diff.includes("+        run: npm test"), "Diff should show the synthesized line");
+  } finally {
+    rmSync(outputDir, { recursive: true, force: true });
+  }
+});
+
+test("synthesized files carry a header and stale output is removed", async () => {
+  const outputDir = mkdtempSync(join(tmpdir(), "ts-actions-prune-"));
+  const source = join(process.cwd(), "tests", "workflows", "renamed.ts");
+  const build = (name: string) =>
+    new Workflow(name).onPush().addJob("build", (job) => job.addStep((step) => step.run("make")));
+  try {
+    writeFileSync(join(outputDir, "hand-written.yml"), "name: Hand Written\n", "utf-8");
+
+    await synthesizeMultiple([{ workflow: build("Old Name"), source }], outputDir);
+    const content = readFileSync(join(outputDir, "old-name.yml"), "utf-8");
+    ok(
+      content.startsWith(
+        "# Generated by ts-actions from tests/workflows/renamed.ts. Do not edit this file by hand.\n"
+      ),
+      "Should start with the generated-file header"
+    );
+
+    const cwd = process.cwd();
+    process.chdir(outputDir);
+    try {
+      const elsewhere = await checkWorkflows([{ workflow: build("Old Name"), source }], outputDir);
+      ok(elsewhere[0].status === "up-to-date", "The header should not depend on the directory");
+    } finally {
+      process.chdir(cwd);
+      resetConfig();
+    }
+
+    const drift = await checkWorkflows([{ workflow: build("New Name"), source }], outputDir);
+    const stale = drift.find((result) => result.filename === "old-name.yml");
+    ok(stale?.status === "stale", "Check should report the renamed workflow's file as stale");
+    ok(stale.diff.includes("-name: Old Name"), "Diff should show the stale file being removed");
+    ok(
+      !drift.some((result) => result.filename === "hand-written.yml"),
+      "Check should ignore hand-written YAML"
+    );
+
+    const removed = await synthesizeMultiple([{ workflow: build("New Name"), source }], outputDir);
+    ok(removed.length === 1 && removed[0] === "old-name.yml", "Should report the stale file");
+    ok(!existsSync(join(outputDir, "old-name.yml")), "Should delete the renamed workflow's file");
+    ok(existsSync(join(outputDir, "new-name.yml")), "Should write the new file");
+    ok(existsSync(join(outputDir, "hand-written.yml")), "Should keep hand-written YAML");
+
+    setConfig({ header: false });
+    await synthesize(build("No Header"), outputDir);
+    ok(
+      readFileSync(join(outputDir, "no-header.yml"), "utf-8").startsWith("name: No Header"),
+      "Should omit the header when disabled"
+    );
+  } finally {
+    resetConfig();
+    rmSync(outputDir, { recursive: true, force: true });
+  }
+});
+
+test("watch mode re-synthesizes only workflows affected by a change", async () => {
+  const sourceDir = mkdtempSync(join(tmpdir(), "ts-actions-watch-"));
+  const outputDir = join(sourceDir, "out");
+  const workflowModule = join(process.cwd(), "src", "core", "workflow.js");
+  const writeSource = (file: string, content: string) =>
+    writeFileSync(join(sourceDir, file), content, "utf-8");
+
+  writeSource("command.ts", 'export const command = "npm test";\n');
+  writeSource(
+    "ci.ts",
+    `import { Workflow } from ${JSON.stringify(workflowModule)};
+import { command } from "./command.js";
+export const ci = new Workflow("Watch CI").onPush().addJob("test", (job) => job.addStep((step) => step.run(command)));
+`
+  );
+  writeSource(
+    "lint.ts",
+    `import { Workflow } from ${JSON.stringify(workflowModule)};
+export const lint = new Workflow("Watch Lint").onPush().addJob("lint", (job) => job.addStep((step) => step.run("npm run lint")));
+`
+  );
+
+  const watcher = new WorkflowWatcher(
+    [join(sourceDir, "ci.ts"), join(sourceDir, "lint.ts")],
+    outputDir
+  );
+  try {
+    const graph = collectImportGraph(join(sourceDir, "ci.ts"));
+    ok(
+      graph.includes(join(sourceDir, "command.ts")),
+      "Import graph should follow relative imports"
+    );
+
+    const initial = await watcher.start();
+    ok(initial.written.length === 2, "Initial pass should write every workflow");
+
+    writeSource("command.ts", 'export const command = "npm run test:ci";\n');
+    const summary = await watcher.rebuild([join(sourceDir, "command.ts")]);
+    ok(summary.written.length === 1 && summary.written[0] === "watch-ci.yml", "Should rewrite ci");
+    ok(summary.unchanged.length === 0, "Should not re-synthesize unaffected workflows");
+    ok(
+      readFileSync(join(outputDir, "watch-ci.yml"), "utf-8").includes("npm run test:ci"),
+      "Should pick up the changed import"
+    );
+  } finally {
+    watcher.close();
+    rmSync(sourceDir, { recursive: true, force: true });
+  }
+});
+
+test("watch mode reports a failed pass and keeps rebuilding after it", async () => {
+  const sourceDir = mkdtempSync(join(tmpdir(), "ts-actions-watch-"));
+  const outputDir = join(sourceDir, "out");
+  const manifest = join(outputDir, ".ts-actions-manifest.json");
+  const source = join(sourceDir, "ci.ts");
+  const writeSource = (command: string) =>
+    writeFileSync(
+      source,
+      `import { Workflow } from ${JSON.stringify(join(process.cwd(), "src", "core", "workflow.js"))};
+export const ci = new Workflow("Watch CI").onPush().addJob("test", (job) => job.addStep((step) => step.run(${JSON.stringify(command)})));
+`,
+      "utf-8"
+    );
+
+  const summaries: WatchSummary[] = [];
+  let notify: () => void = () => undefined;
+  const nextSummary = () =>
+    new Promise<WatchSummary>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error("No synthesis pass")), 5000);
+      notify = () => {
+        clearTimeout(timeout);
+        resolve(summaries[summaries.length - 1]);
+      };
+    });
+  const watcher = new WorkflowWatcher([source], outputDir, {
+    debounceMs: 10,
+    onSynthesize: (summary) => {
+      summaries.push(summary);
+      notify();
+    },
+  });
+  const warnings: string[] = [];
+  const warn = mock.method(console, "warn", (message: string) => warnings.push(message));
+  try {
+    writeSource("npm test");
+    await watcher.start();
+
+    // The manifest cannot be written when a directory takes its place
+    rmSync(manifest);
+    mkdirSync(manifest);
+    let pass = nextSummary();
+    writeSource("npm run test:ci");
+    const failed = await pass;
+    ok(
+      failed.errors.some(({ entry }) => entry === source),
+      "The failed pass should be reported for its entry"
+    );
+
+    rmSync(manifest, { recursive: true });
+    pass = nextSummary();
+    writeSource("npm run test:all");
+    const recovered = await pass;
+    ok(recovered.errors.length === 0 && recovered.written[0] === "watch-ci.yml");
+  } finally {
+    warn.mock.restore();
+    watcher.close();
+    rmSync(sourceDir, { recursive: true, force: true });
+  }
+});
+
+test("convert workflow YAML into builder code that synthesizes the same workflow", () => {
+  const yamlText = readFileSync(
+    join(process.cwd(), "tests", "workflows", "legacy-ci.yml"),
+    "utf-8"
+  );
+  const result = convertWorkflowYaml(yamlText, {
+    libraryModule: join(process.cwd(), "src", "index.js"),
+    importsModule: join(process.cwd(), ".ts-actions", "imports", "index.js"),
+  });
+  ok(result.exportName === "legacyCiWorkflow", "Should derive the export name");
+  ok(result.code.includes(".uses(ActionsCheckout4)"), "Should use imported action classes");
+  ok(result.code.includes("needs(buildJob)"), "Should reference job outputs through needs()");
+
+  const outputDir = mkdtempSync(join(tmpdir(), "ts-actions-convert-"));
+  try {
+    const file = join(outputDir, "legacy-ci.ts");
+    writeFileSync(file, result.code, "utf-8");
+    const [loaded] = loadWorkflowsFromFile(file);
+    const differences = compareWorkflowConfigs(parse(yamlText), loaded.workflow.toJSON());
+    ok(differences.length === 0, `Should round-trip: ${JSON.stringify(differences)}`);
+  } finally {
+    rmSync(outputDir, { recursive: true, force: true });
+  }
+
+  const partial = convertWorkflowYaml(
+    "on: push\njobs:\n  deploy:\n    runs-on: ubuntu-latest\n    snapshot: deploy-image\n    steps:\n      - run: ./deploy.sh\n"
+  );
+  ok(
+    partial.warnings.some((warning) => warning.includes("'snapshot' is not supported")),
+    "Should warn about settings it cannot convert"
+  );
+});
+
+test("expression builder quotes literals and respects operator precedence", () => {
+  const ref = context("github.ref");
+  const condition = ref.eq("refs/heads/main").or(ref.eq("refs/heads/release")).and(success());
+  ok(
+    condition.body ===
+      "(github.ref == 'refs/heads/main' || github.ref == 'refs/heads/release') && success()",
+    `Unexpected expression: ${condition.body}`
+  );
+  ok(
+    contains(context("github.event.pull_request.labels.*.name"), "it's ready").body ===
+      "contains(github.event.pull_request.labels.*.name, 'it''s ready')"
+  );
+  ok(ref.eq("main").not().toCondition() === "${{ !(github.ref == 'main') }}");
+  ok(`${hashFiles("**/package-lock.json")}` === "${{ hashFiles('**/package-lock.json') }}");
+
+  const step = new Step()
+    .name(format("Deploy {0}", context("github.sha")))
+    .if(condition)
+    .run(`echo ${context("github.actor")}`)
+    .env({ cacheKey: hashFiles("package-lock.json") })
+    .toJSON();
+  ok(step.name === "${{ format('Deploy {0}', github.sha) }}", "Names accept expressions");
+  ok(step.if === condition.body, "Conditions are rendered without ${{ }}");
+  ok(step.run === "echo ${{ github.actor }}", "Expressions interpolate into strings");
+  ok(
+    step.env?.cacheKey === "${{ hashFiles('package-lock.json') }}",
+    "Env values accept expressions"
+  );
+  throws(() => context("github.ref == 'main'"), { message: INVALID_CONTEXT_REGEX });
+});
+
+test("typed contexts render paths and type github.event by the workflow's triggers", () => {
+  const workflow = new Workflow("Contexts").onPush().addJob("build", (job, contexts) =>
+    job
+      .runsOn("ubuntu-latest")
+      .if(contexts.github.event.head_commit.message.ne("skip"))
+      .addStep((step) =>
+        step
+          .run(`echo ${contexts.github.event.commits[0].author.name} on ${runner.os}`)
+          .env({ token: secrets.GITHUB_TOKEN, mode: vars["deploy-mode"] })
+      )
+  );
+  const build = workflow.toJSON().jobs.build as unknown as IJob;
+  ok(build.if === "github.event.head_commit.message != 'skip'", `Unexpected if: ${build.if}`);
+  ok(
+    build.steps?.[0].run === "echo ${{ github.event.commits[0].author.name }} on ${{ runner.os }}"
+  );
+  ok(build.steps?.[0].env?.token === "${{ secrets.GITHUB_TOKEN }}");
+  ok(build.steps?.[0].env?.mode === "${{ vars.deploy-mode }}");
+
+  // @ts-expect-error pull_request is not part of the push payload
+  ok(workflow.contexts.github.event.pull_request);
+  const both = workflow.onPullRequest();
+  ok(
+    `${both.contexts.github.event.pull_request.number}` ===
+      "${{ github.event.pull_request.number }}"
+  );
+  ok(
+    contains(both.contexts.github.event.pull_request.labels["*"].name, "ready").toCondition() ===
+      "contains(github.event.pull_request.labels.*.name, 'ready')"
+  );
+  ok(`${github.event.issue.body}` === "${{ github.event.issue.body }}", "Paths may be named body");
+});
+
+test("synthesis rejects invalid expressions with the offending path", async () => {
+  const workflow = new Workflow("Broken Expressions")
+    .onPush()
+    .addJob("build", (job) =>
+      job
+        .runsOn("ubuntu-latest")
+        .if("steps.setup.outputs.ok == 'true'")
+        .addStep((step) => step.id("setup").run("echo ${{ github.sha == }}"))
+        .addStep((step) => step.run("echo ${{ upper(github.ref) }} ${{ steps.later.outputs.x }}"))
+        .addStep((step) => step.id("later").run("echo ${{ needs.deploy.outputs.url }}"))
+        .addStep((step) => step.if("secrets.TOKEN != ''").run("echo ${{ secrets.TOKEN }}"))
+        .outputs({
+          version: "${{ steps.setup.outputs.version }}",
+          key: "${{ hashFiles('package-lock.json') }}",
+        })
+    )
+    .addJob("test", (job) =>
+      job
+        .runsOn("ubuntu-latest")
+        .needs(["build"])
+        .addStep((step) => step.run("echo ${{ needs.build.outputs.version }}"))
+    );
+
+  const issues = validateExpressions(workflow.toJSON());
+  const messages = issues.map((issue) => `${issue.path}: ${issue.message}`);
+  const expected = [
+    'jobs.build.if: The "steps" context is not available here',
+    'jobs.build.steps[0].run: Invalid expression "github.sha =="',
+    'jobs.build.steps[1].run: Unknown function "upper()"',
+    'jobs.build.steps[1].run: Step "later" runs after this step',
+    'jobs.build.steps[2].run: Job "deploy" does not exist in the workflow',
+    'jobs.build.steps[3].if: The "secrets" context is not available here',
+    "jobs.build.outputs.key: hashFiles() is only available in steps",
+  ];
+  for (const message of expected) {
+    ok(
+      messages.some((actual) => actual.startsWith(message)),
+      `Missing issue "${message}" in:\n${messages.join("\n")}`
+    );
+  }
+  ok(issues.length === expected.length, `Unexpected issues:\n${messages.join("\n")}`);
+
+  await rejects(synthesize(workflow, TEST_OUTPUT_DIR), { message: INVALID_WORKFLOW_REGEX });
+});
+
+test("object filters over needs and steps reference no particular job or step", async () => {
+  const workflow = new Workflow("Object Filters")
+    .onPush()
+    .addJob("build", (job) =>
+      job
+        .runsOn("ubuntu-latest")
+        .addStep((step) => step.id("test").run("npm test"))
+        .addStep((step) =>
+          step.if("contains(steps.*.outcome, 'failure')").run("echo ${{ toJSON(steps.*.outcome) }}")
+        )
+    )
+    .addJob("notify", (job) =>
+      job
+        .runsOn("ubuntu-latest")
+        .needs(["build"])
+        .if("always() && contains(needs.*.result, 'failure')")
+        .addStep((step) => step.run("echo ${{ join(needs.*.result, ', ') }}"))
+    );
+  ok(workflow.validate().length === 0, JSON.stringify(workflow.validate()));
+
+  await synthesize(workflow, TEST_OUTPUT_DIR);
+  const jobs = parse(readFileSync(join(TEST_OUTPUT_DIR, "object-filters.yml"), "utf-8")).jobs;
+  ok(jobs.notify.if === "always() && contains(needs.*.result, 'failure')", jobs.notify.if);
+});
+
+test("validate collects structural problems as path-qualified diagnostics", () => {
+  const conflictingStep = new Step();
+  (conflictingStep as unknown as { step: { id: string; uses: string; run: string } }).step = {
+    id: "setup",
+    uses: "actions/checkout@v4",
+    run: "echo both",
+  };
+  const workflow = new Workflow("Broken Structure")
+    .onPush()
+    .addJob("build", (job) =>
+      job
+        .needs(["deploy"])
+        .addStep((step) => step.id("setup").run("npm ci"))
+        .addStep(conflictingStep)
+        .addStep((step) => step.name("Nothing to do"))
+        .addStep((step) => step.run("npm test").with({ verbose: true }))
+    )
+    .addJob("deploy", (job) => job.needs(["build", "missing"]))
+    .addJob("bad id!", (job) => job.addStep((step) => step.run("true")));
+
+  const diagnostics = workflow.validate();
+  const messages = diagnostics.map((diagnostic) => `${diagnostic.path}: ${diagnostic.message}`);
+  const expected = [
+    "jobs.build.steps[1]: A step cannot have both uses and run",
+    'jobs.build.steps[1].id: Duplicate step id "setup" (also used by steps[0])',
+    "jobs.build.steps[2]: A step must have either uses or run",
+    "jobs.build.steps[3].with: with only applies to action steps (uses)",
+    'jobs.deploy.needs[1]: Job "missing" does not exist in the workflow',
+    "jobs.deploy.steps: A job must have at least one step",
+    'jobs.bad id!: Invalid job id "bad id!"',
+    "jobs.deploy.needs: Dependency cycle: build → deploy → build",
+  ];
+  for (const message of expected) {
+    ok(
+      messages.some((actual) => actual.startsWith(message)),
+      `Missing diagnostic "${message}" in:\n${messages.join("\n")}`
+    );
+  }
+  ok(diagnostics.length === expected.length, `Unexpected diagnostics:\n${messages.join("\n")}`);
+  ok(diagnostics.every((diagnostic) => diagnostic.severity === "error"));
+  ok(simpleCIWorkflow.validate().length === 0, "Valid workflows have no diagnostics");
+});
+
+test("typed triggers cover activity types and filters of all events", () => {
+  const workflow = new Workflow("Automations")
+    .onRelease(["published", "prereleased"])
+    .onIssueComment(["created"])
+    .onPullRequestTarget({ types: ["opened", "auto_merge_enabled"], branches: ["main"] })
+    .onWorkflowRun({ workflows: ["CI"], types: ["completed"], branchesIgnore: ["dependabot/**"] })
+    .onMergeGroup()
+    .onDeploymentStatus()
+    .onRegistryPackage(["published"])
+    .addJob("notify", (job, { github }) =>
+      job
+        .runsOn("ubuntu-latest")
+        .if(github.event.workflow_run.conclusion.eq("success"))
+        .addStep((step) => step.run(`echo ${github.event.release.tag_name}`))
+    );
+
+  const on = workflow.toJSON().on;
+  ok(on.release?.types?.join() === "published,prereleased");
+  ok(on.issue_comment?.types?.join() === "created");
+  ok(on.pull_request_target?.branches?.join() === "main");
+  ok(on.workflow_run?.["branches-ignore"]?.join() === "dependabot/**", "Filters use YAML keys");
+  ok(on.merge_group !== undefined && on.deployment_status !== undefined);
+  ok(workflow.validate().length === 0, "github.event paths of all triggers are valid");
+
+  const converted = convertWorkflowYaml(
+    "on:\n  release:\n    types: [published]\n  merge_group:\njobs: {}\n"
+  );
+  ok(
+    converted.code.includes('.onRelease(["published"])') &&
+      converted.code.includes(".onMergeGroup()")
+  );
+  ok(converted.warnings.length === 0, converted.warnings.join("\n"));
+});
+
+test("push and pull_request filters use YAML keys, reject conflicts and match changes", async () => {
+  const workflow = new Workflow("Filters")
+    .onPush({ branches: ["main", "releases/**", "!releases/**-alpha"], pathsIgnore: ["docs/**"] })
+    .onPullRequest({ branchesIgnore: ["experimental/*"], paths: ["src/**/*.ts"] })
+    .addJob("build", (job) => job.runsOn("ubuntu-latest").addStep((step) => step.run("make")));
+
+  const on = workflow.toJSON().on;
+  ok(on.push?.["paths-ignore"]?.join() === "docs/**");
+  ok(on.pull_request?.["branches-ignore"]?.join() === "experimental/*");
+  ok(!("pathsIgnore" in (on.push ?? {})), "Option names are not emitted");
+  ok(workflow.validate().length === 0);
+
+  ok(workflow.wouldTrigger("push", { ref: "refs/heads/releases/v2", paths: ["src/index.ts"] }));
+  ok(!workflow.wouldTrigger("push", { ref: "refs/heads/releases/v2-alpha" }), "! excludes");
+  ok(!workflow.wouldTrigger("push", { ref: "main", paths: ["docs/a.md", "docs/b/c.md"] }));
+  ok(workflow.wouldTrigger("push", { ref: "main", paths: ["docs/a.md", "README.md"] }));
+  ok(!workflow.wouldTrigger("push", { ref: "refs/tags/v1.0.0" }), "Only branches are filtered");
+  ok(workflow.wouldTrigger("pull_request", { ref: "main", paths: ["src/core/job.ts"] }));
+  ok(!workflow.wouldTrigger("pull_request", { ref: "experimental/x" }));
+  ok(!workflow.wouldTrigger("pull_request", { ref: "main", paths: ["package.json"] }));
+  ok(!workflow.wouldTrigger("pull_request_target", { ref: "main" }), "No such trigger");
+
+  const conflicting = new Workflow("Conflicting Filters")
+    .onPush({ branches: ["main"], branchesIgnore: ["dev"], tags: ["v*"], tagsIgnore: ["v0*"] })
+    .onPullRequest({ paths: ["src/**"], pathsIgnore: ["docs/**"] })
+    .addJob("build", (job) => job.runsOn("ubuntu-latest").addStep((step) => step.run("make")));
+  const paths = conflicting.validate().map((diagnostic) => diagnostic.path);
+  ok(
+    paths.join() === "on.push.branches-ignore,on.push.tags-ignore,on.pull_request.paths-ignore",
+    paths.join()
+  );
+  await rejects(synthesize(conflicting, TEST_OUTPUT_DIR), CONFLICTING_FILTERS_REGEX);
+
+  const converted = convertWorkflowYaml(
+    "on:\n  push:\n    branches-ignore: [dev]\n    paths-ignore: [docs/**]\njobs: {}\n"
+  );
+  ok(converted.code.includes('branchesIgnore: ["dev"]'), converted.code);
+  ok(converted.warnings.length === 0, converted.warnings.join("\n"));
+});
+
+test("schedules are built fluently, validated and described in the YAML", async () => {
+  ok(Schedule.weekdays().at("06:30").toCron() === "30 6 * * 1-5");
+  ok(Schedule.everyMinutes(15).toCron() === "*/15 * * * *");
+  ok(
+    Schedule.weekdays().at("00:30").inTimeZone("Europe/Berlin", new Date("2026-01-15")).toCron() ===
+      "30 23 * * 0-4",
+    "Converting to UTC moves the days of the week"
+  );
+  ok(
+    Schedule.daily().at("12:00").inTimeZone("Europe/Berlin").toCron() === "0 11 * * *",
+    "Time zones default to standard time, whatever the date of synthesis"
+  );
+  ok(Schedule.daily().at("12:00").inTimeZone("Australia/Sydney").toCron() === "0 2 * * *");
+  throws(() => Schedule.everyMinutes(2), EVERY_MINUTES_REGEX);
+  throws(() => Schedule.daily().at("25:00"), INVALID_TIME_REGEX);
+  ok(validateCron("0 0 * * 7")?.includes("day of week 7 is out of range"));
+  ok(validateCron("*/2 * * * *")?.includes("at most every 5 minutes"));
+  ok(
+    describeCron("0 9-17 * * mon-fri").endsWith("hours 9 through 17 UTC, on Monday through Friday")
+  );
+
+  const nightly = new Workflow("Nightly")
+    .onSchedule(Schedule.weekdays().at("06:30"))
+    .onSchedule("0 0 1 * *")
+    .addJob("build", (job) => job.runsOn("ubuntu-latest").addStep((step) => step.run("make")));
+  await synthesize(nightly, TEST_OUTPUT_DIR);
+  const yaml = readFileSync(join(TEST_OUTPUT_DIR, "nightly.yml"), "utf-8");
+  ok(yaml.includes("- cron: 30 6 * * 1-5 # At 06:30 UTC, on Monday through Friday"), yaml);
+  ok(yaml.includes("# At 00:00 UTC, on day 1 of the month"), yaml);
+  ok(parse(yaml).on.schedule[0].cron === "30 6 * * 1-5");
+
+  const broken = new Workflow("Broken Schedule")
+    .onSchedule("61 * * * *")
+    .onSchedule("* * * * *")
+    .addJob("build", (job) => job.runsOn("ubuntu-latest").addStep((step) => step.run("make")));
+  const paths = broken.validate().map((diagnostic) => diagnostic.path);
+  ok(paths.join() === "on.schedule[0].cron,on.schedule[1].cron", paths.join());
+});
+
+test("workflow_dispatch inputs type the inputs context", () => {
+  const workflow = new Workflow("Deploy")
+    .onWorkflowDispatch({
+      environment: { description: "Target", type: "choice", options: ["staging", "production"] },
+      dryRun: { description: "Only print the plan", type: "boolean" },
+      replicas: { description: "Number of replicas", type: "number" },
+    })
+    .addJob("deploy", (job, { inputs }) =>
+      job
+        .runsOn("ubuntu-latest")
+        .if(inputs.environment.eq("production").and(inputs.dryRun.eq(false)))
+        .addStep((step) => step.run(`deploy --replicas ${inputs.replicas}`))
+    );
+
+  const { environment, dryRun, replicas } = workflow.inputs;
+  ok(String(environment.eq("staging")) === "${{ inputs.environment == 'staging' }}");
+  ok(String(replicas.ge(2)) === "${{ inputs.replicas >= 2 }}");
+  // @ts-expect-error "prod" is not one of the choice options
+  environment.eq("prod");
+  // @ts-expect-error boolean inputs compare with booleans
+  dryRun.eq("true");
+  // @ts-expect-error undeclared input
+  workflow.inputs.region;
+
+  const job = workflow.toJSON().jobs.deploy as IJob;
+  ok(job.if === "inputs.environment == 'production' && inputs.dryRun == false", job.if);
+  ok(job.steps?.[0].run === "deploy --replicas ${{ inputs.replicas }}");
+  ok(workflow.validate().length === 0);
+});
+
+test("jobs call reusable workflows with typed inputs, secrets and outputs", async () => {
+  const deploy = new Workflow("Reusable Deploy")
+    .onWorkflowCall({
+      inputs: {
+        environment: { description: "Target", required: true, type: "string" },
+        replicas: { description: "Number of replicas", type: "number" },
+      },
+      outputs: { url: { description: "Deployed URL", value: "${{ jobs.deploy.outputs.url }}" } },
+      secrets: { token: { description: "Deploy token", required: true } },
+    })
+    .addJob("deploy", (job, { inputs }) =>
+      job
+        .runsOn("ubuntu-latest")
+        .addStep((step) => step.id("deploy").run(`deploy ${inputs.environment}`))
+        .outputs({ url: "${{ steps.deploy.outputs.url }}" })
+    );
+  const release = ReusableWorkflow.at("octo/shared/.github/workflows/release.yml@v1");
+  const deployJob = new Job().uses(ReusableWorkflow.of(deploy), {
+    with: { environment: "production", replicas: 3 },
+    secrets: { token: secrets.DEPLOY_TOKEN },
+  });
+  const caller = new Workflow("Release Caller")
+    .onPush({ tags: ["v*"] })
+    .addJob("deploy", deployJob)
+    .addJob("announce", (job) => {
+      const deployed = needs(deployJob);
+      return job
+        .needs(deployed)
+        .uses(release, { with: { url: deployed.outputs.url }, secrets: "inherit" });
+    });
+
+  // @ts-expect-error the required environment input is missing
+  new Job().uses(ReusableWorkflow.of(deploy), { with: {}, secrets: "inherit" });
+  // @ts-expect-error replicas is a number input
+  new Job().uses(ReusableWorkflow.of(deploy), { with: { environment: "x", replicas: "3" } });
+  // @ts-expect-error the called workflow has no such output
+  needs(deployJob).outputs.version;
+
+  await synthesize(deploy, TEST_OUTPUT_DIR);
+  await synthesize(caller, TEST_OUTPUT_DIR);
+  const called = parse(readFileSync(join(TEST_OUTPUT_DIR, "reusable-deploy.yml"), "utf-8"));
+  ok(called.on.workflow_call.secrets.token.required === true);
+  const jobs = parse(readFileSync(join(TEST_OUTPUT_DIR, "release-caller.yml"), "utf-8")).jobs;
+  ok(jobs.deploy.uses === "./.github/workflows/reusable-deploy.yml");
+  ok(jobs.deploy.secrets.token === "${{ secrets.DEPLOY_TOKEN }}");
+  ok(jobs.deploy["runs-on"] === undefined && jobs.deploy.steps === undefined);
+  ok(jobs.announce.with.url === "${{ needs.deploy.outputs.url }}");
+  ok(jobs.announce.secrets === "inherit");
+
+  throws(() => ReusableWorkflow.at("octo/shared/release.yml"), INVALID_REUSABLE_WORKFLOW_REGEX);
+  const broken = new Workflow("Broken Caller").addJob("deploy", (job) =>
+    job
+      .uses(release)
+      .timeoutMinutes(10)
+      .addStep((step) => step.run("make"))
+  );
+  const paths = broken.validate().map((diagnostic) => diagnostic.path);
+  ok(paths.join() === "jobs.deploy.steps,jobs.deploy.timeout-minutes", paths.join());
+
+  const converted = convertWorkflowYaml(
+    "on: push\njobs:\n  call:\n    uses: octo/shared/.github/workflows/release.yml@v1\n    with:\n      dry-run: true\n    secrets: inherit\n"
+  );
+  ok(
+    converted.code.includes(
+      '.uses(ReusableWorkflow.at("octo/shared/.github/workflows/release.yml@v1")'
+    ),
+    converted.code
+  );
+  ok(converted.warnings.length === 0, converted.warnings.join("\n"));
+});
+
+test("imported reusable workflows generate typed caller classes", async () => {
+  const importsDir = mkdtempSync(join(tmpdir(), "ts-actions-imports-"));
+  setConfig({ importsDir });
+  try {
+    const reference = parseWorkflowReference("octo/shared/.github/workflows/deploy.yml@v2");
+    const metadata = parseWorkflowCall(
+      [
+        "name: Deploy",
+        "on:",
+        "  workflow_call:",
+        "    inputs:",
+        "      environment: { type: string, required: true }",
+        "      dry-run: { type: boolean, default: false }",
+        "    secrets:",
+        "      token: { required: true }",
+        "    outputs:",
+        "      url: { value: '${{ jobs.deploy.outputs.url }}' }",
+        "jobs: {}",
+      ].join("\n"),
+      reference.full
+    );
+    throws(() => parseWorkflowCall("on: push\njobs: {}\n", reference.full), NOT_REUSABLE_REGEX);
+
+    const entry = saveImportedWorkflow(reference, metadata);
+    ok(entry.typeName === "OctoSharedDeployWorkflow2", entry.typeName);
+    const typeFile = join(importsDir, "octo", "shared", "workflows", "deploy", "v2.ts");
+    const source = readFileSync(typeFile, "utf-8");
+    ok(source.includes('  "dry-run"?: boolean;'), source);
+    ok(readFileSync(join(importsDir, "index.ts"), "utf-8").includes("OctoSharedDeployWorkflow2"));
+    ok(
+      source === readFileSync(DEPLOY_WORKFLOW_FIXTURE, "utf-8"),
+      "The committed OctoSharedDeployWorkflow2 should be the generated class"
+    );
+
+    new Job().uses(OctoSharedDeployWorkflow2, {
+      with: { environment: "production", "dry-run": true },
+      secrets: { token: secrets.DEPLOY_TOKEN },
+    });
+    // @ts-expect-error the required environment input is missing
+    new Job().uses(OctoSharedDeployWorkflow2, { with: {}, secrets: { token: "x" } });
+    // @ts-expect-error the required token secret is missing
+    new Job().uses(OctoSharedDeployWorkflow2, { with: { environment: "production" }, secrets: {} });
+    new Job().uses(OctoSharedDeployWorkflow2, {
+      // @ts-expect-error dry-run is a boolean input
+      with: { environment: "production", "dry-run": "yes" },
+      secrets: "inherit",
+    });
+
+    const warnings: string[] = [];
+    const warn = mock.method(console, "warn", (message: string) => warnings.push(message));
+    try {
+      // @ts-expect-error the called workflow has no region input
+      const job = new Job().uses(OctoSharedDeployWorkflow2, { with: { region: "eu" } });
+      ok(job.toJSON().uses === reference.full);
+      // Calls by reference are validated against the imported definition too
+      new Job().uses(ReusableWorkflow.at(reference.full), { secrets: "inherit" });
+    } finally {
+      warn.mock.restore();
+    }
+    ok(warnings.length === 4, warnings.join("\n"));
+    ok(warnings[0].includes('Unknown input "region"'), warnings[0]);
+    ok(warnings[2].includes('Required secret "token" is missing'), warnings[2]);
+
+    const converted = convertWorkflowYaml(
+      `on: push\njobs:\n  deploy:\n    uses: ${reference.full}\n    secrets: inherit\n`
+    );
+    ok(
+      converted.code.includes('.uses(OctoSharedDeployWorkflow2, { secrets: "inherit" })'),
+      converted.code
+    );
+  } finally {
+    resetConfig();
+    rmSync(importsDir, { recursive: true, force: true });
+  }
+});
+
+test("workflow_call definitions without a body generate empty definitions", () => {
+  const reference = parseWorkflowReference("octo/shared/.github/workflows/release.yml@v1");
+  const metadata = parseWorkflowCall(
+    [
+      "on:",
+      "  workflow_call:",
+      "    inputs:",
+      "      tag:",
+      "    secrets:",
+      "      token:",
+      "    outputs:",
+      "      url:",
+      "jobs: {}",
+    ].join("\n"),
+    reference.full
+  );
+  const source = generateWorkflowTypeDefinition(metadata, "OctoSharedReleaseWorkflow1", reference);
+  ok(!source.includes("null"), source);
+  ok(source.includes('"token": {}'), source);
+  ok(source.includes('"tag": {\n        "description": ""\n      }'), source);
+  ok(source.includes('"url": {\n        "description": "",\n        "value": ""\n      }'), source);
+  ok(source.includes("  token?: string;"), source);
+});
+
+test("jobs run in containers with typed service ports", async () => {
+  const workflow = new Workflow("Integration Tests").onPush().addJob("test", (job) => {
+    const withServices = job
+      .runsOn("ubuntu-latest")
+      .container("node:20", { credentials: { username: github.actor, password: secrets.TOKEN } })
+      .service("postgres", "postgres:16", {
+        volumes: ["pgdata:/var/lib/postgresql/data"],
+        ports: [5432],
+        options: "--health-cmd pg_isready",
+      })
+      .service("web", "nginx", { ports: ["8080:80"] });
+    const { postgres, web } = withServices.services;
+    // @ts-expect-error port 6379 is not exposed by the postgres service
+    postgres.ports[6379];
+    // @ts-expect-error no redis service
+    withServices.services.redis;
+    return withServices.addStep((step) =>
+      step.run(`psql -p ${postgres.ports[5432]} && curl localhost:${web.ports[80]}`)
+    );
+  });
+
+  await synthesize(workflow, TEST_OUTPUT_DIR);
+  const job = parse(readFileSync(join(TEST_OUTPUT_DIR, "integration-tests.yml"), "utf-8")).jobs
+    .test;
+  ok(job.container.credentials.password === "${{ secrets.TOKEN }}");
+  ok(job.services.postgres.volumes[0] === "pgdata:/var/lib/postgresql/data");
+  ok(job.services.postgres.options === "--health-cmd pg_isready");
+  ok(job.services.web.ports[0] === "8080:80");
+  ok(
+    job.steps[0].run ===
+      "psql -p ${{ job.services.postgres.ports[5432] }} && curl localhost:${{ job.services.web.ports[80] }}",
+    job.steps[0].run
+  );
+
+  const converted = convertWorkflowYaml(
+    "on: push\njobs:\n  test:\n    runs-on: ubuntu-latest\n    container: node:20\n    services:\n      redis:\n        image: redis\n        ports: [6379]\n    steps:\n      - run: npm test\n"
+  );
+  ok(converted.code.includes('.service("redis", "redis", { ports: [6379] })'), converted.code);
+  ok(converted.warnings.length === 0, converted.warnings.join("\n"));
+});
+
+test("jobs deploy to declared environments", () => {
+  const workflow = new Workflow("Deploy Environments")
+    .onPush()
+    .environments(["staging", "production"])
+    .addJob("deploy", (job) =>
+      job
+        .environment("production", { url: "${{ steps.deploy.outputs.url }}" })
+        .addStep((step) => step.id("deploy").run("./deploy.sh"))
+    )
+    .addJob("preview", (job) =>
+      job
+        .strategy({ matrix: { region: ["eu", "us"] } })
+        .environment("prodution")
+        .addStep((step) => step.run("./preview.sh"))
+    );
+
+  ok(
+    JSON.stringify(workflow.toJSON().jobs.deploy.environment) ===
+      JSON.stringify({ name: "production", url: "${{ steps.deploy.outputs.url }}" })
+  );
+  const diagnostics = workflow.validate();
+  ok(
+    diagnostics.some(
+      (diagnostic) =>
+        diagnostic.severity === "error" &&
+        diagnostic.path === "jobs.preview.environment" &&
+        diagnostic.message.includes('Unknown environment "prodution"')
+    ),
+    JSON.stringify(diagnostics)
+  );
+  ok(
+    diagnostics.some(
+      (diagnostic) =>
+        diagnostic.severity === "warning" && diagnostic.message.includes("Every matrix combination")
+    ),
+    JSON.stringify(diagnostics)
+  );
+
+  workflow.addJob("preview", (job) =>
+    job
+      .strategy({ matrix: { region: ["eu", "us"] } })
+      .environment(`preview-${matrix.region}`, { url: `https://${matrix.region}.example.com` })
+      .addStep((step) => step.run("./preview.sh"))
+  );
+  const remaining = workflow.validate().filter((diagnostic) => diagnostic.severity !== "info");
+  ok(remaining.length === 0, JSON.stringify(remaining));
+
+  const converted = convertWorkflowYaml(
+    "on: push\njobs:\n  deploy:\n    runs-on: ubuntu-latest\n    environment:\n      name: production\n      url: https://example.com\n    steps:\n      - run: ./deploy.sh\n"
+  );
+  ok(
+    converted.code.includes('.environment("production", { url: "https://example.com" })'),
+    converted.code
+  );
+});
+
+test("permission analysis infers least-privilege job permissions", () => {
+  const checkout = { reference: "actions/checkout@v4" };
+  const deployPages = { reference: "actions/deploy-pages@v4" };
+  const pages = new Workflow("Pages")
+    .onPush()
+    .permissions("write-all")
+    .inferPermissions()
+    .addJob("build", (job) =>
+      job.addStep((step) => step.uses(checkout)).addStep((step) => step.run("npm run build"))
+    )
+    .addJob("deploy", (job) => job.addStep((step) => step.uses(deployPages)));
+  const messages = pages
+    .validate()
+    .map((diagnostic) => `${diagnostic.path}: ${diagnostic.message}`);
+  ok(
+    messages.includes(
+      "permissions: write-all grants more than needed; the jobs need { contents: read, pages: write, id-token: write }"
+    ),
+    JSON.stringify(messages)
+  );
+  ok(pages.validate().every((diagnostic) => diagnostic.severity === "warning"));
+
+  const scoped = new Workflow("Scoped")
+    .onPush()
+    .inferPermissions()
+    .addJob("build", (job) =>
+      job.permissions({ contents: "write" }).addStep((step) => step.uses(checkout))
+    )
+    .addJob("deploy", (job) =>
+      job.permissions({ contents: "read" }).addStep((step) => step.uses(deployPages))
+    )
+    .addJob("comment", (job) =>
+      job.addStep((step) => step.run(`GH_TOKEN=${github.token} gh pr comment --body done`))
+    );
+  const scopedMessages = scoped
+    .validate()
+    .map((diagnostic) => `${diagnostic.path}: ${diagnostic.message}`);
+  for (const expected of [
+    "jobs.build.permissions.contents: contents: write is more than needed (read)",
+    "jobs.deploy.permissions: pages: write is needed but pages: none is granted",
+    "jobs.deploy.permissions.contents: contents: read is more than needed (none)",
+    "jobs.comment.steps[0]: The permissions this step needs are unknown; add its action to actionPermissions in the config, or set the job's permissions",
+  ]) {
+    ok(scopedMessages.includes(expected), `${expected}\n${JSON.stringify(scopedMessages)}`);
+  }
+
+  const emitted = new Workflow("Emitted")
+    .onPush()
+    .inferPermissions("emit")
+    .addJob("build", (job) => job.addStep((step) => step.uses(checkout)))
+    .addJob("comment", (job) => job.addStep((step) => step.run("echo ${{ secrets.GITHUB_TOKEN }}")))
+    .toJSON();
+  ok(JSON.stringify(emitted.jobs.build.permissions) === JSON.stringify({ contents: "read" }));
+  ok(emitted.jobs.comment.permissions === undefined);
+
+  const custom = inferJobPermissions(
+    {
+      "runs-on": "ubuntu-latest",
+      steps: [{ uses: "octo/deploy@v1" }, { uses: "octo/unknown@v1" }],
+    },
+    { "octo/deploy": { deployments: "write" } }
+  );
+  ok(JSON.stringify(custom.permissions) === JSON.stringify({ deployments: "write" }));
+  ok(JSON.stringify(custom.unknownSteps) === JSON.stringify([1]));
+});
+
+test("matrices expand with include and exclude and type the matrix context", async () => {
+  const matrix = Matrix.of({
+    os: ["ubuntu-latest", "windows-latest"],
+    node: [20, 22],
+    target: [{ arch: "x64", triple: "x86_64" }],
+  })
+    .include({ os: "ubuntu-latest", node: 24, experimental: true })
+    .include({ os: "windows-latest", shell: "pwsh" })
+    .exclude({ os: "windows-latest", node: 20 })
+    .exclude({ node: 24 });
+  const { context } = matrix;
+  // @ts-expect-error the os axis has no macos value
+  context.os.eq("macos-latest");
+  // @ts-expect-error no python axis
+  context.python;
+
+  const workflow = new Workflow("Matrix Build").onPush().addJob("build", (job) =>
+    job
+      .runsOn(context.os)
+      .strategy({ matrix, "fail-fast": false })
+      .addStep((step) =>
+        step
+          .if(context.experimental.ne(true))
+          .run(`npm test -- --arch ${context.target.arch} --shell ${context.shell}`)
+      )
+  );
+
+  const expansion = matrix.expand();
+  ok(expansion !== undefined);
+  ok(expansion.combinations.length === 4, JSON.stringify(expansion.combinations));
+  ok(
+    JSON.stringify(expansion.combinations[3]) ===
+      JSON.stringify({ os: "ubuntu-latest", node: 24, experimental: true }),
+    "An include that would overwrite axis values becomes its own combination"
+  );
+  ok(expansion.combinations[2].shell === "pwsh");
+  ok(JSON.stringify(expansion.unmatchedExcludes) === JSON.stringify([1]));
+
+  const diagnostics = workflow.validate();
+  ok(
+    diagnostics.some(
+      (diagnostic) =>
+        diagnostic.path === "jobs.build.strategy.matrix" &&
+        diagnostic.message === "The matrix generates 4 jobs"
+    ),
+    JSON.stringify(diagnostics)
+  );
+  ok(
+    diagnostics.some(
+      (diagnostic) =>
+        diagnostic.path === "jobs.build.strategy.matrix.exclude[1]" &&
+        diagnostic.severity === "warning"
+    )
+  );
+
+  const warnings: string[] = [];
+  const warn = mock.method(console, "warn", (message: string) => warnings.push(message));
+  try {
+    await synthesize(workflow, TEST_OUTPUT_DIR);
+  } finally {
+    warn.mock.restore();
+  }
+  ok(warnings.length === 1 && warnings[0].includes("exclude[1]"), warnings.join("\n"));
+  const job = parse(readFileSync(join(TEST_OUTPUT_DIR, "matrix-build.yml"), "utf-8")).jobs.build;
+  ok(job["runs-on"] === "${{ matrix.os }}");
+  ok(job.steps[0].if === "matrix.experimental != true", job.steps[0].if);
+  ok(job.strategy.matrix.include.length === 2);
+
+  const dynamic = Matrix.fromJSON("${{ needs.setup.outputs.matrix }}");
+  ok(dynamic.toJSON() === "${{ fromJSON(needs.setup.outputs.matrix) }}");
+  ok(String(dynamic.context.shard) === "${{ matrix.shard }}");
+  ok(dynamic.expand() === undefined);
+  throws(() => Matrix.fromJSON("needs.setup.outputs.matrix"), MATRIX_FROM_JSON_REGEX);
+
+  const large = new Workflow("Large").onPush().addJob("test", (job) =>
+    job
+      .strategy({
+        matrix: Matrix.of({ a: [...new Array(17).keys()], b: [...new Array(16).keys()] }),
+      })
+      .addStep((step) => step.run("true"))
+  );
+  ok(
+    large
+      .validate()
+      .some(
+        (diagnostic) => diagnostic.severity === "error" && diagnostic.message.includes("272 jobs")
+      )
+  );
+});
+
+test("workflow and job concurrency use preset groups and expression cancel conditions", async () => {
+  const workflow = new Workflow("Concurrency")
+    .onPush()
+    .onPullRequest()
+    .concurrency(concurrencyPerPullRequest(), cancelInProgressExcept(["main", "release"]))
+    .addJob("test", (job) =>
+      job
+        .concurrency(concurrencyPerPullRequest(), github.ref.ne("refs/heads/main"))
+        .addStep((step) => step.run("npm test"))
+    )
+    .addJob("deploy", (job) =>
+      job
+        .needs("test")
+        .environment("production")
+        .concurrency(concurrencyPerEnvironment("production"), false)
+        .addStep((step) => step.run("./deploy.sh"))
+    );
+
+  const deadlock = workflow.validate().filter((diagnostic) => diagnostic.severity === "warning");
+  ok(
+    deadlock.length === 1 &&
+      deadlock[0].path === "jobs.test.concurrency.group" &&
+      deadlock[0].message.includes("deadlock"),
+    JSON.stringify(deadlock)
+  );
+
+  workflow.addJob("test", (job) =>
+    job
+      .concurrency(concurrencyPerBranch("test"), github.ref.ne("refs/heads/main"))
+      .addStep((step) => step.run("npm test"))
+  );
+  ok(workflow.validate().length === 0, JSON.stringify(workflow.validate()));
+
+  await synthesize(workflow, TEST_OUTPUT_DIR);
+  const synthesized = parse(readFileSync(join(TEST_OUTPUT_DIR, "concurrency.yml"), "utf-8"));
+  ok(
+    synthesized.concurrency.group ===
+      "${{ github.workflow }}-${{ github.event.pull_request.number || github.ref }}"
+  );
+  ok(
+    synthesized.concurrency["cancel-in-progress"] ===
+      "${{ github.ref != 'refs/heads/main' && github.ref != 'refs/heads/release' }}"
+  );
+  ok(synthesized.jobs.test.concurrency.group === "test-${{ github.ref }}");
+  ok(
+    synthesized.jobs.test.concurrency["cancel-in-progress"] ===
+      "${{ github.ref != 'refs/heads/main' }}"
+  );
+  ok(synthesized.jobs.deploy.concurrency.group === "deploy-production");
+
+  const invalid = new Workflow("Invalid Concurrency")
+    .onPush()
+    .concurrency("${{ github.workflow }}", "${{ matrix.os == 'linux' }}")
+    .addJob("test", (job) => job.addStep((step) => step.run("npm test")));
+  ok(
+    invalid.validate().some((diagnostic) => diagnostic.path === "concurrency.cancel-in-progress"),
+    JSON.stringify(invalid.validate())
+  );
+
+  const converted = convertWorkflowYaml(
+    "on: push\nconcurrency:\n  group: ci-${{ github.ref }}\n  cancel-in-progress: ${{ github.ref != 'refs/heads/main' }}\njobs:\n  test:\n    runs-on: ubuntu-latest\n    steps:\n      - run: npm test\n"
+  );
+  ok(converted.warnings.length === 0, JSON.stringify(converted.warnings));
+  ok(
+    converted.code.includes(
+      '.concurrency("ci-${{ github.ref }}", "${{ github.ref != \'refs/heads/main\' }}")'
+    ),
+    converted.code
+  );
+});
+
+test("runs-on selects runner groups and labels checked against the runner catalog", async () => {
+  setConfig(RUNNERS_CONFIG);
+  try {
+    const workflow = new Workflow("Runner Groups")
+      .onPush()
+      .addJob("train", (job) =>
+        job.runsOn(["self-hosted", "Linux", "gpu"]).addStep((step) => step.run("./train.sh"))
+      )
+      .addJob("build", (job) =>
+        job
+          .runsOn({ group: "arm-builders", labels: "arm-large" })
+          .addStep((step) => step.run("make"))
+      )
+      .addJob("test", (job) =>
+        job.runsOn("ubuntu-24.04-arm").addStep((step) => step.run("make test"))
+      );
+    ok(workflow.validate().length === 0, JSON.stringify(workflow.validate()));
+
+    await synthesize(workflow, TEST_OUTPUT_DIR);
+    const jobs = parse(readFileSync(join(TEST_OUTPUT_DIR, "runner-groups.yml"), "utf-8")).jobs;
+    ok(
+      jobs.build["runs-on"].group === "arm-builders" && jobs.build["runs-on"].labels === "arm-large"
+    );
+
+    const info = describeRunner(workflow.toJSON().jobs.build["runs-on"]);
+    ok(info?.os === "linux" && info.arch === "arm64" && info.hosted, JSON.stringify(info));
+    ok(describeRunner("macos-13")?.arch === "x64");
+    ok(describeRunner(["self-hosted", "windows", "arm64"])?.os === "windows");
+    ok(describeRunner(["self-hosted", "macOS", "ARM64"])?.arch === "arm64");
+    ok(describeRunner("${{ matrix.os }}") === undefined);
+
+    workflow
+      .addJob("train", (job) =>
+        job
+          // @ts-expect-error "gpuu" is not a label of the declared runners
+          .runsOn(["self-hosted", "gpuu"])
+          .addStep((step) => step.run("./train.sh"))
+      )
+      .addJob("build", (job) =>
+        job
+          // @ts-expect-error "arm-builder" is not a declared runner group
+          .runsOn({ group: "arm-builder" })
+          .addStep((step) => step.run("make"))
+      );
+    const diagnostics = workflow.validate();
+    ok(
+      diagnostics.length === 2 &&
+        diagnostics.every((diagnostic) => diagnostic.severity === "error") &&
+        diagnostics[0].path === "jobs.train.runs-on" &&
+        diagnostics[0].message.includes('"gpuu"') &&
+        diagnostics[1].message.includes('group "arm-builder"'),
+      JSON.stringify(diagnostics)
+    );
+  } finally {
+    resetConfig();
+  }
+
+  const converted = convertWorkflowYaml(
+    "on: push\njobs:\n  build:\n    runs-on:\n      group: arm-builders\n      labels: [linux]\n    steps:\n      - run: make\n"
+  );
+  ok(converted.warnings.length === 0, JSON.stringify(converted.warnings));
+  ok(converted.code.includes('group: "arm-builders"'), converted.code);
+});
+
+test("steps choose their shell and scripts and outputs render for it", async () => {
+  const workflow = new Workflow("Shells")
+    .onPush()
+    .defaults({ run: { shell: "sh" } })
+    .addJob("build", (job) =>
+      job
+        .runsOn("windows-latest")
+        .defaults({ run: { shell: "pwsh" } })
+        .addStep((step) =>
+          step
+            .shell("bash")
+            .id("bash")
+            .runScript(["npm ci", setOutput("version", "$VERSION")])
+        )
+        .addStep((step) =>
+          step
+            .shell("pwsh")
+            .id("pwsh")
+            .runScript(["npm ci", setOutput("version", '"$env:VERSION"', "pwsh")])
+        )
+        .addStep((step) =>
+          step
+            .shell("cmd")
+            .runScript(["if exist dist (", "  rmdir /s /q dist", ")", "npm run build"])
+        )
+        .addStep((step) => step.shell("perl {0}").run('print "hello"'))
+        .addStep((step) => step.runScript(["npm ci"]))
+    )
+    .addJob("linux", (job) =>
+      job.runsOn("ubuntu-latest").addStep((step) => step.runScript(["make"]))
+    );
+  ok(workflow.validate().length === 0, JSON.stringify(workflow.validate()));
+
+  await synthesize(workflow, TEST_OUTPUT_DIR);
+  const jobs = parse(readFileSync(join(TEST_OUTPUT_DIR, "shells.yml"), "utf-8")).jobs;
+  const steps = jobs.build.steps;
+  ok(steps[0].shell === "bash");
+  ok(
+    steps[0].run ===
+      'set -euo pipefail\nnpm ci\nprintf \'%s\\n\' "version=$VERSION" >> "$GITHUB_OUTPUT"',
+    steps[0].run
+  );
+  ok(
+    steps[1].run ===
+      '$ErrorActionPreference = \'Stop\'\n$PSNativeCommandUseErrorActionPreference = $true\nnpm ci\n"version=`"$env:VERSION`"" >> $env:GITHUB_OUTPUT',
+    steps[1].run
+  );
+  ok(
+    steps[2].run ===
+      "@echo off\nif exist dist (\n  rmdir /s /q dist || exit /b\n)\nnpm run build || exit /b",
+    steps[2].run
+  );
+  ok(steps[3].shell === "perl {0}");
+  ok(
+    steps[4].shell === undefined &&
+      steps[4].run ===
+        "$ErrorActionPreference = 'Stop'\n$PSNativeCommandUseErrorActionPreference = $true\nnpm ci",
+    "A script without a shell renders for the job's default shell"
+  );
+  ok(
+    jobs.linux.steps[0].shell === undefined && jobs.linux.steps[0].run === "set -eu\nmake",
+    "A script without a shell renders for the workflow's default shell"
+  );
+  const bashStep = new Step().runScript(["npm ci"]).toJSON();
+  ok(bashStep.shell === "bash" && bashStep.run === "set -euo pipefail\nnpm ci", "Otherwise bash");
+
+  const cmdStep = new Step()
+    .shell("cmd")
+    .runScript([
+      "npm run build",
+      setOutput("v", "1", "cmd"),
+      setMultilineOutput("notes", "a\nb", "cmd"),
+      setEnv("MODE", "release", "cmd"),
+      addMask("%TOKEN%", "cmd"),
+    ])
+    .toJSON();
+  ok(
+    cmdStep.run ===
+      [
+        "@echo off",
+        "npm run build || exit /b",
+        '>> "%GITHUB_OUTPUT%" echo(v=1',
+        'set "ts_actions_delimiter=ghadelimiter_%RANDOM%%RANDOM%%RANDOM%%RANDOM%" || exit /b',
+        '>> "%GITHUB_OUTPUT%" echo(notes^<^<%ts_actions_delimiter%',
+        '>> "%GITHUB_OUTPUT%" echo(a',
+        '>> "%GITHUB_OUTPUT%" echo(b',
+        '>> "%GITHUB_OUTPUT%" echo(%ts_actions_delimiter%',
+        '>> "%GITHUB_ENV%" echo(MODE=release',
+        "echo(::add-mask::%TOKEN%",
+      ].join("\n"),
+    cmdStep.run
+  );
+
+  ok(setOutput("a", "x&y", "cmd") === '>> "%GITHUB_OUTPUT%" echo(a=x^&y');
+  ok(
+    setOutput("a", "1", "python") ===
+      'import os; open(os.environ["GITHUB_OUTPUT"], "a", encoding="utf-8").write("\\n".join(["a=1"]) + "\\n")'
+  );
+  throws(() => setOutput("a", "1", "perl {0}"), SET_OUTPUT_SHELL_REGEX);
+
+  const invalid = new Workflow("Invalid Shells")
+    .onPush()
+    .addJob("build", (job) =>
+      job
+        .addStep((step) => step.run("make").shell("zsh" as Shell))
+        .addStep((step) => step.uses({ reference: "actions/checkout@v4" }).shell("bash"))
+    );
+  const diagnostics = invalid.validate();
+  ok(
+    diagnostics.some(
+      (diagnostic) =>
+        diagnostic.path === "jobs.build.steps[0].shell" &&
+        diagnostic.message.startsWith('Unknown shell "zsh"')
+    ) &&
+      diagnostics.some(
+        (diagnostic) =>
+          diagnostic.path === "jobs.build.steps[1].shell" &&
+          diagnostic.message === "shell only applies to run steps"
+      ),
+    JSON.stringify(diagnostics)
+  );
+
+  const converted = convertWorkflowYaml(
+    "on: push\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - run: Get-ChildItem\n        shell: pwsh\n"
+  );
+  ok(converted.warnings.length === 0, JSON.stringify(converted.warnings));
+  ok(converted.code.includes('.shell("pwsh")'), converted.code);
+});
+
+/** Parses an environment file the way the runner does: `name=value` lines and `name<<delimiter` blocks */
+function readEnvironmentFile(path: string): Record<string, string> {
+  const lines = readFileSync(path, "utf-8").split(LINE_BREAK_REGEX);
+  const values: Record<string, string> = {};
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const equals = line.indexOf("=");
+    const heredoc = line.indexOf("<<");
+    if (heredoc === -1 || (equals !== -1 && equals < heredoc)) {
+      if (line) {
+        values[line.slice(0, equals)] = line.slice(equals + 1);
+      }
+      continue;
+    }
+    const delimiter = line.slice(heredoc + 2);
+    const end = lines.indexOf(delimiter, index + 1);
+    ok(end !== -1, `The block of ${line} is not closed`);
+    values[line.slice(0, heredoc)] = lines.slice(index + 1, end).join("\n");
+    index = end;
+  }
+  return values;
+}
+
+/** Runs a script in a shell with empty environment files, and returns what it wrote to them */
+function runWithEnvironmentFiles(command: string[], script: string, env: Record<string, string>) {
+  const directory = mkdtempSync(join(tmpdir(), "ts-actions-env-"));
+  const files = Object.fromEntries(
+    ["GITHUB_OUTPUT", "GITHUB_ENV", "GITHUB_PATH", "GITHUB_STEP_SUMMARY"].map((name) => [
+      name,
+      join(directory, name),
+    ])
+  );
+  for (const file of Object.values(files)) {
+    writeFileSync(file, "");
+  }
+  try {
+    const [executable, ...args] = command;
+    const result = spawnSync(executable, [...args, script], {
+      encoding: "utf-8",
+      env: { ...process.env, ...env, ...files },
+      timeout: 10000,
+    });
+    ok(result.status === 0, `${executable} failed: ${result.stderr}\n${script}`);
+    return {
+      stdout: result.stdout,
+      output: readEnvironmentFile(files.GITHUB_OUTPUT),
+      env: readEnvironmentFile(files.GITHUB_ENV),
+      path: readFileSync(files.GITHUB_PATH, "utf-8"),
+      summary: readFileSync(files.GITHUB_STEP_SUMMARY, "utf-8"),
+    };
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+}
+
+test("environment file writers round-trip multi-line, JSON and literal values", async () => {
+  const notes = 'line 1\nEOF\nghadelimiter_0\n"quoted" `tick` $HOME\n\nlast';
+  const config = {
+    name: 'it\'s "x"',
+    targets: ["linux", "windows"],
+    shell: "$(id) `id` %PATH%",
+    path: "C:\\tmp\\new",
+    text: "x\ny",
+  };
+  const summary = "## Build\n`npm test` passed for $VERSION";
+
+  for (const shell of ["bash", "sh"] as const) {
+    const script = renderScript(
+      [
+        setMultilineOutput("notes", "$NOTES", shell),
+        setOutput("lines", 'first\n"second"', shell),
+        setOutput("version", "1.0.0", shell),
+        setOutput("path", "C:\\tmp\\new", shell),
+        setJsonOutput("config", config, shell),
+        setEnv("NOTES", "first\n$NOTES", shell),
+        setEnv("MODE", "release", shell),
+        addPath("$HOME/.local/bin", shell),
+        appendStepSummary(summary, shell),
+        addMask("$NOTES", shell),
+      ],
+      shell
+    );
+    const result = runWithEnvironmentFiles(
+      [shell, "-c"],
+      script,
+      Object.fromEntries([["NOTES", notes]])
+    );
+    ok(result.output.notes === notes, `${shell}: ${result.output.notes}`);
+    ok(result.output.lines === 'first\n"second"', `${shell}: ${result.output.lines}`);
+    ok(result.output.version === "1.0.0");
+    ok(result.output.path === "C:\\tmp\\new", `${shell}: ${result.output.path}`);
+    ok(JSON.stringify(JSON.parse(result.output.config)) === JSON.stringify(config));
+    ok(result.env.NOTES === `first\n${notes}`, `${shell}: ${result.env.NOTES}`);
+    ok(result.env.MODE === "release");
+    ok(result.path === `${process.env.HOME}/.local/bin\n`, result.path);
+    ok(result.summary === `${summary}\n`, result.summary);
+    ok(
+      result.stdout.split("\n").includes("::add-mask::EOF") &&
+        result.stdout.split("\n").includes("::add-mask::last"),
+      result.stdout
+    );
+  }
+
+  if (spawnSync("python3", ["--version"]).status === 0) {
+    const script = [
+      setMultilineOutput("notes", notes, "python"),
+      setJsonOutput("config", config, "python"),
+      setEnv("NOTES", notes, "python"),
+      addPath("/opt/tools", "python"),
+      appendStepSummary(summary, "python"),
+      addMask("token", "python"),
+    ].join("\n");
+    const result = runWithEnvironmentFiles(["python3", "-c"], script, {});
+    ok(result.output.notes === notes, result.output.notes);
+    ok(JSON.stringify(JSON.parse(result.output.config)) === JSON.stringify(config));
+    ok(result.env.NOTES === notes);
+    ok(result.path === "/opt/tools\n");
+    ok(result.summary === `${summary}\n`);
+    ok(result.stdout === "::add-mask::token\n");
+  }
+
+  ok(
+    setMultilineOutput("notes", "a\nb", "pwsh") ===
+      '$tsActionsDelimiter = "ghadelimiter_$([guid]::NewGuid())"\n@("notes<<$tsActionsDelimiter", "a", "b", $tsActionsDelimiter) | Out-File -FilePath $env:GITHUB_OUTPUT -Encoding utf8 -Append'
+  );
+  ok(
+    setMultilineOutput("notes", "a&b", "cmd") ===
+      'set "ts_actions_delimiter=ghadelimiter_%RANDOM%%RANDOM%%RANDOM%%RANDOM%"\n>> "%GITHUB_OUTPUT%" echo(notes^<^<%ts_actions_delimiter%\n>> "%GITHUB_OUTPUT%" echo(a^&b\n>> "%GITHUB_OUTPUT%" echo(%ts_actions_delimiter%'
+  );
+  ok(appendStepSummary("100% `done`", "cmd") === '>> "%GITHUB_STEP_SUMMARY%" echo(100%% `done`');
+  throws(() => setEnv("A", "1", "perl {0}"), SET_OUTPUT_SHELL_REGEX);
+
+  const workflow = new Workflow("Environment Files").onPush().addJob("build", (job) => {
+    const settings = jsonOutput<{ node: string; targets: string[] }>(
+      steps<{ settings: string }>("settings").outputs.settings
+    );
+    return job
+      .runsOn("ubuntu-latest")
+      .addStep((step) =>
+        step
+          .id("settings")
+          .runScript([
+            setJsonOutput("settings", { node: "22", targets: ["linux"] }),
+            setMultilineOutput("notes", "$(git log --oneline -5)"),
+            appendStepSummary("Settings: `node 22`"),
+          ])
+      )
+      .addStep((step) => step.uses(ActionsSetupNode4).with({ "node-version": settings.node }))
+      .addStep((step) => step.run(`echo ${settings.targets[0]}`));
+  });
+  ok(workflow.validate().length === 0, JSON.stringify(workflow.validate()));
+
+  await synthesize(workflow, TEST_OUTPUT_DIR);
+  const built = parse(readFileSync(join(TEST_OUTPUT_DIR, "environment-files.yml"), "utf-8")).jobs
+    .build.steps;
+  ok(
+    built[1].with["node-version"] === "${{ fromJSON(steps.settings.outputs.settings).node }}",
+    JSON.stringify(built[1])
+  );
+  ok(built[2].run === "echo ${{ fromJSON(steps.settings.outputs.settings).targets[0] }}");
+  ok(
+    String(jsonOutput("${{ needs.setup.outputs.config }}")) ===
+      "${{ fromJSON(needs.setup.outputs.config) }}"
+  );
+  ok(
+    String(jsonOutput<{ node: string }>(new Step().id("config").outputs.config).node) ===
+      "${{ fromJSON(steps.config.outputs.config).node }}"
+  );
+  const needsContext = createContext<DynamicContext>("needs");
+  ok(
+    String(jsonOutput<{ targets: string[] }>(needsContext.setup.outputs.config).targets[0]) ===
+      "${{ fromJSON(needs.setup.outputs.config).targets[0] }}"
+  );
+  throws(() => jsonOutput("steps.settings.outputs.settings"), JSON_OUTPUT_REGEX);
+});
+
+test("action steps expose the imported action's outputs as typed expressions", async () => {
+  const checkout = new Step().id("checkout").uses(ActionsCheckout4);
+  const setupNode = new Step()
+    .id("setup-node")
+    .uses(ActionsSetupNode4)
+    .with({ "node-version": "22" });
+  // @ts-expect-error actions/checkout has no sha output
+  ok(String(checkout.outputs.sha) === "${{ steps.checkout.outputs.sha }}");
+
+  const buildJob = new Job("ubuntu-latest").addStep(checkout, setupNode).outputs({
+    commit: checkout.outputs.commit,
+    node: setupNode.outputs["node-version"],
+  });
+  const workflow = new Workflow("Action Outputs")
+    .onPush()
+    .addJob("build", buildJob)
+    .addJob("report", (job) => {
+      const build = needs(buildJob);
+      return job
+        .runsOn("ubuntu-latest")
+        .needs(build)
+        .addStep((step) => step.run(`echo ${build.outputs.commit} ${build.outputs.node}`));
+    });
+  ok(workflow.validate().length === 0, JSON.stringify(workflow.validate()));
+
+  await synthesize(workflow, TEST_OUTPUT_DIR);
+  const jobs = parse(readFileSync(join(TEST_OUTPUT_DIR, "action-outputs.yml"), "utf-8")).jobs;
+  ok(
+    jobs.build.outputs.commit === "${{ steps.checkout.outputs.commit }}",
+    jobs.build.outputs.commit
+  );
+  ok(
+    jobs.build.outputs.node === "${{ steps.setup-node.outputs.node-version }}",
+    jobs.build.outputs.node
+  );
+  ok(
+    jobs.report.steps[0].run ===
+      "echo ${{ needs.build.outputs.commit }} ${{ needs.build.outputs.node }}"
+  );
+
+  const runStep = new Step().id("version").run(setOutput("version", "1.0.0"));
+  ok(String(runStep.outputs.version) === "${{ steps.version.outputs.version }}");
+  throws(() => new Step().uses(ActionsCheckout4).outputs.commit, STEP_OUTPUTS_ID_REGEX);
+
+  const generated = generateTypeDefinition(
+    {
+      name: "Cache",
+      description: "Cache files",
+      outputs: { "cache-hit": { description: "Whether the key matched" } },
+      runs: { using: "node20", main: "dist/index.js" },
+    },
+    "ActionsCache4",
+    { owner: "actions", repo: "cache", version: "v4", full: "actions/cache@v4" }
+  );
+  ok(
+    generated.includes(
+      'static readonly outputs: readonly (keyof ActionsCache4Outputs)[] = ["cache-hit"];'
+    ),
+    generated
+  );
+});